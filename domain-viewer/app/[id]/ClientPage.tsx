@@ -1,50 +1,79 @@
 "use client";
 
-import { fetchDomainInfo } from "@/app/actions";
+import { CacheSettingsPanel } from "@/components/CacheSettingsPanel";
+import { ClippingPanel } from "@/components/ClippingPanel";
 import { DomainDetailsPanel } from "@/components/DomainDetailsPanel";
 import { DomainSelector } from "@/components/DomainSelector";
+import { GeoMapButton, GeoMapView } from "@/components/GeoMapView";
+import { LoadingHud } from "@/components/LoadingHud";
+import { MeasurementPanel } from "@/components/MeasurementPanel";
+import { PointCloudStylePanel } from "@/components/PointCloudStylePanel";
+import { PortalInspector } from "@/components/PortalInspector";
+import { PortalLegend } from "@/components/PortalLegend";
+import { PortalListPanel } from "@/components/PortalListPanel";
+import { RoutePanel } from "@/components/RoutePanel";
+import { ShareViewButton } from "@/components/ShareViewButton";
+import { TourCaption } from "@/components/TourCaption";
+import { TourPanel } from "@/components/TourPanel";
 import { TunnelNavigation } from "@/components/TunnelNavigation";
 import { VisibilityControls } from "@/components/VisibilityControls";
 import Viewer3D from "@/components/Viewer3D";
-import PosemeshClientApi, { Portal } from "@/utils/posemeshClientApi";
+import { useDomainLoader } from "@/hooks/useDomainLoader";
+import { useDomainTour } from "@/hooks/useDomainTour";
+import { useEmbedApi } from "@/hooks/useEmbedApi";
+import { useViewLinkRestore } from "@/hooks/useViewLink";
+import { parseEmbedOptions, type EmbedControl, type EmbedOptions } from "@/utils/embed";
+import { DEFAULT_LAYER_VISIBILITY, type LayerVisibility } from "@/utils/viewLink";
 import { useCallback, useEffect, useState } from "react";
 
 export const maxDuration = 60;
 
-interface DomainData {
-  domainInfo: any;
-  domainAccessToken: string;
-  domainServerUrl: string;
-}
-
 /**
  * Main domain viewer page component that handles loading and displaying domain data.
- * This component manages the state for all domain-related data including point clouds,
- * portals, navigation meshes, and occlusion meshes.
+ * Domain data (point clouds, portals, navigation meshes and occlusion meshes) is loaded
+ * layer by layer through useDomainLoader; this component manages view state around it.
+ *
+ * In an iframe, with ?embed=1 or with hideUI (the preview route) the page is an embed,
+ * configured by query parameters and driven by the postMessage API in utils/embed.
  */
 export default function DomainPage({ params, hideUI = false }: { params: { id: string }, hideUI?: boolean }) {
   const [currentDomainId, setCurrentDomainId] = useState(params.id);
-  const [domainData, setDomainData] = useState<DomainData | null>(null);
-  const [pointCloudData, setPointCloudData] = useState<ArrayBuffer | null>(null);
-  const [portals, setPortals] = useState<Portal[] | null>(null);
-  const [navMeshData, setNavMeshData] = useState<ArrayBuffer | null>(null);
-  const [occlusionMeshData, setOcclusionMeshData] = useState<ArrayBuffer | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [portalsVisible, setPortalsVisible] = useState(true);
-  const [navMeshVisible, setNavMeshVisible] = useState(true);
-  const [occlusionVisible, setOcclusionVisible] = useState(true);
-  const [pointCloudVisible, setPointCloudVisible] = useState(true);
-  const [alignmentMatrix, setAlignmentMatrix] = useState<number[] | null>(null);
+  const {
+    domainData,
+    pointCloudData,
+    portals,
+    navMeshData,
+    occlusionMeshData,
+    alignmentMatrix,
+    layers,
+    isLoading,
+    retryLayer,
+  } = useDomainLoader(currentDomainId);
+  const [visibleLayers, setVisibleLayers] = useState<LayerVisibility>(DEFAULT_LAYER_VISIBILITY);
   const [isInIframe, setIsInIframe] = useState(false);
+  // Null until mounted, when the query string and the iframe are known; no UI shows until then
+  const [embed, setEmbed] = useState<EmbedOptions | null>(null);
+  const [mapOpen, setMapOpen] = useState(false);
 
   useEffect(() => {
     // Detect if page is loaded in an iframe (e.g., Twitter embed)
-    setIsInIframe(window.self !== window.top);
-  }, []);
-
+    const inIframe = window.self !== window.top;
+    const options = parseEmbedOptions(window.location.search, inIframe || hideUI);
+    setIsInIframe(inIframe);
+    setEmbed(options);
+    if (options.layers) setVisibleLayers(options.layers);
+  }, [hideUI]);
+
+  // A transparent embed shows the host page through the whole document
   useEffect(() => {
-    loadAllDomainData(currentDomainId);
-  }, [currentDomainId]);
+    if (embed?.background !== "transparent") return;
+    document.documentElement.style.background = "transparent";
+    document.body.style.background = "transparent";
+    return () => {
+      document.documentElement.style.background = "";
+      document.body.style.background = "";
+    };
+  }, [embed?.background]);
 
   // Sync with URL params
   useEffect(() => {
@@ -53,204 +82,130 @@ export default function DomainPage({ params, hideUI = false }: { params: { id: s
     }
   }, [params.id]);
 
-  /**
-   * Loads all domain data for a given domain ID including:
-   * - Domain information and access tokens
-   * - Portal locations
-   * - Navigation mesh
-   * - Occlusion mesh
-   * - Point cloud data
-   *
-   * @param domainId - The unique identifier for the domain to load
-   */
-  const loadAllDomainData = async (domainId: string) => {
-    setIsLoading(true);
-    // Clear previous data
-    setDomainData(null);
-    setPointCloudData(null);
-    setPortals(null);
-    setNavMeshData(null);
-    setOcclusionMeshData(null);
-    setAlignmentMatrix(null);
-
-    try {
-      const clientApi = new PosemeshClientApi();
-
-      // First, get domain info
-      const result = await fetchDomainInfo(
-        domainId,
-        clientApi.posemeshClientId
-      );
-      if (!result.success || !result.data) {
-        throw new Error(result.error || "Failed to fetch domain info");
-      }
-
-      const data = result.data;
-      setDomainData(data);
+  // Camera, mode, layers and selection from a shared link
+  useViewLinkRestore(setVisibleLayers);
 
-      // Get domain portals
-      const portals = await clientApi.fetchDomainPortals(
-        data.domainServerUrl,
-        data.domainInfo.id,
-        data.domainAccessToken
-      );
-      setPortals(portals);
+  useEmbedApi({
+    enabled: isInIframe,
+    origin: embed?.origin ?? null,
+    domainId: currentDomainId,
+    layers,
+    portals,
+    setVisibleLayers,
+  });
 
-      // Get domain all domain data info
-      const domainData = await clientApi.fetchDomainData(
-        data.domainServerUrl,
-        data.domainInfo.id,
-        data.domainAccessToken
-      );
+  // The preview embed plays the domain's tour in place of the idle orbit
+  useDomainTour(currentDomainId, { autoplay: hideUI, ready: !isLoading });
 
-      // Load navigation mesh
-      const navMeshItem = domainData.find(
-        (item: any) => item.data_type === "obj" && item.name === "navmesh_v1"
-      );
-      if (navMeshItem) {
-        const navMeshBuffer = await clientApi.downloadFile(
-          data.domainServerUrl,
-          data.domainInfo.id,
-          navMeshItem.id,
-          data.domainAccessToken
-        );
-        setNavMeshData(navMeshBuffer);
-      } else {
-        console.log(
-          `[${new Date().toISOString()}] No navigation mesh data found for this domain`
-        );
-      }
+  const closeMap = useCallback(() => setMapOpen(false), []);
 
-      // Load occlusion mesh
-      const occlusionMeshItem = domainData.find(
-        (item: any) =>
-          item.data_type === "obj" && item.name === "occlusionmesh_v1"
-      );
-      if (occlusionMeshItem) {
-        const occlusionMeshBuffer = await clientApi.downloadFile(
-          data.domainServerUrl,
-          data.domainInfo.id,
-          occlusionMeshItem.id,
-          data.domainAccessToken
-        );
-        setOcclusionMeshData(occlusionMeshBuffer);
-      } else {
-        console.log(
-          `[${new Date().toISOString()}] No occlusion mesh data found for this domain`
-        );
-      }
+  const show = (control: EmbedControl) => embed?.controls.has(control) ?? false;
 
-      // Load point cloud
-      const domainMetadataItem = domainData.find(
-        (item: any) => item.name === "domain_metadata"
-      );
-      if (domainMetadataItem) {
-        const domainMetadata = await clientApi.downloadFile(
-          data.domainServerUrl,
-          data.domainInfo.id,
-          domainMetadataItem.id,
-          data.domainAccessToken
-        );
-
-        const metadata = JSON.parse(new TextDecoder().decode(domainMetadata));
-        setAlignmentMatrix(metadata.canonicalRefinementAlignmentMatrix);
-        if (metadata.canonicalRefinement) {
-          const pointCloudItem = domainData.find(
-            (item: any) =>
-              item.data_type === "refined_pointcloud_ply" &&
-              item.name === `refined_pointcloud_${metadata.canonicalRefinement}`
-          );
-          if (pointCloudItem) {
-            const pointCloudBuffer = await clientApi.downloadFile(
-              data.domainServerUrl,
-              data.domainInfo.id,
-              pointCloudItem.id,
-              data.domainAccessToken
-            );
-            setPointCloudData(pointCloudBuffer);
-          } else {
-            console.log(
-              `[${new Date().toISOString()}] No point cloud data found for this domain`
-            );
-          }
-        }
-      } else {
-        console.log(
-          `[${new Date().toISOString()}] No domain metadata found for this domain`
-        );
-      }
-    } catch (error) {
-      console.error("Error loading domain data:", error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const toggleLayer = (layer: keyof LayerVisibility) =>
+    setVisibleLayers((current) => ({ ...current, [layer]: !current[layer] }));
 
   // Handle domain change from selector
   const handleDomainChange = useCallback((newDomainId: string) => {
     if (newDomainId !== currentDomainId) {
       setCurrentDomainId(newDomainId);
+      setMapOpen(false);
       // Update URL without full page reload
       window.history.pushState({}, '', `/${newDomainId}`);
     }
   }, [currentDomainId]);
 
   return (
-    <div className="relative h-screen w-full overflow-hidden bg-white dark:bg-[#050505]">
-      {!hideUI && !isInIframe && <TunnelNavigation />}
+    <div
+      className={`relative h-screen w-full overflow-hidden ${embed?.background ? "" : "bg-white dark:bg-[#050505]"}`}
+      style={embed?.background ? { background: embed.background } : undefined}
+    >
+      {show("navigation") && <TunnelNavigation />}
       <Viewer3D
         pointCloudData={pointCloudData}
         portals={portals}
         occlusionMeshData={occlusionMeshData}
         navMeshData={navMeshData}
-        portalsVisible={portalsVisible}
-        navMeshVisible={navMeshVisible}
-        occlusionVisible={occlusionVisible}
-        pointCloudVisible={pointCloudVisible}
+        portalsVisible={visibleLayers.portals}
+        navMeshVisible={visibleLayers.navMesh}
+        occlusionVisible={visibleLayers.occlusion}
+        pointCloudVisible={visibleLayers.pointCloud}
         alignmentMatrix={alignmentMatrix}
-        isEmbed={isInIframe}
+        background={embed?.background}
+        autoRotateSpeed={embed?.autoRotateSpeed}
+        isEmbed={embed ? embed.embedded && !show("walk") : false}
       />
 
-      {!hideUI && !isInIframe && (
-        <>
-          {/* Bottom bar with controls */}
-          <div className="fixed bottom-6 left-0 right-0 z-50 pointer-events-none">
-            <div className="flex items-end justify-center gap-3 px-6">
-              {/* Left side - Visibility Controls */}
-              <div className="pointer-events-auto">
-                <VisibilityControls
-                  portalsVisible={portalsVisible}
-                  navMeshVisible={navMeshVisible}
-                  occlusionVisible={occlusionVisible}
-                  pointCloudVisible={pointCloudVisible}
-                  onTogglePortals={() => setPortalsVisible(!portalsVisible)}
-                  onToggleNavMesh={() => setNavMeshVisible(!navMeshVisible)}
-                  onToggleOcclusion={() => setOcclusionVisible(!occlusionVisible)}
-                  onTogglePointCloud={() => setPointCloudVisible(!pointCloudVisible)}
-                />
-              </div>
+      <div className={`fixed ${embed?.embedded ? "bottom-6" : "bottom-24"} left-1/2 -translate-x-1/2 z-40`}>
+        <TourCaption />
+      </div>
 
-              {/* Center - Domain Selector */}
-              <div className="pointer-events-auto">
-                <DomainSelector
-                  currentDomainId={currentDomainId}
-                  currentDomainName={domainData?.domainInfo?.name}
-                  onDomainChange={handleDomainChange}
-                  isDomainLoading={isLoading}
-                />
-              </div>
+      {/* Geo-referenced map over the 3D view */}
+      {show("map") && mapOpen && <GeoMapView portals={portals} onClose={closeMap} />}
+
+      {/* Per-layer load progress */}
+      {show("loading") && (
+        <div className="fixed top-24 left-6 z-50">
+          <LoadingHud layers={layers} onRetry={retryLayer} />
+        </div>
+      )}
 
-              {/* Right side - Domain Details */}
-              <div className="pointer-events-auto">
-                <DomainDetailsPanel
-                  domainInfo={domainData?.domainInfo}
-                  isLoading={isLoading}
-                />
-              </div>
+      {/* Selected portal details and the portal color legend */}
+      <div className="fixed top-24 right-6 z-50 flex flex-col items-end gap-3">
+        {show("inspector") && <PortalInspector portals={portals} />}
+        {show("legend") && <PortalLegend />}
+      </div>
+
+      {/* Bottom bar with controls */}
+      <div className="fixed bottom-6 left-0 right-0 z-50 pointer-events-none">
+        <div className="flex items-end justify-center gap-3 px-6">
+          {/* Left side - Visibility Controls, point cloud style, clipping, measurement, routes and viewpoints */}
+          <div className="pointer-events-auto flex items-end gap-3">
+            {show("layers") && (
+              <VisibilityControls
+                portalsVisible={visibleLayers.portals}
+                navMeshVisible={visibleLayers.navMesh}
+                occlusionVisible={visibleLayers.occlusion}
+                pointCloudVisible={visibleLayers.pointCloud}
+                onTogglePortals={() => toggleLayer("portals")}
+                onToggleNavMesh={() => toggleLayer("navMesh")}
+                onToggleOcclusion={() => toggleLayer("occlusion")}
+                onTogglePointCloud={() => toggleLayer("pointCloud")}
+              />
+            )}
+            {show("style") && <PointCloudStylePanel />}
+            {show("clipping") && <ClippingPanel />}
+            {show("measure") && <MeasurementPanel domainId={currentDomainId} />}
+            {show("route") && <RoutePanel domainId={currentDomainId} portals={portals} />}
+            {show("tour") && <TourPanel domainId={currentDomainId} />}
+          </div>
+
+          {/* Center - Domain Selector */}
+          {show("selector") && (
+            <div className="pointer-events-auto">
+              <DomainSelector
+                currentDomainId={currentDomainId}
+                currentDomainName={domainData?.domainInfo?.name}
+                onDomainChange={handleDomainChange}
+                isDomainLoading={isLoading}
+              />
             </div>
+          )}
+
+          {/* Right side - Share link, map, portal list, Domain Details and cache settings */}
+          <div className="pointer-events-auto flex items-end gap-3">
+            {show("share") && <ShareViewButton domainId={currentDomainId} layers={visibleLayers} />}
+            {show("map") && <GeoMapButton onClick={() => setMapOpen(!mapOpen)} />}
+            {show("portals") && <PortalListPanel portals={portals} />}
+            {show("details") && (
+              <DomainDetailsPanel
+                domainInfo={domainData?.domainInfo}
+                isLoading={isLoading}
+              />
+            )}
+            {show("cache") && <CacheSettingsPanel />}
           </div>
-        </>
-      )}
+        </div>
+      </div>
 
     </div>
   );
@@ -0,0 +1,19 @@
+import { getDomainOgImage, OG_IMAGE_SIZE } from "@/lib/domainOgImage";
+
+export const alt = "Outline and details of a Real World Web domain";
+export const size = OG_IMAGE_SIZE;
+export const contentType = "image/png";
+// Point clouds of domains without a nav mesh can take a while to download
+export const maxDuration = 60;
+
+export default async function Image({ params }: { params: { id: string } }) {
+    const { png, updatedAt } = await getDomainOgImage(params.id);
+
+    return new Response(png, {
+        headers: {
+            "Content-Type": contentType,
+            // The generic card stands in for a failed fetch, so crawlers should ask again
+            "Cache-Control": updatedAt ? "public, max-age=3600, stale-while-revalidate=86400" : "no-store",
+        },
+    });
+}
@@ -33,21 +33,12 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
             openGraph: {
                 title,
                 description,
-                images: [
-                    {
-                        url: "/images/og-image.png", // We could potentially generate a dynamic image here later
-                        width: 1200,
-                        height: 630,
-                        alt: `3D visualization of domain ${domainInfo.name}`,
-                    },
-                ],
             },
             twitter: {
                 card: "player",
                 site: "@Auki",
                 title,
                 description,
-                images: ["/images/og-image.png"],
                 players: [
                     {
                         playerUrl: `${baseUrl}/${domainId}`,
@@ -0,0 +1,5 @@
+// Next only emits twitter:image from a twitter-image file, and the player card needs one
+export { default, alt, size, contentType } from "./opengraph-image";
+
+// Route segment config is read statically, so it cannot be re-exported
+export const maxDuration = 60;
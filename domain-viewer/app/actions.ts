@@ -4,9 +4,8 @@ import { headers } from "next/headers"
 import { createHash } from "crypto"
 import PosemeshServerApi from "@/utils/posemeshServerApi"
 import { appendRewardsSubmission, type RewardsFormData } from "@/lib/googleSheets"
-
-// Domain server URL for fetching domain list
-const DOMAIN_SERVER_URL = "https://domain-server-us-east-1.aukiverse.com"
+import { getDomainCatalog } from "@/lib/domainCatalog"
+import type { DomainListItem } from "@/types/domain"
 
 /**
  * Response type for domain information requests.
@@ -16,44 +15,43 @@ interface DomainInfoResult {
   success: boolean
   data?: {
     domainInfo: any // Domain metadata
-    domainAccessToken: string // Authentication token for domain access
-    domainServerUrl: string // Base URL for domain server
   }
   error?: string // Error message if request fails
 }
 
 /**
- * Domain list item from the domain server
- */
-export interface DomainListItem {
-  id: string
-  name: string
-  created_at: string
-  updated_at: string
-}
-
-/**
- * Response type for domain list requests
+ * Response type for adjacent domain lookups
  */
-interface DomainListResult {
+interface AdjacentDomainsResult {
   success: boolean
-  data?: DomainListItem[]
+  data?: {
+    previous: DomainListItem | null
+    next: DomainListItem | null
+  }
   error?: string
 }
 
 /**
- * Server action that fetches domain information and authentication tokens.
- * This function handles the initial authentication flow required to access domain data:
+ * Server action that fetches domain information.
+ * This function handles the authentication flow required to read domain metadata:
  * 1. Authenticates with Auki Network using app credentials
  * 2. Authenticates with the specific domain
- * 3. Returns domain metadata and access tokens
+ * 3. Returns domain metadata; the domain access token stays on the server
  * 
+ * Tokens come from a process-wide cache, so repeated calls for the same domain
+ * do not hit the API server or DDS until the cached tokens are about to expire.
+ *
  * @param domainId - Unique identifier for the domain to fetch
  * @param posemeshClientId - Client identifier for tracking API requests
+ * @param options.refreshToken - Drop the cached domain token first, e.g. after the domain server answered 401
  * @returns Promise containing domain information or error details
  * @throws Error if Auki Network credentials are not configured
  */
-export async function fetchDomainInfo(domainId: string, posemeshClientId: string): Promise<DomainInfoResult> {
+export async function fetchDomainInfo(
+  domainId: string,
+  posemeshClientId: string,
+  options: { refreshToken?: boolean } = {}
+): Promise<DomainInfoResult> {
   const apiClient = new PosemeshServerApi(posemeshClientId)
   console.log(`[${new Date().toISOString()}] Starting fetchDomainInfo for domainId: ${domainId}`)
 
@@ -71,6 +69,10 @@ export async function fetchDomainInfo(domainId: string, posemeshClientId: string
     await apiClient.authenticate(appKey, appSecret)
     console.log(`[${new Date().toISOString()}] Authentication successful`)
 
+    if (options.refreshToken) {
+      apiClient.invalidateDomainToken(domainId)
+    }
+
     // Authenticate with domain
     console.log(`[${new Date().toISOString()}] Authenticating with domain`)
     const domainAuthData = await apiClient.authenticateDomain(domainId)
@@ -88,8 +90,6 @@ export async function fetchDomainInfo(domainId: string, posemeshClientId: string
           url: domainAuthData.domain_server.url,
           ip: domainAuthData.domain_server.ip,
         },
-        domainAccessToken: domainAuthData.access_token,
-        domainServerUrl: domainAuthData.domain_server.url,
       },
     }
   } catch (error) {
@@ -102,73 +102,33 @@ export async function fetchDomainInfo(domainId: string, posemeshClientId: string
 }
 
 /**
- * Server action that fetches the list of available domains from the domain server.
+ * Server action that finds the domains before and after a domain in the ordered domain list.
+ * Wraps around at both ends. If the domain is not in the list, the first and last domains are returned.
  *
- * @returns Promise containing array of domain items or error details
+ * @param domainId - Domain to find neighbours for
+ * @returns Promise containing the previous and next domains or error details
  */
-export async function fetchDomainList(): Promise<DomainListResult> {
-  console.log(`[${new Date().toISOString()}] Fetching domain list from ${DOMAIN_SERVER_URL}`)
-
+export async function fetchAdjacentDomains(domainId: string): Promise<AdjacentDomainsResult> {
   try {
-    const appKey = process.env.AUKI_APP_KEY
-    const appSecret = process.env.AUKI_APP_SECRET
-
-    if (!appKey || !appSecret) {
-      throw new Error("Auki Network credentials are not configured")
-    }
-
-    // First authenticate to get access token
-    const API_SERVER = process.env.AUKI_API_SERVER
-    if (!API_SERVER) {
-      throw new Error("AUKI_API_SERVER environment variable is not set")
+    const { domains } = await getDomainCatalog()
+    if (domains.length === 0) {
+      return { success: true, data: { previous: null, next: null } }
     }
 
-    console.log(`[${new Date().toISOString()}] Authenticating with ${API_SERVER}`)
-    const basic = Buffer.from(`${appKey}:${appSecret}`).toString('base64')
-    const authResponse = await fetch(`${API_SERVER}/service/domains-access-token`, {
-      method: 'POST',
-      headers: {
-        "Authorization": `Basic ${basic}`,
-        "User-Agent": "domain-viewer",
-        "Accept": "application/json",
-      }
-    })
-
-    if (!authResponse.ok) {
-      const errorText = await authResponse.text().catch(() => '')
-      console.error(`[${new Date().toISOString()}] Auth failed:`, authResponse.status, errorText)
-      throw new Error(`Authentication failed: ${authResponse.status} ${authResponse.statusText}`)
+    const index = domains.findIndex((domain) => domain.id === domainId)
+    if (index === -1) {
+      return { success: true, data: { previous: domains[domains.length - 1], next: domains[0] } }
     }
 
-    const authData = await authResponse.json()
-    const accessToken = authData.access_token
-    console.log(`[${new Date().toISOString()}] Authentication successful, fetching domains...`)
-
-    // Fetch domain list from the domain server
-    const response = await fetch(`${DOMAIN_SERVER_URL}/api/v1/domains`, {
-      headers: {
-        "Authorization": `Bearer ${accessToken}`,
-        "User-Agent": "domain-viewer",
-        "Accept": "application/json",
-      }
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => '')
-      console.error(`[${new Date().toISOString()}] Domain list fetch failed:`, response.status, errorText)
-      throw new Error(`Failed to fetch domains: ${response.status} ${response.statusText}`)
-    }
-
-    const data = await response.json()
-    console.log(`[${new Date().toISOString()}] Fetched ${data.domains?.length || 0} domains`)
-    console.log(`[${new Date().toISOString()}] Response keys:`, Object.keys(data))
-
     return {
       success: true,
-      data: data.domains || [],
+      data: {
+        previous: domains[(index - 1 + domains.length) % domains.length],
+        next: domains[(index + 1) % domains.length],
+      },
     }
   } catch (error) {
-    console.error(`[${new Date().toISOString()}] Error fetching domain list:`, error)
+    console.error(`[${new Date().toISOString()}] Error fetching adjacent domains:`, error)
     return {
       success: false,
       error: error instanceof Error ? error.message : String(error),
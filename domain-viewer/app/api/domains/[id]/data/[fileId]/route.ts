@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findDomainDataItem, getDomainAccess } from '@/lib/domainAccess'
+import type { DomainDataItem } from '@/utils/domainManifest'
+import { PosemeshApiError } from '@/utils/posemeshServerApi'
+
+export const dynamic = 'force-dynamic'
+
+// Headers copied from the domain server response
+const PASSTHROUGH_HEADERS = ['content-type', 'content-length', 'content-range', 'content-disposition']
+
+interface RouteParams {
+  params: {
+    id: string
+    fileId: string
+  }
+}
+
+/**
+ * Streams a domain data file through the app so domain access tokens never reach the browser.
+ * Range requests are forwarded to the domain server, and responses are cacheable with
+ * validators derived from the data item's updated_at.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const posemeshClientId = request.headers.get('posemesh-client-id') || 'domain-file-proxy'
+
+  try {
+    return await proxyFile(request, params, posemeshClientId, false)
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error proxying ${params.id}/${params.fileId}:`, error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 502 }
+    )
+  }
+}
+
+async function proxyFile(
+  request: NextRequest,
+  { id, fileId }: RouteParams['params'],
+  posemeshClientId: string,
+  refreshToken: boolean
+): Promise<Response> {
+  const access = await getDomainAccess(id, posemeshClientId, refreshToken)
+
+  let item: DomainDataItem | null
+  try {
+    item = await findDomainDataItem(id, fileId, access, posemeshClientId)
+  } catch (error) {
+    if (error instanceof PosemeshApiError && error.status === 401 && !refreshToken) {
+      return proxyFile(request, { id, fileId }, posemeshClientId, true)
+    }
+    throw error
+  }
+
+  if (!item) {
+    return NextResponse.json({ error: 'Data item not found' }, { status: 404 })
+  }
+
+  const updatedAt = new Date(item.updated_at || item.created_at || 0)
+  const etag = `"${fileId}-${updatedAt.getTime()}"`
+  const cacheHeaders: Record<string, string> = {
+    'ETag': etag,
+    'Last-Modified': updatedAt.toUTCString(),
+    'Cache-Control': 'public, max-age=3600, stale-while-revalidate=86400',
+    'Accept-Ranges': 'bytes',
+  }
+
+  const ifNoneMatch = request.headers.get('if-none-match')
+  const ifModifiedSince = request.headers.get('if-modified-since')
+  if (
+    (ifNoneMatch && ifNoneMatch.split(',').some((tag) => tag.trim() === etag)) ||
+    (!ifNoneMatch && ifModifiedSince && Date.parse(ifModifiedSince) >= Math.floor(updatedAt.getTime() / 1000) * 1000)
+  ) {
+    return new NextResponse(null, { status: 304, headers: cacheHeaders })
+  }
+
+  // A Range with a stale If-Range validator must be answered with the full file
+  const ifRange = request.headers.get('if-range')
+  const range = !ifRange || ifRange === etag ? request.headers.get('range') : null
+
+  // Only raw=0 or raw=1 is forwarded, so callers cannot add to the authenticated request
+  const raw = request.nextUrl.searchParams.get('raw') === '0' ? '0' : '1'
+  const upstream = await fetch(`${access.domainServerUrl}/api/v1/domains/${id}/data/${encodeURIComponent(fileId)}?raw=${raw}`, {
+    headers: {
+      'Authorization': `Bearer ${access.accessToken}`,
+      'User-Agent': 'domain-viewer',
+      'posemesh-client-id': posemeshClientId,
+      ...(range ? { 'Range': range } : {}),
+    },
+    cache: 'no-store',
+  })
+
+  if (upstream.status === 401 && !refreshToken) {
+    await upstream.body?.cancel()
+    return proxyFile(request, { id, fileId }, posemeshClientId, true)
+  }
+
+  if (!upstream.ok) {
+    const errorText = await upstream.text().catch(() => '')
+    console.error(`[${new Date().toISOString()}] Domain file fetch failed:`, upstream.status, errorText)
+    const status = upstream.status === 404 || upstream.status === 416 ? upstream.status : 502
+    return NextResponse.json({ error: `Failed to download file: ${upstream.status} ${upstream.statusText}` }, { status })
+  }
+
+  const headers = new Headers(cacheHeaders)
+  for (const name of PASSTHROUGH_HEADERS) {
+    const value = upstream.headers.get(name)
+    if (value) headers.set(name, value)
+  }
+  // fetch() decompresses encoded bodies, so the upstream length no longer applies
+  if (upstream.headers.get('content-encoding')) {
+    headers.delete('content-length')
+  }
+
+  return new NextResponse(upstream.body, { status: upstream.status, headers })
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { fetchDomainManifest, getDomainAccess } from '@/lib/domainAccess'
+import type { DomainDataItem } from '@/utils/domainManifest'
+import { PosemeshApiError } from '@/utils/posemeshServerApi'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+/**
+ * Lists a domain's data items through the app so domain access tokens never reach the browser.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const posemeshClientId = request.headers.get('posemesh-client-id') || 'domain-data-proxy'
+
+  try {
+    const data = await fetchItems(params.id, posemeshClientId, false)
+    return NextResponse.json({ data }, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error listing data of domain ${params.id}:`, error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 502 }
+    )
+  }
+}
+
+async function fetchItems(domainId: string, posemeshClientId: string, refreshToken: boolean): Promise<DomainDataItem[]> {
+  const access = await getDomainAccess(domainId, posemeshClientId, refreshToken)
+  try {
+    return (await fetchDomainManifest(domainId, access, posemeshClientId)).items
+  } catch (error) {
+    if (error instanceof PosemeshApiError && error.status === 401 && !refreshToken) {
+      return fetchItems(domainId, posemeshClientId, true)
+    }
+    throw error
+  }
+}
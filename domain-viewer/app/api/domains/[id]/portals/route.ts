@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { fetchDomainPortals, getDomainAccess } from '@/lib/domainAccess'
+import type { Portal } from '@/utils/posemeshClientApi'
+import { PosemeshApiError } from '@/utils/posemeshServerApi'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+/**
+ * Lists a domain's portals through the app so domain access tokens never reach the browser.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const posemeshClientId = request.headers.get('posemesh-client-id') || 'domain-portals-proxy'
+
+  try {
+    const poses = await fetchPortals(params.id, posemeshClientId, false)
+    return NextResponse.json({ poses }, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error listing portals of domain ${params.id}:`, error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 502 }
+    )
+  }
+}
+
+async function fetchPortals(domainId: string, posemeshClientId: string, refreshToken: boolean): Promise<Portal[]> {
+  const access = await getDomainAccess(domainId, posemeshClientId, refreshToken)
+  try {
+    return await fetchDomainPortals(domainId, access, posemeshClientId)
+  } catch (error) {
+    if (error instanceof PosemeshApiError && error.status === 401 && !refreshToken) {
+      return fetchPortals(domainId, posemeshClientId, true)
+    }
+    throw error
+  }
+}
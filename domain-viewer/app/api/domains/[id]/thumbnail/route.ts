@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hashOf } from '@/lib/domainCatalog'
+import { getDomainThumbnail } from '@/lib/domainThumbnails'
+
+export const dynamic = 'force-dynamic'
+
+// Seconds a client waits before asking again for a thumbnail that is not ready
+const RENDERING_RETRY_AFTER = 15
+const BUSY_RETRY_AFTER = 60
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+/**
+ * Serves a top-down PNG preview of a domain's point cloud, rendered on the server.
+ * Thumbnails that are not cached yet are rendered in the background: the response is
+ * a 202 while the render runs, or a 503 when too many renders are queued to start it.
+ * Responses carry an ETag derived from the domain's updated_at, so clients can send
+ * If-None-Match and get a 304 while the domain is unchanged.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const thumbnail = await getDomainThumbnail(params.id)
+    switch (thumbnail.status) {
+      case 'missing':
+        return NextResponse.json({ error: 'No thumbnail for this domain' }, { status: 404 })
+      case 'rendering':
+        return NextResponse.json(
+          { status: 'rendering' },
+          { status: 202, headers: { 'Retry-After': String(RENDERING_RETRY_AFTER), 'Cache-Control': 'no-store' } }
+        )
+      case 'busy':
+        return NextResponse.json(
+          { error: 'Too many thumbnails are being rendered' },
+          { status: 503, headers: { 'Retry-After': String(BUSY_RETRY_AFTER), 'Cache-Control': 'no-store' } }
+        )
+    }
+
+    const etag = `"${hashOf(thumbnail.updatedAt)}"`
+    const headers = {
+      'ETag': etag,
+      'Cache-Control': 'public, max-age=3600, stale-while-revalidate=86400',
+      'Last-Modified': new Date(thumbnail.updatedAt).toUTCString(),
+    }
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers })
+    }
+
+    return new NextResponse(thumbnail.png, { headers: { ...headers, 'Content-Type': 'image/png' } })
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error serving thumbnail of domain ${params.id}:`, error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 502 }
+    )
+  }
+}
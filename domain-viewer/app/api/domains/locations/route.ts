@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDomainLocations } from '@/lib/domainLocations'
+import type { DomainLocationList } from '@/types/domain'
+
+export const dynamic = 'force-dynamic'
+// The first request after a restart fetches the portals of every domain
+export const maxDuration = 60
+
+/**
+ * Lists every domain placed at its location, aggregated server-side from portal GPS
+ * fixes so the overview map loads in one request.
+ *
+ * Responses carry an ETag derived from the locations, so clients can send
+ * If-None-Match and get a 304 while nothing has changed.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const snapshot = await getDomainLocations()
+    const etag = `"${snapshot.etag}"`
+    const headers = {
+      'ETag': etag,
+      'Cache-Control': 'public, no-cache',
+      'Last-Modified': new Date(snapshot.fetchedAt).toUTCString(),
+    }
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers })
+    }
+
+    const body: DomainLocationList = { locations: snapshot.locations, unlocated: snapshot.unlocated }
+    return NextResponse.json(body, { headers })
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error serving domain locations:`, error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 502 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDomainCatalog, hashOf, parseDomainListQuery, queryDomainCatalog } from '@/lib/domainCatalog'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Lists domains from the cached domain catalog.
+ * See parseDomainListQuery for the supported query parameters.
+ *
+ * Responses carry an ETag derived from the catalog snapshot and the query, so
+ * pollers can send If-None-Match and get a 304 while nothing has changed.
+ */
+export async function GET(request: NextRequest) {
+  const parsed = parseDomainListQuery(request.nextUrl.searchParams)
+  if (!parsed.success || !parsed.data) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+
+  try {
+    const catalog = await getDomainCatalog()
+    const etag = `"${hashOf(`${catalog.etag}:${request.nextUrl.searchParams.toString()}`)}"`
+    const headers = {
+      'ETag': etag,
+      'Cache-Control': 'public, no-cache',
+      'Last-Modified': new Date(catalog.fetchedAt).toUTCString(),
+    }
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers })
+    }
+
+    const page = queryDomainCatalog(catalog.domains, parsed.data)
+    return NextResponse.json(page, { headers })
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error serving domain list:`, error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 502 }
+    )
+  }
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { ComparePanel, type CompareSide, type HeatmapStatus } from "@/components/ComparePanel";
+import CompareViewer, { type CompareCloud } from "@/components/CompareViewer";
+import { TunnelNavigation } from "@/components/TunnelNavigation";
+import { useRefinementLoader, type LoadedRefinement, type RefinementSource } from "@/hooks/useRefinementLoader";
+import { compareSettingsAtom } from "@/store/compare-store";
+import { isAbortError } from "@/utils/abort";
+import { summarizeDistances } from "@/utils/cloudDistance";
+import { computeCloudDistancesAsync } from "@/utils/cloudDistance.web";
+import { useAtomValue } from "jotai";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+type CompareSources = Record<CompareSide, RefinementSource | null>;
+
+function compareUrl(sources: CompareSources): string {
+  const params = new URLSearchParams();
+  (["a", "b"] as CompareSide[]).forEach((side) => {
+    const source = sources[side];
+    if (!source) return;
+    params.set(side, source.domainId);
+    if (source.refinement) params.set(`${side}_ref`, source.refinement);
+  });
+  return `/compare?${params.toString()}`;
+}
+
+function cloudOf(loaded: LoadedRefinement): CompareCloud | null {
+  if (!loaded.octree) return null;
+  return {
+    octree: loaded.octree,
+    alignmentMatrix: loaded.alignmentMatrix,
+    label: [loaded.domainName, loaded.refinement].filter(Boolean).join(" · "),
+  };
+}
+
+/**
+ * Compares two refined point clouds, from one domain or two, side by side or overlaid,
+ * with an optional cloud-to-cloud distance heatmap.
+ */
+export default function ComparePage({
+  initialSources,
+  defaultBFromA = false,
+}: {
+  initialSources: CompareSources;
+  defaultBFromA?: boolean; // Pick another refinement of A's domain as B once A's refinements are known
+}) {
+  const [sources, setSources] = useState<CompareSources>(initialSources);
+  const settings = useAtomValue(compareSettingsAtom);
+  const loadedA = useRefinementLoader(sources.a);
+  const loadedB = useRefinementLoader(sources.b);
+  const a = useMemo(() => cloudOf(loadedA), [loadedA]);
+  const b = useMemo(() => cloudOf(loadedB), [loadedB]);
+
+  const [distances, setDistances] = useState<Float32Array | null>(null);
+  const [heatmapStatus, setHeatmapStatus] = useState<HeatmapStatus>("idle");
+
+  // Keep the URL shareable without reloading the page
+  const handleSourceChange = useCallback((side: CompareSide, source: RefinementSource | null) => {
+    setSources((current) => {
+      const next = { ...current, [side]: source };
+      window.history.replaceState({}, "", compareUrl(next));
+      return next;
+    });
+  }, []);
+
+  const [isPickingDefaultB, setIsPickingDefaultB] = useState(defaultBFromA);
+  useEffect(() => {
+    if (!isPickingDefaultB) return;
+    // A source picked by the user wins over the default
+    if (sources.b || !sources.a) {
+      setIsPickingDefaultB(false);
+      return;
+    }
+    if (!loadedA.refinement) return;
+    setIsPickingDefaultB(false);
+    const other = loadedA.refinements.find((refinement) => refinement !== loadedA.refinement);
+    if (other) handleSourceChange("b", { domainId: sources.a.domainId, refinement: other });
+  }, [isPickingDefaultB, sources, loadedA.refinement, loadedA.refinements, handleSourceChange]);
+
+  useEffect(() => {
+    setDistances(null);
+    if (!settings.heatmap || !loadedA.octree || !loadedB.octree) {
+      setHeatmapStatus("idle");
+      return;
+    }
+
+    const controller = new AbortController();
+    setHeatmapStatus("computing");
+    computeCloudDistancesAsync(
+      {
+        reference: loadedA.octree.positions,
+        referenceMatrix: loadedA.alignmentMatrix,
+        compared: loadedB.octree.positions,
+        comparedMatrix: loadedB.alignmentMatrix,
+        maxDistance: settings.maxDistance,
+      },
+      controller.signal
+    )
+      .then((result) => {
+        setDistances(result);
+        setHeatmapStatus("done");
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Failed to compute cloud distances:", error);
+        setHeatmapStatus("error");
+      });
+
+    return () => controller.abort();
+  }, [
+    settings.heatmap,
+    settings.maxDistance,
+    loadedA.octree,
+    loadedA.alignmentMatrix,
+    loadedB.octree,
+    loadedB.alignmentMatrix,
+  ]);
+
+  const stats = useMemo(
+    () => (distances ? summarizeDistances(distances, settings.maxDistance) : null),
+    [distances, settings.maxDistance]
+  );
+
+  return (
+    <div className="relative h-screen w-full overflow-hidden bg-white dark:bg-[#050505]">
+      <TunnelNavigation />
+      <CompareViewer
+        a={a}
+        b={b}
+        display={settings.display}
+        distances={settings.heatmap ? distances : null}
+        maxDistance={settings.maxDistance}
+      />
+
+      <div className="fixed top-24 left-6 z-50">
+        <ComparePanel
+          sources={sources}
+          loaded={{ a: loadedA, b: loadedB }}
+          onSourceChange={handleSourceChange}
+          heatmapStatus={heatmapStatus}
+          stats={stats}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { Metadata } from "next";
+import type { RefinementSource } from "@/hooks/useRefinementLoader";
+import ClientPage from "./ClientPage";
+
+export const metadata: Metadata = {
+    title: "Compare point clouds",
+    description: "Compare two refinements of a domain, or two domains",
+};
+
+interface Props {
+    searchParams: {
+        a?: string;
+        a_ref?: string;
+        b?: string;
+        b_ref?: string;
+    };
+}
+
+const sourceFrom = (domainId?: string, refinement?: string): RefinementSource | null =>
+    domainId ? { domainId, refinement: refinement || null } : null;
+
+/**
+ * Compare view. Sources come from ?a=<domainId>&a_ref=<refinement>&b=...&b_ref=...;
+ * without B, /compare?a=<id> compares A with another refinement of the same domain
+ * when it has one, and otherwise leaves B for the user to pick.
+ */
+export default function ComparePage({ searchParams }: Props) {
+    const a = sourceFrom(searchParams.a, searchParams.a_ref);
+    const b = sourceFrom(searchParams.b, searchParams.b_ref);
+    return <ClientPage initialSources={{ a, b }} defaultBFromA={!!a && !b} />;
+}
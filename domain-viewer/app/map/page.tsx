@@ -0,0 +1,13 @@
+'use client';
+
+import { DomainOverviewMap } from '@/components/DomainOverviewMap';
+import { TunnelNavigation } from '@/components/TunnelNavigation';
+
+export default function MapPage() {
+  return (
+    <div className="relative h-screen w-full overflow-hidden bg-white dark:bg-[#050505]">
+      <TunnelNavigation />
+      <DomainOverviewMap />
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { cameraFlyToAtom } from "@/store/camera-store";
+import { useThree } from "@react-three/fiber";
+import gsap from "gsap";
+import { useAtomValue } from "jotai";
+import { useEffect } from "react";
+import * as THREE from "three";
+
+const FLY_DURATION = 1.2;
+
+/**
+ * Animates the camera to each new fly-to request. The camera approaches from the side
+ * it is already on, slightly from above, and map controls end up orbiting the target.
+ */
+export function CameraFlyTo() {
+  const { camera, controls } = useThree();
+  const request = useAtomValue(cameraFlyToAtom);
+
+  useEffect(() => {
+    if (!request) return;
+
+    const target = new THREE.Vector3(...request.target);
+    const direction = camera.position.clone().sub(target).setY(0);
+    if (direction.lengthSq() < 1e-6) direction.set(0, 0, 1);
+    direction.normalize().setY(0.5).normalize();
+    const destination = target.clone().addScaledVector(direction, request.distance);
+
+    const orbitTarget: THREE.Vector3 | undefined = (controls as any)?.target;
+    const progress = { t: 0 };
+    const startPosition = camera.position.clone();
+    const startTarget = orbitTarget?.clone() ?? target.clone();
+
+    const tween = gsap.to(progress, {
+      t: 1,
+      duration: FLY_DURATION,
+      ease: "power2.inOut",
+      onUpdate: () => {
+        camera.position.lerpVectors(startPosition, destination, progress.t);
+        if (orbitTarget) {
+          orbitTarget.lerpVectors(startTarget, target, progress.t);
+          (controls as any).update?.();
+        } else {
+          camera.lookAt(target);
+        }
+      },
+    });
+    return () => {
+      tween.kill();
+    };
+    // Only a new request starts a flight
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [request]);
+
+  return null;
+}
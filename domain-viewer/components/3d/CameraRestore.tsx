@@ -0,0 +1,35 @@
+"use client";
+
+import { cameraRestoreAtom, controlModeAtom } from "@/store/camera-store";
+import { useThree } from "@react-three/fiber";
+import { useAtom, useAtomValue } from "jotai";
+import { useEffect } from "react";
+
+/**
+ * Jumps the camera to a requested view without animating. Waits until the default
+ * controls match the control mode, since switching modes swaps the controls over a
+ * render and FPS controls move the camera to their start point when they mount.
+ */
+export function CameraRestore() {
+  const { camera, controls } = useThree();
+  const [view, setView] = useAtom(cameraRestoreAtom);
+  const controlMode = useAtomValue(controlModeAtom);
+
+  useEffect(() => {
+    if (!view || !controls) return;
+    const orbitTarget = (controls as any).target;
+    if ((controlMode === "map") !== Boolean(orbitTarget)) return;
+
+    camera.position.set(...view.position);
+    if (orbitTarget) {
+      camera.up.set(0, 1, 0);
+      orbitTarget.set(...view.target);
+      (controls as any).update?.();
+    } else {
+      camera.lookAt(...view.target);
+    }
+    setView(null);
+  }, [view, controls, controlMode, camera, setView]);
+
+  return null;
+}
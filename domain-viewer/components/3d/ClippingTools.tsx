@@ -0,0 +1,246 @@
+"use client";
+
+import { ClipBox, SliceRange, clippingAtom, sceneBoundsAtom } from "@/store/clipping-store";
+import { clipBoxAxes, updateClippingPlanes } from "@/utils/clipping";
+import { ThreeEvent, useThree } from "@react-three/fiber";
+import { useAtom, useAtomValue } from "jotai";
+import { useEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+
+const HANDLE_RADIUS = 0.12;
+const MIN_BOX_SIZE = 0.1;
+const MIN_SLICE_THICKNESS = 0.1;
+const AXIS_COLORS = ["#ef4444", "#22c55e", "#3b82f6"];
+
+// Handles draw on top of the geometry they cut so they can always be grabbed
+const handleMaterialProps = { depthTest: false, transparent: true, toneMapped: false } as const;
+
+interface DragState {
+  plane: THREE.Plane;
+  start: THREE.Vector3;
+  apply: (point: THREE.Vector3) => void;
+}
+
+/**
+ * Lets a handle be dragged along a world axis or, without an axis, across the
+ * horizontal plane through it. Map controls are paused while dragging.
+ */
+function useHandleDrag() {
+  const { camera, controls } = useThree();
+  const dragRef = useRef<DragState | null>(null);
+  const hit = useMemo(() => new THREE.Vector3(), []);
+
+  const begin = (
+    event: ThreeEvent<PointerEvent>,
+    axis: THREE.Vector3 | null,
+    onMove: (delta: THREE.Vector3) => void
+  ) => {
+    event.stopPropagation();
+    (event.target as Element).setPointerCapture(event.pointerId);
+
+    let normal: THREE.Vector3;
+    if (axis) {
+      // The plane containing the axis that faces the camera the most
+      const view = camera.getWorldDirection(new THREE.Vector3());
+      normal = view.sub(axis.clone().multiplyScalar(view.dot(axis)));
+      if (normal.lengthSq() < 1e-6) normal = new THREE.Vector3(0, 1, 0).cross(axis);
+      normal.normalize();
+    } else {
+      normal = new THREE.Vector3(0, 1, 0);
+    }
+    const start = event.point.clone();
+    dragRef.current = {
+      plane: new THREE.Plane().setFromNormalAndCoplanarPoint(normal, start),
+      start,
+      apply: (point) => {
+        const delta = point.clone().sub(start);
+        onMove(axis ? axis.clone().multiplyScalar(delta.dot(axis)) : delta.setY(0));
+      },
+    };
+    if (controls) (controls as any).enabled = false;
+  };
+
+  const move = (event: ThreeEvent<PointerEvent>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    event.stopPropagation();
+    if (event.ray.intersectPlane(drag.plane, hit)) drag.apply(hit);
+  };
+
+  const end = (event: ThreeEvent<PointerEvent>) => {
+    if (!dragRef.current) return;
+    event.stopPropagation();
+    (event.target as Element).releasePointerCapture(event.pointerId);
+    dragRef.current = null;
+    if (controls) (controls as any).enabled = true;
+  };
+
+  return { begin, move, end };
+}
+
+/**
+ * Wireframe of the clip box with a handle on each face to resize it and one in the
+ * middle to move it horizontally.
+ */
+function ClipBoxGizmo({ box, onChange }: { box: ClipBox; onChange: (box: ClipBox) => void }) {
+  const { begin, move, end } = useHandleDrag();
+  const edges = useMemo(() => new THREE.EdgesGeometry(new THREE.BoxGeometry(1, 1, 1)), []);
+  useEffect(() => () => edges.dispose(), [edges]);
+
+  const axes = clipBoxAxes(box);
+
+  const startResize = (event: ThreeEvent<PointerEvent>, axisIndex: number, sign: number) => {
+    const startBox = box;
+    const direction = axes[axisIndex].clone().multiplyScalar(sign);
+    begin(event, direction, (delta) => {
+      // Keep the opposite face in place
+      const growth = Math.max(MIN_BOX_SIZE - startBox.size[axisIndex], delta.dot(direction));
+      const size = [...startBox.size] as ClipBox["size"];
+      size[axisIndex] += growth;
+      const center = new THREE.Vector3(...startBox.center).addScaledVector(direction, growth / 2);
+      onChange({ ...startBox, size, center: center.toArray() });
+    });
+  };
+
+  const startMove = (event: ThreeEvent<PointerEvent>) => {
+    const startBox = box;
+    begin(event, null, (delta) => {
+      onChange({ ...startBox, center: new THREE.Vector3(...startBox.center).add(delta).toArray() });
+    });
+  };
+
+  return (
+    <group position={box.center} rotation={[0, box.rotation, 0]}>
+      <lineSegments geometry={edges} scale={box.size} renderOrder={999}>
+        <lineBasicMaterial color="#f59e0b" {...handleMaterialProps} />
+      </lineSegments>
+      {[0, 1, 2].flatMap((axisIndex) =>
+        [1, -1].map((sign) => {
+          const position: [number, number, number] = [0, 0, 0];
+          position[axisIndex] = (sign * box.size[axisIndex]) / 2;
+          return (
+            <mesh
+              key={`${axisIndex}${sign}`}
+              position={position}
+              renderOrder={1000}
+              onPointerDown={(e) => startResize(e, axisIndex, sign)}
+              onPointerMove={move}
+              onPointerUp={end}
+            >
+              <sphereGeometry args={[HANDLE_RADIUS, 16, 16]} />
+              <meshBasicMaterial color={AXIS_COLORS[axisIndex]} {...handleMaterialProps} />
+            </mesh>
+          );
+        })
+      )}
+      <mesh renderOrder={1000} onPointerDown={startMove} onPointerMove={move} onPointerUp={end}>
+        <boxGeometry args={[HANDLE_RADIUS * 2.5, HANDLE_RADIUS * 2.5, HANDLE_RADIUS * 2.5]} />
+        <meshBasicMaterial color="#ffffff" {...handleMaterialProps} />
+      </mesh>
+    </group>
+  );
+}
+
+/**
+ * The two horizontal planes bounding the slice, each with a handle to drag it up or down.
+ */
+function SliceGizmo({
+  slice,
+  extent,
+  onChange,
+}: {
+  slice: SliceRange;
+  extent: { center: [number, number]; size: [number, number] };
+  onChange: (slice: SliceRange) => void;
+}) {
+  const { begin, move, end } = useHandleDrag();
+  const up = useMemo(() => new THREE.Vector3(0, 1, 0), []);
+
+  const startDrag = (event: ThreeEvent<PointerEvent>, edge: keyof SliceRange) => {
+    const startSlice = slice;
+    begin(event, up, (delta) => {
+      const height = startSlice[edge] + delta.y;
+      onChange(
+        edge === "bottom"
+          ? { ...startSlice, bottom: Math.min(height, startSlice.top - MIN_SLICE_THICKNESS) }
+          : { ...startSlice, top: Math.max(height, startSlice.bottom + MIN_SLICE_THICKNESS) }
+      );
+    });
+  };
+
+  return (
+    <>
+      {(["bottom", "top"] as const).map((edge) => (
+        <group key={edge} position={[extent.center[0], slice[edge], extent.center[1]]}>
+          <mesh rotation={[-Math.PI / 2, 0, 0]} renderOrder={998}>
+            <planeGeometry args={extent.size} />
+            <meshBasicMaterial
+              color="#3b82f6"
+              opacity={0.08}
+              side={THREE.DoubleSide}
+              depthWrite={false}
+              {...handleMaterialProps}
+            />
+          </mesh>
+          <mesh
+            position={[extent.size[0] / 2, 0, extent.size[1] / 2]}
+            renderOrder={1000}
+            onPointerDown={(e) => startDrag(e, edge)}
+            onPointerMove={move}
+            onPointerUp={end}
+          >
+            <sphereGeometry args={[HANDLE_RADIUS * 1.5, 16, 16]} />
+            <meshBasicMaterial color="#3b82f6" {...handleMaterialProps} />
+          </mesh>
+        </group>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Applies the clipping state to the shared clipping planes and shows drag handles
+ * for the active clip box and slice.
+ */
+export function ClippingTools() {
+  const { gl } = useThree();
+  const [clipping, setClipping] = useAtom(clippingAtom);
+  const bounds = useAtomValue(sceneBoundsAtom);
+
+  useEffect(() => {
+    gl.localClippingEnabled = true;
+  }, [gl]);
+
+  useEffect(() => {
+    updateClippingPlanes(clipping);
+  }, [clipping]);
+
+  // Clear the planes when the viewer unmounts so they do not outlive it
+  useEffect(() => {
+    return () => updateClippingPlanes({ boxEnabled: false, box: null, sliceEnabled: false, slice: null });
+  }, []);
+
+  const sliceExtent = useMemo(() => {
+    if (!bounds) return null;
+    const margin = 1;
+    return {
+      center: [(bounds.min[0] + bounds.max[0]) / 2, (bounds.min[2] + bounds.max[2]) / 2] as [number, number],
+      size: [bounds.max[0] - bounds.min[0] + margin * 2, bounds.max[2] - bounds.min[2] + margin * 2] as [number, number],
+    };
+  }, [bounds]);
+
+  return (
+    <>
+      {clipping.boxEnabled && clipping.box && (
+        <ClipBoxGizmo box={clipping.box} onChange={(box) => setClipping((state) => ({ ...state, box }))} />
+      )}
+      {clipping.sliceEnabled && clipping.slice && sliceExtent && (
+        <SliceGizmo
+          slice={clipping.slice}
+          extent={sliceExtent}
+          onChange={(slice) => setClipping((state) => ({ ...state, slice }))}
+        />
+      )}
+    </>
+  );
+}
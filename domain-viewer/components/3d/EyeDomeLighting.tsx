@@ -0,0 +1,132 @@
+"use client";
+
+import { useFrame, useThree } from "@react-three/fiber";
+import { useEffect, useMemo } from "react";
+import * as THREE from "three";
+import { FullScreenQuad } from "three/examples/jsm/postprocessing/Pass.js";
+
+const vertexShader = /* glsl */ `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+// Darkens each pixel by how far its neighbours sit in front of it, in log depth
+const fragmentShader = /* glsl */ `
+  #include <packing>
+
+  uniform sampler2D tColor;
+  uniform sampler2D tDepth;
+  uniform vec2 resolution;
+  uniform float cameraNear;
+  uniform float cameraFar;
+  uniform float strength;
+  uniform float radius;
+
+  varying vec2 vUv;
+
+  float logDepth(float depth) {
+    return log2(-perspectiveDepthToViewZ(depth, cameraNear, cameraFar));
+  }
+
+  void main() {
+    vec4 color = texture2D(tColor, vUv);
+    float depth = texture2D(tDepth, vUv).x;
+
+    // Background pixels have nothing to shade
+    if (depth < 1.0) {
+      float center = logDepth(depth);
+      float sum = 0.0;
+      for (int i = 0; i < 8; i++) {
+        float angle = float(i) * 0.785398;
+        vec2 offset = vec2(cos(angle), sin(angle)) * radius / resolution;
+        float neighbour = texture2D(tDepth, vUv + offset).x;
+        if (neighbour < 1.0) {
+          sum += max(0.0, center - logDepth(neighbour));
+        }
+      }
+      color.rgb *= exp(-sum / 8.0 * 300.0 * strength);
+    }
+    gl_FragColor = color;
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
+
+/**
+ * Eye-dome lighting post pass. Takes over rendering: the scene is drawn into an
+ * offscreen target and composited to the screen with depth-based edge shading,
+ * which makes the shape of unlit point clouds readable.
+ *
+ * @param strength - How dark depth edges get
+ * @param radius - Neighbour sampling distance in pixels
+ */
+export function EyeDomeLighting({ strength = 1, radius = 1.4 }: { strength?: number; radius?: number }) {
+  const { gl, scene, camera, size } = useThree();
+
+  const target = useMemo(() => {
+    const depthTexture = new THREE.DepthTexture(1, 1);
+    // Half float keeps dark linear colors from banding before tone mapping
+    return new THREE.WebGLRenderTarget(1, 1, { type: THREE.HalfFloatType, depthTexture });
+  }, []);
+
+  const quad = useMemo(
+    () =>
+      new FullScreenQuad(
+        new THREE.ShaderMaterial({
+          vertexShader,
+          fragmentShader,
+          uniforms: {
+            tColor: { value: null },
+            tDepth: { value: null },
+            resolution: { value: new THREE.Vector2(1, 1) },
+            cameraNear: { value: 0.1 },
+            cameraFar: { value: 1000 },
+            strength: { value: 1 },
+            radius: { value: 1.4 },
+          },
+          depthTest: false,
+          depthWrite: false,
+        })
+      ),
+    []
+  );
+
+  useEffect(() => {
+    const pixelRatio = gl.getPixelRatio();
+    target.setSize(Math.floor(size.width * pixelRatio), Math.floor(size.height * pixelRatio));
+  }, [gl, size, target]);
+
+  useEffect(() => {
+    return () => {
+      target.depthTexture?.dispose();
+      target.dispose();
+      (quad.material as THREE.Material).dispose();
+      quad.dispose();
+    };
+  }, [target, quad]);
+
+  // A positive priority disables the default render, so this pass draws the frame
+  useFrame(() => {
+    gl.setRenderTarget(target);
+    gl.clear();
+    gl.render(scene, camera);
+    gl.setRenderTarget(null);
+
+    const uniforms = (quad.material as THREE.ShaderMaterial).uniforms;
+    uniforms.tColor.value = target.texture;
+    uniforms.tDepth.value = target.depthTexture;
+    uniforms.resolution.value.set(target.width, target.height);
+    uniforms.cameraNear.value = (camera as THREE.PerspectiveCamera).near;
+    uniforms.cameraFar.value = (camera as THREE.PerspectiveCamera).far;
+    uniforms.strength.value = strength;
+    uniforms.radius.value = radius;
+    quad.render(gl);
+  }, 1);
+
+  return null;
+}
@@ -0,0 +1,272 @@
+"use client";
+
+import { useCanvasClick } from "@/hooks/useCanvasClick";
+import type { Vec3 } from "@/store/clipping-store";
+import {
+  Measurement,
+  activeMeasurementToolAtom,
+  draftMeasurementPointsAtom,
+  measurementsAtom,
+  selectedMeasurementIdAtom,
+} from "@/store/measurement-store";
+import { clippingPlanes } from "@/utils/clipping";
+import {
+  MIN_MEASUREMENT_POINTS,
+  createMeasurement,
+  formatMeasurement,
+  measurementValue,
+} from "@/utils/measurement";
+import { Html, Line } from "@react-three/drei";
+import { useThree } from "@react-three/fiber";
+import { useAtom, useAtomValue, useSetAtom } from "jotai";
+import { useCallback, useEffect, useMemo } from "react";
+import * as THREE from "three";
+
+// How far from the cursor, in pixels, a point cloud point can be and still be picked
+const SNAP_RADIUS_PX = 6;
+
+const COLOR = "#f59e0b";
+const SELECTED_COLOR = "#3b82f6";
+
+/**
+ * Whether a point survives the active clip box and slice.
+ */
+function isUnclipped(point: THREE.Vector3): boolean {
+  return clippingPlanes.every((plane) => plane.distanceToPoint(point) >= 0);
+}
+
+function isShown(object: THREE.Object3D): boolean {
+  for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+    if (!current.visible) return false;
+  }
+  return true;
+}
+
+/**
+ * Label anchored to a point in the scene.
+ */
+function MeasurementLabel({ position, text, selected }: { position: Vec3; text: string; selected?: boolean }) {
+  return (
+    <Html position={position} center zIndexRange={[40, 0]} style={{ pointerEvents: "none" }}>
+      <div
+        className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap backdrop-blur-md ${
+          selected ? "bg-blue-500 text-white" : "bg-black/60 text-white"
+        }`}
+      >
+        {text}
+      </div>
+    </Html>
+  );
+}
+
+function MeasurementShape({
+  points,
+  closed,
+  color,
+}: {
+  points: Vec3[];
+  closed?: boolean;
+  color: string;
+}) {
+  const linePoints = closed && points.length > 2 ? [...points, points[0]] : points;
+  return (
+    <>
+      {linePoints.length > 1 && (
+        <Line points={linePoints} color={color} lineWidth={2} depthTest={false} renderOrder={1000} />
+      )}
+      {points.map((point, index) => (
+        <mesh key={index} position={point} renderOrder={1000}>
+          <sphereGeometry args={[0.04, 12, 12]} />
+          <meshBasicMaterial color={color} depthTest={false} transparent toneMapped={false} />
+        </mesh>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Where a measurement's label goes: the centroid for areas, the middle segment otherwise.
+ */
+function labelPosition(measurement: Pick<Measurement, "type" | "points">): Vec3 {
+  const points = measurement.points;
+  if (measurement.type === "area") {
+    return points
+      .reduce((sum, point) => sum.add(new THREE.Vector3(...point)), new THREE.Vector3())
+      .divideScalar(points.length)
+      .toArray();
+  }
+  const middle = Math.max(0, Math.floor((points.length - 1) / 2));
+  const a = new THREE.Vector3(...points[middle]);
+  const b = new THREE.Vector3(...points[Math.min(middle + 1, points.length - 1)]);
+  return a.lerp(b, 0.5).toArray();
+}
+
+/**
+ * Picks measurement points from clicks in the viewer and draws measurements with
+ * their labels. Clicks snap to the nearest point cloud point under the cursor, or
+ * to the nav mesh or occlusion mesh surface.
+ *
+ * Enter or a double click finishes a polyline or area, Backspace removes the last
+ * point and Escape discards the measurement in progress.
+ */
+export function MeasurementTools() {
+  const { gl, scene, camera, size, controls } = useThree();
+  const tool = useAtomValue(activeMeasurementToolAtom);
+  const [draft, setDraft] = useAtom(draftMeasurementPointsAtom);
+  const setMeasurements = useSetAtom(measurementsAtom);
+  const measurements = useAtomValue(measurementsAtom);
+  const selectedId = useAtomValue(selectedMeasurementIdAtom);
+  const raycaster = useMemo(() => new THREE.Raycaster(), []);
+
+  const finish = useCallback(
+    (points: Vec3[]) => {
+      if (!tool || points.length < MIN_MEASUREMENT_POINTS[tool]) return;
+      setMeasurements((current) => [...current, createMeasurement(tool, points)]);
+      setDraft([]);
+    },
+    [tool, setMeasurements, setDraft]
+  );
+
+  /**
+   * Casts a ray through a canvas position and returns the picked world point.
+   */
+  const pick = useCallback(
+    (clientX: number, clientY: number): THREE.Vector3 | null => {
+      const rect = gl.domElement.getBoundingClientRect();
+      const ndc = new THREE.Vector2(
+        ((clientX - rect.left) / rect.width) * 2 - 1,
+        -((clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(ndc, camera);
+
+      // Scale the point snap radius with the distance to what the camera looks at
+      const target: THREE.Vector3 = (controls as any)?.target ?? new THREE.Vector3();
+      const fov = camera instanceof THREE.PerspectiveCamera ? camera.fov : 50;
+      const worldPerPixel =
+        (2 * Math.tan(THREE.MathUtils.degToRad(fov) / 2) * camera.position.distanceTo(target)) / size.height;
+      raycaster.params.Points = { threshold: Math.max(0.01, worldPerPixel * SNAP_RADIUS_PX) };
+
+      const targets: THREE.Object3D[] = [];
+      scene.traverse((object) => {
+        if (object.userData.measurable) targets.push(object);
+      });
+
+      let best: { point: THREE.Vector3; distance: number } | null = null;
+      for (const hit of raycaster.intersectObjects(targets, true)) {
+        if (!(hit.object instanceof THREE.Mesh || hit.object instanceof THREE.Points) || !isShown(hit.object)) continue;
+
+        let point = hit.point;
+        if (hit.object instanceof THREE.Points && hit.index !== undefined) {
+          // Snap to the point itself rather than the closest spot on the ray
+          const position = hit.object.geometry.getAttribute("position");
+          point = new THREE.Vector3().fromBufferAttribute(position, hit.index).applyMatrix4(hit.object.matrixWorld);
+        }
+        if (!isUnclipped(point)) continue;
+        if (!best || hit.distance < best.distance) best = { point, distance: hit.distance };
+      }
+      return best?.point ?? null;
+    },
+    [gl, camera, controls, size, scene, raycaster]
+  );
+
+  /**
+   * The nav mesh surface directly below a point, if any.
+   */
+  const floorBelow = useCallback(
+    (point: THREE.Vector3): THREE.Vector3 | null => {
+      const navMesh = scene.getObjectByName("navmesh");
+      if (!navMesh) return null;
+      raycaster.set(point.clone().add(new THREE.Vector3(0, 0.01, 0)), new THREE.Vector3(0, -1, 0));
+      const hit = raycaster.intersectObject(navMesh, true).find((h) => h.object instanceof THREE.Mesh);
+      return hit?.point ?? null;
+    },
+    [scene, raycaster]
+  );
+
+  useCanvasClick(
+    tool
+      ? (e) => {
+          const point = pick(e.clientX, e.clientY);
+          if (!point) return;
+
+          if (tool === "height") {
+            const floor = floorBelow(point);
+            if (!floor) {
+              console.warn("No nav mesh below the picked point");
+              return;
+            }
+            finish([point.toArray(), floor.toArray()]);
+            return;
+          }
+
+          const last = draft[draft.length - 1];
+          // The second click of a double click lands on the same spot
+          if (last && new THREE.Vector3(...last).distanceTo(point) < 1e-6) return;
+          const points = [...draft, point.toArray()];
+          if (tool === "distance" && points.length === 2) {
+            finish(points);
+          } else {
+            setDraft(points);
+          }
+        }
+      : null
+  );
+
+  useEffect(() => {
+    if (!tool) return;
+    const canvas = gl.domElement;
+    const onDoubleClick = () => finish(draft);
+    canvas.addEventListener("dblclick", onDoubleClick);
+    return () => canvas.removeEventListener("dblclick", onDoubleClick);
+  }, [tool, gl, finish, draft]);
+
+  useEffect(() => {
+    if (!tool) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === "Enter") {
+        finish(draft);
+      } else if (e.key === "Escape") {
+        setDraft([]);
+      } else if (e.key === "Backspace") {
+        setDraft((current) => current.slice(0, -1));
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [tool, draft, finish, setDraft]);
+
+  // A draft belongs to the tool it was started with
+  useEffect(() => {
+    setDraft([]);
+  }, [tool, setDraft]);
+
+  return (
+    <>
+      {measurements.map((measurement) => {
+        const selected = measurement.id === selectedId;
+        return (
+          <group key={measurement.id}>
+            <MeasurementShape
+              points={measurement.points}
+              closed={measurement.type === "area"}
+              color={selected ? SELECTED_COLOR : COLOR}
+            />
+            <MeasurementLabel position={labelPosition(measurement)} text={formatMeasurement(measurement)} selected={selected} />
+          </group>
+        );
+      })}
+      {tool && draft.length > 0 && (
+        <>
+          <MeasurementShape points={draft} closed={tool === "area"} color={COLOR} />
+          {draft.length >= MIN_MEASUREMENT_POINTS[tool] && (
+            <MeasurementLabel
+              position={labelPosition({ type: tool, points: draft })}
+              text={formatMeasurement({ type: tool, value: measurementValue(tool, draft) })}
+            />
+          )}
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,320 @@
+"use client";
+
+import type { PointCloudStyle } from "@/store/point-cloud-store";
+import { clippingPlanes } from "@/utils/clipping";
+import { PointCloudMaterial } from "@/utils/pointCloudMaterial";
+import type { PointCloudOctree } from "@/utils/pointCloudOctree";
+import { useFrame, useThree } from "@react-three/fiber";
+import { useEffect, useRef } from "react";
+import * as THREE from "three";
+
+// Nodes are refined until the gap between their points is this many pixels on screen
+const MIN_NODE_SPACING_PX = 1.5;
+
+// Point budget bounds, adapted to keep the frame time near the target
+const INITIAL_POINT_BUDGET = 1_500_000;
+const MIN_POINT_BUDGET = 250_000;
+const MAX_POINT_BUDGET = 5_000_000;
+const TARGET_FRAME_MS = 1000 / 60;
+const BUDGET_ADJUST_INTERVAL = 30; // Frames between budget adjustments
+
+// Hidden nodes stay on the GPU until the loaded points exceed this multiple of the budget
+const LOADED_POINTS_FACTOR = 2;
+
+interface NodeState {
+  box: THREE.Box3; // World space
+  sphere: THREE.Sphere; // World space
+  spacing: number; // World space
+  renderSpacing: number; // Spacing of the finest visible level below this node, for adaptive size
+  points: THREE.Points | null;
+  lastVisibleFrame: number;
+}
+
+/**
+ * Max-heap of node indices ordered by priority.
+ */
+class NodeQueue {
+  private items: { node: number; priority: number }[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(node: number, priority: number) {
+    const items = this.items;
+    items.push({ node, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority >= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0].node;
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let largest = i;
+        if (left < items.length && items[left].priority > items[largest].priority) largest = left;
+        if (right < items.length && items[right].priority > items[largest].priority) largest = right;
+        if (largest === i) break;
+        [items[largest], items[i]] = [items[i], items[largest]];
+        i = largest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Renders a point cloud octree with screen-space-error level of detail.
+ * Every frame the nodes in view are visited from the one with the largest projected
+ * point spacing down, until the spacing is small enough or the point budget is spent.
+ * The budget shrinks when frames take too long and grows back when there is headroom.
+ *
+ * @param octree - Octree built by plyAsyncParseOctree
+ * @param alignmentMatrix - Optional column-major transform applied to the whole cloud
+ * @param style - Color mode, splat shape and size settings
+ * @param tint - Draws the whole cloud in one color, e.g. to tell overlaid clouds apart
+ * @param scalars - Per-point values in octree order, colored from 0 to scalarMax instead of the style
+ */
+export function OctreePointCloud({
+  octree,
+  alignmentMatrix,
+  style,
+  tint = null,
+  scalars = null,
+  scalarMax = 1,
+}: {
+  octree: PointCloudOctree;
+  alignmentMatrix: number[] | null;
+  style: PointCloudStyle;
+  tint?: string | null;
+  scalars?: Float32Array | null;
+  scalarMax?: number;
+}) {
+  const { scene } = useThree();
+  const groupRef = useRef<THREE.Group | null>(null);
+  // The octree the node states below were built for; the prop can run ahead of the effect
+  const octreeRef = useRef<PointCloudOctree | null>(null);
+  const nodesRef = useRef<NodeState[]>([]);
+  const materialRef = useRef<PointCloudMaterial | null>(null);
+  const scalarsRef = useRef<Float32Array | null>(scalars);
+  const frameRef = useRef(0);
+  const budgetRef = useRef(INITIAL_POINT_BUDGET);
+  const frameTimeRef = useRef(TARGET_FRAME_MS);
+  const frustum = useRef(new THREE.Frustum()).current;
+  const projScreenMatrix = useRef(new THREE.Matrix4()).current;
+
+  useEffect(() => {
+    const group = new THREE.Group();
+    group.matrixAutoUpdate = false;
+    group.userData.measurable = true;
+    if (alignmentMatrix) {
+      group.matrix.fromArray(alignmentMatrix);
+    }
+    group.updateMatrixWorld(true);
+    const scale = group.matrixWorld.getMaxScaleOnAxis();
+
+    nodesRef.current = octree.nodes.map((node) => {
+      const box = new THREE.Box3(
+        new THREE.Vector3(...node.min),
+        new THREE.Vector3(node.min[0] + node.size, node.min[1] + node.size, node.min[2] + node.size)
+      ).applyMatrix4(group.matrixWorld);
+      return {
+        box,
+        sphere: box.getBoundingSphere(new THREE.Sphere()),
+        spacing: node.spacing * scale,
+        renderSpacing: node.spacing * scale,
+        points: null,
+        lastVisibleFrame: -1,
+      };
+    });
+
+    const material = new PointCloudMaterial();
+    material.clippingPlanes = clippingPlanes;
+    material.setHasColors(octree.colors !== null);
+    const bounds = new THREE.Box3(
+      new THREE.Vector3(...octree.bounds.min),
+      new THREE.Vector3(...octree.bounds.max)
+    ).applyMatrix4(group.matrixWorld);
+    material.setRanges([bounds.min.y, bounds.max.y], [0, Math.max(1, bounds.getSize(new THREE.Vector3()).length())]);
+    materialRef.current = material;
+
+    scene.add(group);
+    groupRef.current = group;
+    octreeRef.current = octree;
+
+    return () => {
+      scene.remove(group);
+      nodesRef.current.forEach((state) => state.points?.geometry.dispose());
+      nodesRef.current = [];
+      materialRef.current?.dispose();
+      materialRef.current = null;
+      groupRef.current = null;
+      octreeRef.current = null;
+    };
+  }, [octree, alignmentMatrix, scene]);
+
+  useEffect(() => {
+    materialRef.current?.setStyle(style);
+  }, [style, octree, alignmentMatrix]);
+
+  useEffect(() => {
+    materialRef.current?.setTint(tint);
+    materialRef.current?.setScalarRange(scalars ? scalarMax : null);
+  }, [tint, scalars, scalarMax, octree, alignmentMatrix]);
+
+  // Nodes already on the GPU were built without the new values, so drop them to be rebuilt
+  useEffect(() => {
+    nodesRef.current.forEach((state) => {
+      if (!state.points) return;
+      groupRef.current?.remove(state.points);
+      state.points.geometry.dispose();
+      state.points = null;
+    });
+    scalarsRef.current = scalars;
+  }, [scalars]);
+
+  /**
+   * Creates the Points object of a node. Attributes are views into the octree's
+   * arrays, so nothing is copied until three uploads them to the GPU.
+   */
+  const loadNode = (octree: PointCloudOctree, index: number): THREE.Points => {
+    const node = octree.nodes[index];
+    const geometry = new THREE.BufferGeometry();
+    const range = [node.start * 3, (node.start + node.count) * 3] as const;
+    geometry.setAttribute("position", new THREE.BufferAttribute(octree.positions.subarray(...range), 3));
+    if (octree.colors) {
+      geometry.setAttribute("color", new THREE.BufferAttribute(octree.colors.subarray(...range), 3));
+    }
+    if (octree.normals) {
+      geometry.setAttribute("normal", new THREE.BufferAttribute(octree.normals.subarray(...range), 3));
+    }
+    if (octree.intensities) {
+      geometry.setAttribute("intensity", new THREE.BufferAttribute(octree.intensities.subarray(node.start, node.start + node.count), 1));
+    }
+    const scalars = scalarsRef.current;
+    if (scalars && scalars.length === octree.positions.length / 3) {
+      geometry.setAttribute("scalar", new THREE.BufferAttribute(scalars.subarray(node.start, node.start + node.count), 1));
+    }
+    // Visibility is decided per node below, so three's own culling is redundant
+    const points = new THREE.Points(geometry, materialRef.current!);
+    const state = nodesRef.current[index];
+    points.onBeforeRender = () => materialRef.current?.setNodeSpacing(state.renderSpacing);
+    points.frustumCulled = false;
+    points.matrixAutoUpdate = false;
+    groupRef.current!.add(points);
+    points.updateMatrixWorld();
+    return points;
+  };
+
+  /**
+   * Frees GPU memory of the nodes that have been hidden the longest.
+   */
+  const evictNodes = (octree: PointCloudOctree, visiblePoints: number) => {
+    const nodes = nodesRef.current;
+    let loaded = visiblePoints;
+    const hidden: number[] = [];
+    nodes.forEach((state, index) => {
+      if (state.points && !state.points.visible) {
+        loaded += octree.nodes[index].count;
+        hidden.push(index);
+      }
+    });
+    const limit = budgetRef.current * LOADED_POINTS_FACTOR;
+    if (loaded <= limit) return;
+
+    hidden.sort((a, b) => nodes[a].lastVisibleFrame - nodes[b].lastVisibleFrame);
+    for (const index of hidden) {
+      if (loaded <= limit) break;
+      const state = nodes[index];
+      groupRef.current?.remove(state.points!);
+      state.points!.geometry.dispose();
+      state.points = null;
+      loaded -= octree.nodes[index].count;
+    }
+  };
+
+  useFrame(({ camera, size, gl }, delta) => {
+    const octree = octreeRef.current;
+    const nodes = nodesRef.current;
+    if (!octree || !groupRef.current) return;
+    const frame = ++frameRef.current;
+
+    // Adapt the point budget to the smoothed frame time
+    frameTimeRef.current += (Math.min(delta * 1000, 100) - frameTimeRef.current) * 0.1;
+    if (frame % BUDGET_ADJUST_INTERVAL === 0) {
+      if (frameTimeRef.current > TARGET_FRAME_MS * 1.15) {
+        budgetRef.current = Math.max(MIN_POINT_BUDGET, Math.round(budgetRef.current * 0.85));
+      } else if (frameTimeRef.current < TARGET_FRAME_MS * 1.05) {
+        budgetRef.current = Math.min(MAX_POINT_BUDGET, Math.round(budgetRef.current * 1.05));
+      }
+    }
+
+    projScreenMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+    frustum.setFromProjectionMatrix(projScreenMatrix);
+    const fovDegrees = camera instanceof THREE.PerspectiveCamera ? camera.fov : 60;
+    const projectionFactor = size.height / (2 * Math.tan(THREE.MathUtils.degToRad(fovDegrees) / 2));
+    materialRef.current?.setViewport(size.height * gl.getPixelRatio(), fovDegrees);
+
+    // Projected point spacing in pixels; larger means coarser on screen
+    const screenSpaceError = (index: number) => {
+      const state = nodes[index];
+      const distance = Math.max(state.sphere.center.distanceTo(camera.position) - state.sphere.radius, 0.01);
+      return (state.spacing * projectionFactor) / distance;
+    };
+
+    const visible = new Uint8Array(nodes.length);
+    let visiblePoints = 0;
+    const queue = new NodeQueue();
+    queue.push(0, Infinity);
+
+    while (queue.size > 0) {
+      const index = queue.pop();
+      const state = nodes[index];
+      const node = octree.nodes[index];
+      if (!frustum.intersectsBox(state.box)) continue;
+      if (visiblePoints + node.count > budgetRef.current) break;
+
+      visible[index] = 1;
+      visiblePoints += node.count;
+      if (screenSpaceError(index) > MIN_NODE_SPACING_PX) {
+        node.children.forEach((child) => queue.push(child, screenSpaceError(child)));
+      }
+    }
+
+    // Children come after their parents, so walking backwards sees every child first.
+    // A node's points are drawn as large as the spacing of the finest level that is
+    // visible everywhere below it, so coarse points shrink as detail fills in.
+    const finerLevels = new Uint8Array(nodes.length);
+    for (let index = nodes.length - 1; index >= 0; index--) {
+      const children = octree.nodes[index].children;
+      if (children.length === 0) continue;
+      finerLevels[index] = Math.min(...children.map((child) => (visible[child] ? finerLevels[child] + 1 : 0)));
+      nodes[index].renderSpacing = nodes[index].spacing / (1 << finerLevels[index]);
+    }
+
+    nodes.forEach((state, index) => {
+      if (visible[index]) {
+        state.points ??= loadNode(octree, index);
+        state.points.visible = true;
+        state.lastVisibleFrame = frame;
+      } else if (state.points) {
+        state.points.visible = false;
+      }
+    });
+
+    evictNodes(octree, visiblePoints);
+  });
+
+  return null;
+}
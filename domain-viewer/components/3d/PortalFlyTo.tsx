@@ -0,0 +1,30 @@
+"use client";
+
+import { cameraFlyToAtom } from "@/store/camera-store";
+import { portalFlyToAtom } from "@/store/portal-store";
+import type { Portal } from "@/utils/posemeshClientApi";
+import { useAtomValue, useSetAtom } from "jotai";
+import { useEffect } from "react";
+
+// Fly-to keeps at least this distance from the portal, in meters
+const MIN_FRAMING_DISTANCE = 1.5;
+
+/**
+ * Turns portal fly-to requests into camera flights that frame the marker by its
+ * reported size. Mounted whether or not portals are shown.
+ */
+export function PortalFlyTo({ portals }: { portals: Portal[] | null | undefined }) {
+  const flyTo = useAtomValue(portalFlyToAtom);
+  const setCameraFlyTo = useSetAtom(cameraFlyToAtom);
+
+  useEffect(() => {
+    if (!flyTo) return;
+    const portal = portals?.find((p) => p.id === flyTo.portalId);
+    if (!portal) return;
+    const size = portal.reported_size ? portal.reported_size * 0.01 : 0.2;
+    setCameraFlyTo({ target: [portal.px, portal.py, portal.pz], distance: Math.max(MIN_FRAMING_DISTANCE, size * 8) });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [flyTo]);
+
+  return null;
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useCanvasClick } from "@/hooks/useCanvasClick";
+import { activeMeasurementToolAtom } from "@/store/measurement-store";
+import { routePickAtom } from "@/store/navigation-store";
+import { hoveredPortalIdAtom, portalClickAtom, selectedPortalIdAtom } from "@/store/portal-store";
+import { useGLTF } from "@react-three/drei";
+import { useFrame, useThree } from "@react-three/fiber";
+import { useAtom, useAtomValue, useSetAtom } from "jotai";
+import { useEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+
+const HOVER_COLOR = "#ffffff";
+const SELECTED_COLOR = "#3b82f6";
+
+/**
+ * The portal model hit by a ray, found through the portal id its clone carries.
+ */
+function portalIdOf(object: THREE.Object3D | null): string | null {
+  for (let current = object; current; current = current.parent) {
+    if (typeof current.userData.portalId === "string") return current.userData.portalId;
+  }
+  return null;
+}
+
+/**
+ * Outline around a portal model, drawn in the model's own frame so it follows its rotation.
+ */
+function PortalOutline({ portalId, color }: { portalId: string; color: string }) {
+  const { scene } = useThree();
+  const { scene: gltfScene } = useGLTF("/QR.glb");
+  const groupRef = useRef<THREE.Group>(null);
+  const edges = useMemo(() => new THREE.EdgesGeometry(new THREE.BoxGeometry(1, 1, 1)), []);
+  useEffect(() => () => edges.dispose(), [edges]);
+
+  // The template is never added to the scene, so its bounds are in model space
+  const localBox = useMemo(() => new THREE.Box3().setFromObject(gltfScene), [gltfScene]);
+  const size = localBox.getSize(new THREE.Vector3()).multiplyScalar(1.15);
+  const center = localBox.getCenter(new THREE.Vector3());
+
+  useFrame(() => {
+    const group = groupRef.current;
+    if (!group) return;
+    const model = scene.children.find((child) => child.userData.portalId === portalId);
+    group.visible = !!model;
+    if (model) group.matrix.copy(model.matrixWorld);
+  });
+
+  return (
+    <group ref={groupRef} matrixAutoUpdate={false}>
+      <lineSegments geometry={edges} position={center} scale={size} renderOrder={1000}>
+        <lineBasicMaterial color={color} depthTest={false} transparent toneMapped={false} />
+      </lineSegments>
+    </group>
+  );
+}
+
+/**
+ * Hover highlight and click selection for portal markers. Clicks are
+ * left to the measurement and route tools while one of them is active.
+ */
+export function PortalInteraction() {
+  const { gl, scene, camera } = useThree();
+  const [hoveredId, setHoveredId] = useAtom(hoveredPortalIdAtom);
+  const [selectedId, setSelectedId] = useAtom(selectedPortalIdAtom);
+  const setPortalClick = useSetAtom(portalClickAtom);
+  const measurementTool = useAtomValue(activeMeasurementToolAtom);
+  const routePick = useAtomValue(routePickAtom);
+  const raycaster = useMemo(() => new THREE.Raycaster(), []);
+  // Pointer position over the canvas, null while it is elsewhere or locked
+  const pointerRef = useRef<THREE.Vector2 | null>(null);
+  // The portal the canvas last reported as hovered
+  const canvasHoverRef = useRef<string | null>(null);
+  const picking = !measurementTool && !routePick;
+
+  const portalAt = (ndc: THREE.Vector2): string | null => {
+    const models = scene.children.filter((child) => child.userData.portalId);
+    if (models.length === 0) return null;
+    raycaster.setFromCamera(ndc, camera);
+    return portalIdOf(raycaster.intersectObjects(models, true)[0]?.object ?? null);
+  };
+
+  const toNdc = (e: PointerEvent) => {
+    const rect = gl.domElement.getBoundingClientRect();
+    return new THREE.Vector2(
+      ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      -((e.clientY - rect.top) / rect.height) * 2 + 1
+    );
+  };
+
+  useEffect(() => {
+    if (!picking) return;
+    const canvas = gl.domElement;
+    const onPointerMove = (e: PointerEvent) => {
+      pointerRef.current = document.pointerLockElement ? null : toNdc(e);
+    };
+    const onPointerLeave = () => {
+      pointerRef.current = null;
+    };
+    canvas.addEventListener("pointermove", onPointerMove);
+    canvas.addEventListener("pointerleave", onPointerLeave);
+    return () => {
+      canvas.removeEventListener("pointermove", onPointerMove);
+      canvas.removeEventListener("pointerleave", onPointerLeave);
+      pointerRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [picking, gl]);
+
+  // Hover is tested once per frame rather than on every pointer event. The canvas only
+  // writes hover while the pointer is over it, so the portal list can set it otherwise.
+  useFrame(() => {
+    if (!pointerRef.current) {
+      if (canvasHoverRef.current !== null) {
+        if (hoveredId === canvasHoverRef.current) setHoveredId(null);
+        canvasHoverRef.current = null;
+        gl.domElement.style.cursor = "";
+      }
+      return;
+    }
+    const id = portalAt(pointerRef.current);
+    if (id !== canvasHoverRef.current) {
+      canvasHoverRef.current = id;
+      setHoveredId(id);
+      gl.domElement.style.cursor = id ? "pointer" : "";
+    }
+  });
+
+  useCanvasClick(
+    picking
+      ? (e) => {
+          const id = portalAt(toNdc(e));
+          setSelectedId(id);
+          if (id) setPortalClick({ portalId: id });
+        }
+      : null,
+    ""
+  );
+
+  return (
+    <>
+      {hoveredId && hoveredId !== selectedId && <PortalOutline portalId={hoveredId} color={HOVER_COLOR} />}
+      {selectedId && <PortalOutline portalId={selectedId} color={SELECTED_COLOR} />}
+    </>
+  );
+}
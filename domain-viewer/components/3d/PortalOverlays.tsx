@@ -0,0 +1,72 @@
+"use client";
+
+import { portalOverlayAtom } from "@/store/portal-store";
+import { portalColor } from "@/utils/portalAccuracy";
+import type { Portal } from "@/utils/posemeshClientApi";
+import { Html } from "@react-three/drei";
+import { useAtomValue } from "jotai";
+import { useEffect, useMemo } from "react";
+import * as THREE from "three";
+
+// Ellipsoids use this color when no color mode is set
+const DEFAULT_COLOR = "#38bdf8";
+// Radius used for an axis with no reported accuracy, so the ellipsoid stays visible
+const MIN_RADIUS = 0.05;
+
+/**
+ * Optional portal overlays: GPS uncertainty ellipsoids, a colored dot per portal for
+ * the accuracy or age color modes, and short_id labels.
+ */
+export function PortalOverlays({ portals }: { portals: Portal[] | null | undefined }) {
+  const overlay = useAtomValue(portalOverlayAtom);
+  const sphere = useMemo(() => new THREE.SphereGeometry(1, 24, 16), []);
+  useEffect(() => () => sphere.dispose(), [sphere]);
+
+  const items = useMemo(() => {
+    const now = Date.now();
+    return (portals ?? []).map((portal) => ({
+      portal,
+      position: [portal.px, portal.py, portal.pz] as [number, number, number],
+      color: portalColor(portal, overlay.colorMode, now),
+    }));
+  }, [portals, overlay.colorMode]);
+
+  if (!overlay.ellipsoids && !overlay.labels && overlay.colorMode === "none") return null;
+
+  return (
+    <>
+      {items.map(({ portal, position, color }) => {
+        const horizontal = Math.max(MIN_RADIUS, portal.horizontal_accuracy || 0);
+        const vertical = Math.max(MIN_RADIUS, portal.vertical_accuracy || 0);
+        return (
+          <group key={portal.id} position={position}>
+            {overlay.ellipsoids && (
+              <>
+                <mesh geometry={sphere} scale={[horizontal, vertical, horizontal]} renderOrder={10}>
+                  <meshBasicMaterial color={color ?? DEFAULT_COLOR} transparent opacity={0.12} depthWrite={false} />
+                </mesh>
+                <mesh geometry={sphere} scale={[horizontal, vertical, horizontal]} renderOrder={10}>
+                  <meshBasicMaterial color={color ?? DEFAULT_COLOR} wireframe transparent opacity={0.35} depthWrite={false} />
+                </mesh>
+              </>
+            )}
+            {color && (
+              <mesh renderOrder={1000}>
+                <sphereGeometry args={[0.08, 16, 16]} />
+                <meshBasicMaterial color={color} depthTest={false} transparent toneMapped={false} />
+              </mesh>
+            )}
+            {overlay.labels && (
+              <Html position={[0, 0.25, 0]} center zIndexRange={[40, 0]} style={{ pointerEvents: "none" }}>
+                <div className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap backdrop-blur-md bg-black/60 text-white">
+                  {color && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />}
+                  {portal.short_id}
+                </div>
+              </Html>
+            )}
+          </group>
+        );
+      })}
+    </>
+  );
+}
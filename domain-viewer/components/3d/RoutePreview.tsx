@@ -0,0 +1,98 @@
+"use client";
+
+import { useCanvasClick } from "@/hooks/useCanvasClick";
+import type { Vec3 } from "@/store/clipping-store";
+import { navGraphAtom, routeAtom, routePathAtom, routePickAtom } from "@/store/navigation-store";
+import { closestNavPoint } from "@/utils/navGraph";
+import { Html, Line } from "@react-three/drei";
+import { useThree } from "@react-three/fiber";
+import { useAtom, useAtomValue } from "jotai";
+import { useMemo } from "react";
+import * as THREE from "three";
+
+// Lifts the route off the nav mesh so it does not z-fight with it
+const ROUTE_LIFT = 0.05;
+const ROUTE_COLOR = "#22d3ee";
+const START_COLOR = "#22c55e";
+const GOAL_COLOR = "#ef4444";
+
+/**
+ * The point halfway along a path, by length.
+ */
+function pathMidpoint(points: Vec3[], length: number): Vec3 {
+  let remaining = length / 2;
+  for (let i = 1; i < points.length; i++) {
+    const a = new THREE.Vector3(...points[i - 1]);
+    const b = new THREE.Vector3(...points[i]);
+    const segment = a.distanceTo(b);
+    if (remaining <= segment && segment > 0) return a.lerp(b, remaining / segment).toArray();
+    remaining -= segment;
+  }
+  return points[points.length - 1];
+}
+
+function EndpointMarker({ position, color }: { position: Vec3; color: string }) {
+  return (
+    <mesh position={[position[0], position[1] + ROUTE_LIFT, position[2]]} renderOrder={1000}>
+      <sphereGeometry args={[0.12, 16, 16]} />
+      <meshBasicMaterial color={color} depthTest={false} transparent toneMapped={false} />
+    </mesh>
+  );
+}
+
+/**
+ * Sets route endpoints from clicks on the nav mesh and draws the shortest walkable
+ * path between them with its length.
+ */
+export function RoutePreview() {
+  const { scene, camera, gl } = useThree();
+  const graph = useAtomValue(navGraphAtom);
+  const [route, setRoute] = useAtom(routeAtom);
+  const [pick, setPick] = useAtom(routePickAtom);
+  const path = useAtomValue(routePathAtom);
+  const raycaster = useMemo(() => new THREE.Raycaster(), []);
+
+  useCanvasClick(
+    pick && graph
+      ? (e) => {
+          const navMesh = scene.getObjectByName("navmesh");
+          if (!navMesh) return;
+          const rect = gl.domElement.getBoundingClientRect();
+          raycaster.setFromCamera(
+            new THREE.Vector2(
+              ((e.clientX - rect.left) / rect.width) * 2 - 1,
+              -((e.clientY - rect.top) / rect.height) * 2 + 1
+            ),
+            camera
+          );
+          const hit = raycaster.intersectObject(navMesh, true).find((h) => h.object instanceof THREE.Mesh);
+          const snapped = hit && closestNavPoint(graph, hit.point);
+          if (!snapped) return;
+          setRoute({ ...route, [pick]: { position: snapped.point.toArray(), label: "Picked point" } });
+          setPick(null);
+        }
+      : null
+  );
+
+  const linePoints = useMemo(
+    () => path?.points.map(([x, y, z]) => [x, y + ROUTE_LIFT, z] as Vec3) ?? null,
+    [path]
+  );
+
+  return (
+    <>
+      {route.start && <EndpointMarker position={route.start.position} color={START_COLOR} />}
+      {route.goal && <EndpointMarker position={route.goal.position} color={GOAL_COLOR} />}
+      {path && linePoints && linePoints.length > 1 && (
+        <>
+          <Line points={linePoints} color={ROUTE_COLOR} lineWidth={4} depthTest={false} renderOrder={1000} />
+          <Html position={pathMidpoint(linePoints, path.length)} center zIndexRange={[40, 0]} style={{ pointerEvents: "none" }}>
+            <div className="px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap backdrop-blur-md bg-black/60 text-white">
+              {path.length.toFixed(2)} m
+            </div>
+          </Html>
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { tourPlaybackAtom, viewpointsAtom } from "@/store/tour-store";
+import { useThree } from "@react-three/fiber";
+import gsap from "gsap";
+import { useAtom, useAtomValue } from "jotai";
+import { useEffect } from "react";
+import * as THREE from "three";
+
+// Seconds the tour rests at each stop
+const STOP_DURATION = 4;
+// Flight time grows with distance, within these bounds in seconds
+const MIN_FLIGHT_DURATION = 1.5;
+const MAX_FLIGHT_DURATION = 6;
+const FLIGHT_SPEED = 4; // Meters per second
+
+/**
+ * Flies the camera to the stop of the tour playback and, while playing, on to the next
+ * stop after a pause. Touching the view stops the tour.
+ */
+export function TourPlayer() {
+  const { camera, gl, get } = useThree();
+  const [playback, setPlayback] = useAtom(tourPlaybackAtom);
+  const viewpoints = useAtomValue(viewpointsAtom);
+
+  useEffect(() => {
+    if (!playback) return;
+    const stop = viewpoints[playback.index];
+    if (!stop) {
+      setPlayback(null);
+      return;
+    }
+
+    const destination = new THREE.Vector3(...stop.position);
+    const target = new THREE.Vector3(...stop.target);
+    const startPosition = camera.position.clone();
+    const startTarget: THREE.Vector3 =
+      (get().controls as any)?.target?.clone() ??
+      camera.getWorldDirection(new THREE.Vector3()).multiplyScalar(10).add(camera.position);
+    const lookAt = new THREE.Vector3();
+    const progress = { t: 0 };
+
+    const timeline = gsap.timeline();
+    timeline.to(progress, {
+      t: 1,
+      duration: THREE.MathUtils.clamp(
+        startPosition.distanceTo(destination) / FLIGHT_SPEED,
+        MIN_FLIGHT_DURATION,
+        MAX_FLIGHT_DURATION
+      ),
+      ease: "power2.inOut",
+      onUpdate: () => {
+        camera.position.lerpVectors(startPosition, destination, progress.t);
+        lookAt.lerpVectors(startTarget, target, progress.t);
+        // Controls are read each frame as starting a tour may swap them
+        const controls = get().controls as any;
+        if (controls?.target) {
+          controls.target.copy(lookAt);
+          controls.update?.();
+        } else {
+          camera.lookAt(lookAt);
+        }
+      },
+    });
+    if (playback.playing) {
+      timeline.call(
+        () => {
+          const next = playback.index + 1;
+          if (next < viewpoints.length) {
+            setPlayback({ ...playback, index: next });
+          } else {
+            setPlayback(playback.loop ? { ...playback, index: 0 } : null);
+          }
+        },
+        undefined,
+        `+=${STOP_DURATION}`
+      );
+    }
+
+    return () => {
+      timeline.kill();
+    };
+    // Only a new playback object starts a flight; editing the viewpoints does not
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playback]);
+
+  useEffect(() => {
+    if (!playback) return;
+    const stopTour = () => setPlayback(null);
+    const element = gl.domElement;
+    element.addEventListener("pointerdown", stopTour);
+    element.addEventListener("wheel", stopTour, { passive: true });
+    return () => {
+      element.removeEventListener("pointerdown", stopTour);
+      element.removeEventListener("wheel", stopTour);
+    };
+  }, [playback, gl, setPlayback]);
+
+  return null;
+}
@@ -6,7 +6,9 @@ import { useFrame, useThree, ThreeEvent } from '@react-three/fiber';
 import { Line } from '@react-three/drei';
 import * as THREE from 'three';
 import gsap from 'gsap';
+import { fetchDomainThumbnail } from '@/lib/domainService';
 import { ImageData, ImageMeshUserData } from '@/types/image';
+import { isAbortError } from '@/utils/abort';
 
 // Configuration
 const TUNNEL_RADIUS = 10;
@@ -203,6 +205,54 @@ function generateCurvedRoundedRect(
   return points;
 }
 
+/**
+ * Loads the texture of an image panel, falling back to the image's fallback URL when
+ * the image itself fails to load. Domain thumbnails are fetched until the server has
+ * rendered them, and only then turned into a texture.
+ */
+function loadImageTexture(imageData: ImageData, onLoad: (texture: THREE.Texture) => void, signal: AbortSignal) {
+  const loader = new THREE.TextureLoader();
+  loader.crossOrigin = 'anonymous';
+  const load = (url: string, fallbackUrl?: string) =>
+    loader.load(url, (texture) => {
+      if (!signal.aborted) onLoad(texture);
+    }, undefined, (error) => {
+      if (fallbackUrl) {
+        load(fallbackUrl);
+      } else {
+        console.warn('Failed to load texture:', url, error);
+      }
+    });
+
+  if (!imageData.isDomainThumbnail) {
+    load(imageData.imageUrl, imageData.fallbackImageUrl);
+    return;
+  }
+  fetchDomainThumbnail(imageData.imageUrl, signal)
+    .catch((error) => {
+      if (isAbortError(error)) throw error;
+      console.warn('Failed to fetch thumbnail:', imageData.imageUrl, error);
+      return null;
+    })
+    .then((blob) => {
+      if (!blob) {
+        if (imageData.fallbackImageUrl) load(imageData.fallbackImageUrl);
+        return;
+      }
+      const objectUrl = URL.createObjectURL(blob);
+      loader.load(objectUrl, (texture) => {
+        URL.revokeObjectURL(objectUrl);
+        if (!signal.aborted) onLoad(texture);
+      }, undefined, () => {
+        URL.revokeObjectURL(objectUrl);
+        if (imageData.fallbackImageUrl) load(imageData.fallbackImageUrl);
+      });
+    })
+    .catch(() => {
+      // Aborted by the panel unmounting
+    });
+}
+
 // Hover animation offset (how far inward the image moves)
 const HOVER_OFFSET = 0.3;
 
@@ -335,10 +385,9 @@ function TunnelImage({ slot, router }: { slot: ImageSlot; router: ReturnType<typ
   }, [angle, arcAngle, zPos, height]);
 
   useEffect(() => {
-    const loader = new THREE.TextureLoader();
-    loader.crossOrigin = 'anonymous';
-    loader.load(
-      imageData.imageUrl,
+    const controller = new AbortController();
+    loadImageTexture(
+      imageData,
       (loadedTexture) => {
         loadedTexture.minFilter = THREE.LinearFilter;
         textureRef.current = loadedTexture;
@@ -347,11 +396,11 @@ function TunnelImage({ slot, router }: { slot: ImageSlot; router: ReturnType<typ
           (meshRef.current.material as THREE.MeshBasicMaterial).needsUpdate = true;
         }
       },
-      undefined,
-      (error) => console.warn('Failed to load texture:', imageData.imageUrl, error)
+      controller.signal
     );
 
     return () => {
+      controller.abort();
       if (textureRef.current) {
         textureRef.current.dispose();
       }
@@ -620,10 +669,9 @@ function RectTunnelImage({ slot, router }: { slot: RectImageSlot; router: Return
   }, [actualWidth, actualHeight]);
 
   useEffect(() => {
-    const loader = new THREE.TextureLoader();
-    loader.crossOrigin = 'anonymous';
-    loader.load(
-      imageData.imageUrl,
+    const controller = new AbortController();
+    loadImageTexture(
+      imageData,
       (loadedTexture) => {
         loadedTexture.minFilter = THREE.LinearFilter;
         // Rotate texture 90° clockwise so images face viewer naturally
@@ -635,11 +683,11 @@ function RectTunnelImage({ slot, router }: { slot: RectImageSlot; router: Return
           (meshRef.current.material as THREE.MeshBasicMaterial).needsUpdate = true;
         }
       },
-      undefined,
-      (error) => console.warn('Failed to load texture:', imageData.imageUrl, error)
+      controller.signal
     );
 
     return () => {
+      controller.abort();
       if (textureRef.current) {
         textureRef.current.dispose();
       }
@@ -0,0 +1,278 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import gsap from 'gsap';
+import { formatBytes } from '@/lib/utils';
+import {
+  ASSET_CACHE_LIMIT_OPTIONS,
+  AssetCacheUsage,
+  clearAssetCache,
+  getAssetCacheUsage,
+  setAssetCacheLimit,
+} from '@/utils/assetCache';
+
+export function CacheSettingsPanel() {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [mounted, setMounted] = useState(false);
+  const [usage, setUsage] = useState<AssetCacheUsage | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const titleRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const refreshUsage = useCallback(async () => {
+    setUsage(await getAssetCacheUsage());
+  }, []);
+
+  // Usage changes as domains load, so re-read it every time the panel opens
+  useEffect(() => {
+    if (isExpanded) refreshUsage();
+  }, [isExpanded, refreshUsage]);
+
+  const handleContainerClick = () => {
+    toggleExpand();
+  };
+
+  const toggleExpand = useCallback(() => {
+    if (!containerRef.current) return;
+
+    if (!isExpanded) {
+      setIsExpanded(true);
+
+      requestAnimationFrame(() => {
+        if (!containerRef.current) return;
+
+        const tl = gsap.timeline();
+
+        tl.to(containerRef.current, {
+          width: '260px',
+          duration: 0.3,
+          ease: 'power2.out',
+        });
+
+        if (titleRef.current) {
+          tl.fromTo(
+            titleRef.current,
+            { opacity: 0 },
+            { opacity: 1, duration: 0.2, ease: 'power2.out' },
+            '-=0.1'
+          );
+        }
+
+        tl.to(
+          containerRef.current,
+          {
+            height: 'auto',
+            duration: 0.4,
+            ease: 'power3.out',
+          },
+          '-=0.1'
+        );
+
+        if (listRef.current) {
+          tl.fromTo(
+            listRef.current,
+            { opacity: 0, y: 10 },
+            { opacity: 1, y: 0, duration: 0.3, ease: 'power2.out' },
+            '-=0.2'
+          );
+        }
+      });
+    } else {
+      const tl = gsap.timeline({
+        onComplete: () => setIsExpanded(false),
+      });
+
+      if (listRef.current) {
+        tl.to(listRef.current, {
+          opacity: 0,
+          y: -10,
+          duration: 0.2,
+          ease: 'power2.in',
+        });
+      }
+
+      if (titleRef.current) {
+        tl.to(
+          titleRef.current,
+          {
+            opacity: 0,
+            duration: 0.15,
+            ease: 'power2.in',
+          },
+          listRef.current ? '-=0.1' : 0
+        );
+      }
+
+      tl.to(
+        containerRef.current,
+        {
+          height: '48px',
+          duration: 0.3,
+          ease: 'power3.inOut',
+        },
+        '-=0.1'
+      );
+
+      tl.to(
+        containerRef.current,
+        {
+          width: '48px',
+          duration: 0.25,
+          ease: 'power2.inOut',
+        },
+        '-=0.2'
+      );
+    }
+  }, [isExpanded]);
+
+  // Close on click outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (isExpanded && containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        toggleExpand();
+      }
+    };
+
+    if (isExpanded) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isExpanded, toggleExpand]);
+
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isExpanded) {
+        toggleExpand();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isExpanded, toggleExpand]);
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    try {
+      await clearAssetCache();
+    } catch (error) {
+      console.error('Failed to clear asset cache:', error);
+    }
+    await refreshUsage();
+    setIsClearing(false);
+  };
+
+  const handleLimitChange = async (limit: number) => {
+    await setAssetCacheLimit(limit);
+    await refreshUsage();
+  };
+
+  if (!mounted) return null;
+
+  const fraction = usage && usage.limit > 0 ? Math.min(1, usage.bytes / usage.limit) : 0;
+
+  return (
+    <div
+      ref={containerRef}
+      onClick={!isExpanded ? handleContainerClick : undefined}
+      className="bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px] cursor-pointer overflow-hidden"
+      style={{
+        width: '48px',
+        height: '48px',
+      }}
+    >
+      {/* Collapsed view - icon button */}
+      <div
+        className={`flex items-center justify-center h-12 ${isExpanded ? 'border-b border-black/10 dark:border-white/10' : ''}`}
+      >
+        {!isExpanded ? (
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className="text-black dark:text-white"
+          >
+            <ellipse cx="12" cy="5" rx="9" ry="3" />
+            <path d="M3 5v14a9 3 0 0 0 18 0V5" />
+            <path d="M3 12a9 3 0 0 0 18 0" />
+          </svg>
+        ) : (
+          <span ref={titleRef} className="text-sm font-medium text-black dark:text-white px-4 opacity-0">Offline Cache</span>
+        )}
+      </div>
+
+      {/* Expanded view - cache usage and actions */}
+      {isExpanded && (
+        <div ref={listRef} className="p-3 space-y-3 cursor-default">
+          <div className="flex flex-col gap-1">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-black/50 dark:text-white/50">Used</span>
+              <span className="text-black dark:text-white">
+                {usage ? `${formatBytes(usage.bytes)} of ${formatBytes(usage.limit)}` : '...'}
+              </span>
+            </div>
+            <div className="h-1.5 rounded-full bg-black/10 dark:bg-white/10 overflow-hidden">
+              <div
+                className="h-full rounded-full bg-black dark:bg-white transition-[width] duration-300"
+                style={{ width: `${fraction * 100}%` }}
+              />
+            </div>
+            <span className="text-xs text-black/50 dark:text-white/50">
+              {usage ? `${usage.count} cached ${usage.count === 1 ? 'asset' : 'assets'}` : ''}
+            </span>
+          </div>
+
+          <div className="border-b border-black/5 dark:border-white/5" />
+
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-black/50 dark:text-white/50">Size limit</span>
+            <div className="flex gap-1">
+              {ASSET_CACHE_LIMIT_OPTIONS.map((limit) => (
+                <button
+                  key={limit}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleLimitChange(limit);
+                  }}
+                  className={`flex-1 px-2 py-1.5 rounded-xl text-xs transition-colors ${
+                    usage?.limit === limit
+                      ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white font-medium'
+                      : 'text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+                  }`}
+                >
+                  {formatBytes(limit)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleClear();
+            }}
+            disabled={isClearing || !usage || usage.count === 0}
+            className="w-full px-3 py-2 rounded-xl text-sm bg-black/5 hover:bg-black/10 dark:bg-white/10 dark:hover:bg-white/20 text-black dark:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isClearing ? 'Clearing...' : 'Clear cache'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import gsap from 'gsap';
+import { useAtom, useAtomValue } from 'jotai';
+import { clippingAtom, floorLevelsAtom, sceneBoundsAtom } from '@/store/clipping-store';
+import { clipBoxFromBounds, floorSlice } from '@/utils/clipping';
+
+/**
+ * Panel for the clip box, the horizontal slice and the per-floor slice preset.
+ */
+export function ClippingPanel() {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [mounted, setMounted] = useState(false);
+  const [clipping, setClipping] = useAtom(clippingAtom);
+  const bounds = useAtomValue(sceneBoundsAtom);
+  const floorLevels = useAtomValue(floorLevelsAtom);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const titleRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const handleContainerClick = () => {
+    toggleExpand();
+  };
+
+  const toggleExpand = useCallback(() => {
+    if (!containerRef.current) return;
+
+    if (!isExpanded) {
+      setIsExpanded(true);
+
+      requestAnimationFrame(() => {
+        if (!containerRef.current) return;
+
+        const tl = gsap.timeline();
+
+        tl.to(containerRef.current, {
+          width: '260px',
+          duration: 0.3,
+          ease: 'power2.out',
+        });
+
+        if (titleRef.current) {
+          tl.fromTo(
+            titleRef.current,
+            { opacity: 0 },
+            { opacity: 1, duration: 0.2, ease: 'power2.out' },
+            '-=0.1'
+          );
+        }
+
+        tl.to(
+          containerRef.current,
+          {
+            height: 'auto',
+            duration: 0.4,
+            ease: 'power3.out',
+          },
+          '-=0.1'
+        );
+
+        if (listRef.current) {
+          tl.fromTo(
+            listRef.current,
+            { opacity: 0, y: 10 },
+            { opacity: 1, y: 0, duration: 0.3, ease: 'power2.out' },
+            '-=0.2'
+          );
+        }
+      });
+    } else {
+      const tl = gsap.timeline({
+        onComplete: () => setIsExpanded(false),
+      });
+
+      if (listRef.current) {
+        tl.to(listRef.current, {
+          opacity: 0,
+          y: -10,
+          duration: 0.2,
+          ease: 'power2.in',
+        });
+      }
+
+      if (titleRef.current) {
+        tl.to(
+          titleRef.current,
+          {
+            opacity: 0,
+            duration: 0.15,
+            ease: 'power2.in',
+          },
+          listRef.current ? '-=0.1' : 0
+        );
+      }
+
+      tl.to(
+        containerRef.current,
+        {
+          height: '48px',
+          duration: 0.3,
+          ease: 'power3.inOut',
+        },
+        '-=0.1'
+      );
+
+      tl.to(
+        containerRef.current,
+        {
+          width: '48px',
+          duration: 0.25,
+          ease: 'power2.inOut',
+        },
+        '-=0.2'
+      );
+    }
+  }, [isExpanded]);
+
+  // Close on click outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (isExpanded && containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        toggleExpand();
+      }
+    };
+
+    if (isExpanded) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isExpanded, toggleExpand]);
+
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isExpanded) {
+        toggleExpand();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isExpanded, toggleExpand]);
+
+  const toggleBox = () => {
+    if (!bounds) return;
+    setClipping({ ...clipping, boxEnabled: !clipping.boxEnabled, box: clipping.box ?? clipBoxFromBounds(bounds) });
+  };
+
+  const toggleSlice = () => {
+    if (!bounds) return;
+    setClipping({
+      ...clipping,
+      sliceEnabled: !clipping.sliceEnabled,
+      slice: clipping.slice ?? { bottom: bounds.min[1], top: bounds.max[1] },
+    });
+  };
+
+  const showFloor = (index: number) => {
+    setClipping({ ...clipping, sliceEnabled: true, slice: floorSlice(floorLevels, index) });
+  };
+
+  const activeFloor = clipping.sliceEnabled && clipping.slice
+    ? floorLevels.findIndex((_, index) => {
+        const slice = floorSlice(floorLevels, index);
+        return Math.abs(slice.bottom - clipping.slice!.bottom) < 1e-3 && Math.abs(slice.top - clipping.slice!.top) < 1e-3;
+      })
+    : -1;
+
+  const isActive = clipping.boxEnabled || clipping.sliceEnabled;
+
+  const toggleClass = (active: boolean) =>
+    `w-full flex items-center justify-between px-3 py-2 rounded-xl text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+      active
+        ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white'
+        : 'text-black/50 dark:text-white/50 hover:bg-black/5 dark:hover:bg-white/10'
+    }`;
+
+  if (!mounted) return null;
+
+  return (
+    <div
+      ref={containerRef}
+      onClick={!isExpanded ? handleContainerClick : undefined}
+      className="bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px] cursor-pointer overflow-hidden"
+      style={{
+        width: '48px',
+        height: '48px',
+      }}
+    >
+      {/* Collapsed view - icon button */}
+      <div
+        className={`flex items-center justify-center h-12 ${isExpanded ? 'border-b border-black/10 dark:border-white/10' : ''}`}
+      >
+        {!isExpanded ? (
+          <div className="relative">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="text-black dark:text-white"
+            >
+              <circle cx="6" cy="6" r="3" />
+              <circle cx="6" cy="18" r="3" />
+              <line x1="20" y1="4" x2="8.12" y2="15.88" />
+              <line x1="14.47" y1="14.48" x2="20" y2="20" />
+              <line x1="8.12" y1="8.12" x2="12" y2="12" />
+            </svg>
+            {isActive && <div className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-orange-500 rounded-full" />}
+          </div>
+        ) : (
+          <span ref={titleRef} className="text-sm font-medium text-black dark:text-white px-4 opacity-0">Clipping</span>
+        )}
+      </div>
+
+      {/* Expanded view - clipping tools */}
+      {isExpanded && (
+        <div ref={listRef} className="p-3 space-y-3 cursor-default">
+          {!bounds && (
+            <p className="text-xs text-black/50 dark:text-white/50">Available once the domain has loaded.</p>
+          )}
+
+          <div className="flex flex-col gap-1">
+            <button
+              disabled={!bounds}
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleBox();
+              }}
+              className={toggleClass(clipping.boxEnabled)}
+            >
+              <span>Clip box</span>
+              <span className="text-xs">{clipping.boxEnabled ? 'On' : 'Off'}</span>
+            </button>
+            {clipping.boxEnabled && clipping.box && (
+              <div className="px-1 space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-black/50 dark:text-white/50">Rotation</span>
+                  <span className="text-black dark:text-white">{Math.round((clipping.box.rotation * 180) / Math.PI)}°</span>
+                </div>
+                <input
+                  type="range"
+                  min={-180}
+                  max={180}
+                  step={1}
+                  value={Math.round((clipping.box.rotation * 180) / Math.PI)}
+                  onChange={(e) =>
+                    setClipping({ ...clipping, box: { ...clipping.box!, rotation: (Number(e.target.value) * Math.PI) / 180 } })
+                  }
+                  className="w-full accent-black dark:accent-white"
+                />
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (bounds) setClipping({ ...clipping, box: clipBoxFromBounds(bounds) });
+                  }}
+                  className="text-xs text-black/60 dark:text-white/60 hover:text-black dark:hover:text-white underline"
+                >
+                  Fit to scene
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <button
+              disabled={!bounds}
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleSlice();
+              }}
+              className={toggleClass(clipping.sliceEnabled)}
+            >
+              <span>Slice</span>
+              <span className="text-xs">{clipping.sliceEnabled ? 'On' : 'Off'}</span>
+            </button>
+            {clipping.sliceEnabled && clipping.slice && bounds && (
+              <div className="px-1 space-y-1">
+                {(['top', 'bottom'] as const).map((edge) => (
+                  <div key={edge}>
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="text-black/50 dark:text-white/50">{edge === 'top' ? 'Top' : 'Bottom'}</span>
+                      <span className="text-black dark:text-white">{clipping.slice![edge].toFixed(2)} m</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={bounds.min[1] - 1}
+                      max={bounds.max[1] + 1}
+                      step={0.05}
+                      value={clipping.slice![edge]}
+                      onChange={(e) => {
+                        const value = Number(e.target.value);
+                        const slice = { ...clipping.slice!, [edge]: value };
+                        if (slice.bottom < slice.top) setClipping({ ...clipping, slice });
+                      }}
+                      className="w-full accent-black dark:accent-white"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {floorLevels.length > 0 && (
+            <>
+              <div className="border-b border-black/5 dark:border-white/5" />
+              <div className="flex flex-col gap-1">
+                <span className="text-xs text-black/50 dark:text-white/50">Floor slice</span>
+                <div className="flex flex-wrap gap-1">
+                  {floorLevels.map((level, index) => (
+                    <button
+                      key={index}
+                      title={`${level.toFixed(2)} m`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        showFloor(index);
+                      }}
+                      className={`px-2 py-1.5 rounded-xl text-xs transition-colors ${
+                        activeFloor === index
+                          ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white font-medium'
+                          : 'text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+                      }`}
+                    >
+                      Floor {index + 1}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
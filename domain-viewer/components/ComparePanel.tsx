@@ -0,0 +1,234 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAtom } from 'jotai';
+import { compareSettingsAtom, type CompareDisplay } from '@/store/compare-store';
+import type { LoadedRefinement, RefinementSource } from '@/hooks/useRefinementLoader';
+import type { CloudDistanceStats } from '@/utils/cloudDistance';
+import { COMPARE_COLORS } from '@/components/CompareViewer';
+
+export type CompareSide = 'a' | 'b';
+
+export type HeatmapStatus = 'idle' | 'computing' | 'done' | 'error';
+
+// Heatmap ranges offered, in meters; each change reruns the distance computation
+const MAX_DISTANCE_OPTIONS = [0.02, 0.05, 0.1, 0.25, 0.5];
+
+const DISPLAY_OPTIONS: { value: CompareDisplay; label: string }[] = [
+  { value: 'split', label: 'Split' },
+  { value: 'overlay', label: 'Overlay' },
+];
+
+const formatCm = (meters: number) => `${(meters * 100).toFixed(1)} cm`;
+
+function statusText(loaded: LoadedRefinement): string | null {
+  switch (loaded.status) {
+    case 'loading':
+      return loaded.total
+        ? `Downloading ${Math.round((loaded.loaded / loaded.total) * 100)}%`
+        : loaded.loaded > 0
+          ? `Downloading ${(loaded.loaded / 1e6).toFixed(1)} MB`
+          : 'Loading…';
+    case 'parsing':
+      return 'Building octree…';
+    case 'error':
+      return loaded.error ?? 'Failed to load';
+    default:
+      return null;
+  }
+}
+
+function SourcePicker({
+  side,
+  source,
+  loaded,
+  onChange,
+}: {
+  side: CompareSide;
+  source: RefinementSource | null;
+  loaded: LoadedRefinement;
+  onChange: (source: RefinementSource | null) => void;
+}) {
+  const [domainInput, setDomainInput] = useState(source?.domainId ?? '');
+
+  useEffect(() => {
+    setDomainInput(source?.domainId ?? '');
+  }, [source?.domainId]);
+
+  const commitDomain = () => {
+    const domainId = domainInput.trim();
+    if (domainId === (source?.domainId ?? '')) return;
+    onChange(domainId ? { domainId, refinement: null } : null);
+  };
+
+  const status = statusText(loaded);
+  const unaligned = loaded.status === 'loaded' && loaded.refinement !== loaded.canonicalRefinement;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: COMPARE_COLORS[side] }} />
+        <span className="text-xs font-medium text-black/70 dark:text-white/70">
+          {side.toUpperCase()}
+          {loaded.domainName && ` · ${loaded.domainName}`}
+        </span>
+      </div>
+      <input
+        value={domainInput}
+        onChange={(e) => setDomainInput(e.target.value)}
+        onBlur={commitDomain}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commitDomain();
+        }}
+        placeholder="Domain ID"
+        className="w-full px-3 py-1.5 rounded-xl text-sm bg-black/5 dark:bg-white/10 text-black dark:text-white placeholder:text-black/40 dark:placeholder:text-white/40 outline-none"
+      />
+      {loaded.refinements.length > 0 && source && (
+        <select
+          value={loaded.refinement ?? ''}
+          onChange={(e) => onChange({ domainId: source.domainId, refinement: e.target.value })}
+          className="w-full px-3 py-1.5 rounded-xl text-sm bg-black/5 dark:bg-white/10 text-black dark:text-white outline-none"
+        >
+          {loaded.refinements.map((refinement) => (
+            <option key={refinement} value={refinement}>
+              {refinement}
+              {refinement === loaded.canonicalRefinement ? ' (canonical)' : ''}
+            </option>
+          ))}
+        </select>
+      )}
+      {status && (
+        <p className={`text-xs ${loaded.status === 'error' ? 'text-red-500' : 'text-black/50 dark:text-white/50'}`}>
+          {status}
+        </p>
+      )}
+      {unaligned && (
+        <p className="text-xs text-black/50 dark:text-white/50">
+          No alignment is stored for this refinement, so it is shown in its own frame.
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Card for picking the two point clouds to compare, how to display them and the
+ * cloud-to-cloud distance heatmap with its summary statistics.
+ */
+export function ComparePanel({
+  sources,
+  loaded,
+  onSourceChange,
+  heatmapStatus,
+  stats,
+}: {
+  sources: Record<CompareSide, RefinementSource | null>;
+  loaded: Record<CompareSide, LoadedRefinement>;
+  onSourceChange: (side: CompareSide, source: RefinementSource | null) => void;
+  heatmapStatus: HeatmapStatus;
+  stats: CloudDistanceStats | null;
+}) {
+  const [settings, setSettings] = useAtom(compareSettingsAtom);
+
+  return (
+    <div className="w-[300px] max-h-[calc(100vh-8rem)] overflow-y-auto bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px]">
+      <div className="flex items-center h-12 px-4 border-b border-black/10 dark:border-white/10">
+        <span className="text-sm font-medium text-black dark:text-white">Compare</span>
+      </div>
+
+      <div className="p-3 space-y-4">
+        {(['a', 'b'] as CompareSide[]).map((side) => (
+          <SourcePicker
+            key={side}
+            side={side}
+            source={sources[side]}
+            loaded={loaded[side]}
+            onChange={(source) => onSourceChange(side, source)}
+          />
+        ))}
+
+        <div className="space-y-2">
+          <span className="text-xs font-medium text-black/70 dark:text-white/70">Display</span>
+          <div className="flex gap-1">
+            {DISPLAY_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setSettings((current) => ({ ...current, display: option.value }))}
+                className={`flex-1 px-2 py-1 rounded-xl text-xs transition-colors ${
+                  settings.display === option.value
+                    ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white'
+                    : 'text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-black dark:text-white cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.heatmap}
+              onChange={(e) => setSettings((current) => ({ ...current, heatmap: e.target.checked }))}
+            />
+            Distance heatmap (B to A)
+          </label>
+
+          {settings.heatmap && (
+            <>
+              <div className="flex gap-1">
+                {MAX_DISTANCE_OPTIONS.map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => setSettings((current) => ({ ...current, maxDistance: value }))}
+                    className={`flex-1 px-1 py-1 rounded-xl text-xs transition-colors ${
+                      settings.maxDistance === value
+                        ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white'
+                        : 'text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+                    }`}
+                  >
+                    {Math.round(value * 100)} cm
+                  </button>
+                ))}
+              </div>
+
+              <div className="space-y-1">
+                {/* Same stops as the point shader's ramp */}
+                <div
+                  className="h-2 rounded-full"
+                  style={{ backgroundImage: 'linear-gradient(to right, #303694, #29a3db, #5ccc6b, #fcd93d, #db3330)' }}
+                />
+                <div className="flex justify-between text-xs text-black/50 dark:text-white/50">
+                  <span>0</span>
+                  <span>≥ {formatCm(settings.maxDistance)}</span>
+                </div>
+              </div>
+
+              {heatmapStatus === 'computing' && (
+                <p className="text-xs text-black/50 dark:text-white/50">Computing distances…</p>
+              )}
+              {heatmapStatus === 'error' && <p className="text-xs text-red-500">Failed to compute distances</p>}
+              {heatmapStatus === 'idle' && (
+                <p className="text-xs text-black/50 dark:text-white/50">Waiting for both point clouds…</p>
+              )}
+              {heatmapStatus === 'done' && stats && (
+                <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+                  <span className="text-black/50 dark:text-white/50">Mean</span>
+                  <span className="text-black dark:text-white text-right">{formatCm(stats.mean)}</span>
+                  <span className="text-black/50 dark:text-white/50">Median</span>
+                  <span className="text-black dark:text-white text-right">{formatCm(stats.median)}</span>
+                  <span className="text-black/50 dark:text-white/50">95th percentile</span>
+                  <span className="text-black dark:text-white text-right">{formatCm(stats.p95)}</span>
+                  <span className="text-black/50 dark:text-white/50">Within range</span>
+                  <span className="text-black dark:text-white text-right">{(stats.matched * 100).toFixed(1)}%</span>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { pointCloudStyleAtom } from "@/store/point-cloud-store";
+import type { CompareDisplay } from "@/store/compare-store";
+import type { PointCloudOctree } from "@/utils/pointCloudOctree";
+import { MapControls } from "@react-three/drei";
+import { Canvas, useFrame, useThree } from "@react-three/fiber";
+import { useAtomValue } from "jotai";
+import { useEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+import { FloorGrid } from "./3d/FloorGrid";
+import { OctreePointCloud } from "./3d/OctreePointCloud";
+import OriginLines from "./3d/OriginLines";
+
+// Overlay colors telling the two sources apart
+export const COMPARE_COLORS = { a: "#f97316", b: "#38bdf8" } as const;
+
+export interface CompareCloud {
+  octree: PointCloudOctree;
+  alignmentMatrix: number[] | null;
+  label: string;
+}
+
+// Camera pose shared between the split views. The view the user last touched owns it
+// and publishes every frame; the other copies it whenever the version changes.
+interface CameraSyncState {
+  owner: number | null;
+  version: number;
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  target: THREE.Vector3;
+}
+
+function worldBounds(cloud: CompareCloud): THREE.Box3 {
+  const box = new THREE.Box3(
+    new THREE.Vector3(...cloud.octree.bounds.min),
+    new THREE.Vector3(...cloud.octree.bounds.max)
+  );
+  return cloud.alignmentMatrix ? box.applyMatrix4(new THREE.Matrix4().fromArray(cloud.alignmentMatrix)) : box;
+}
+
+function CameraSync({ state, id }: { state: CameraSyncState; id: number }) {
+  const { camera, controls, gl } = useThree();
+  const appliedVersion = useRef(-1);
+
+  useEffect(() => {
+    const claim = () => {
+      state.owner = id;
+    };
+    const element = gl.domElement;
+    element.addEventListener("pointerdown", claim);
+    element.addEventListener("wheel", claim, { passive: true });
+    return () => {
+      element.removeEventListener("pointerdown", claim);
+      element.removeEventListener("wheel", claim);
+    };
+  }, [gl, state, id]);
+
+  useFrame(() => {
+    const target: THREE.Vector3 | undefined = (controls as any)?.target;
+    if (state.owner === id) {
+      state.position.copy(camera.position);
+      state.quaternion.copy(camera.quaternion);
+      if (target) state.target.copy(target);
+      appliedVersion.current = ++state.version;
+    } else if (state.owner !== null && appliedVersion.current !== state.version) {
+      camera.position.copy(state.position);
+      camera.quaternion.copy(state.quaternion);
+      target?.copy(state.target);
+      appliedVersion.current = state.version;
+    }
+  });
+
+  return null;
+}
+
+/**
+ * Frames the given bounds once, when they first become available.
+ */
+function FitCamera({ bounds }: { bounds: THREE.Box3 | null }) {
+  const { camera, controls } = useThree();
+  const fitted = useRef(false);
+
+  useEffect(() => {
+    if (!bounds || !controls || fitted.current) return;
+    fitted.current = true;
+    const center = bounds.getCenter(new THREE.Vector3());
+    const radius = Math.max(1, bounds.getSize(new THREE.Vector3()).length() / 2);
+    camera.position.copy(center).add(new THREE.Vector3(1, 0.8, 1).normalize().multiplyScalar(radius * 1.6));
+    (controls as any).target.copy(center);
+    (controls as any).update();
+  }, [bounds, camera, controls]);
+
+  return null;
+}
+
+function CompareScene({
+  clouds,
+  bounds,
+  sync,
+  id,
+}: {
+  clouds: { key: string; cloud: CompareCloud; tint: string | null; scalars: Float32Array | null; scalarMax: number }[];
+  bounds: THREE.Box3 | null;
+  sync: CameraSyncState | null;
+  id: number;
+}) {
+  const style = useAtomValue(pointCloudStyleAtom);
+  return (
+    <>
+      <OriginLines />
+      <FloorGrid />
+      {clouds.map(({ key, cloud, tint, scalars, scalarMax }) => (
+        <OctreePointCloud
+          key={key}
+          octree={cloud.octree}
+          alignmentMatrix={cloud.alignmentMatrix}
+          style={style}
+          tint={tint}
+          scalars={scalars}
+          scalarMax={scalarMax}
+        />
+      ))}
+      <MapControls makeDefault enableDamping dampingFactor={0.05} minPolarAngle={0} maxPolarAngle={Math.PI / 2} />
+      <FitCamera bounds={bounds} />
+      {sync && <CameraSync state={sync} id={id} />}
+    </>
+  );
+}
+
+/**
+ * Shows two point clouds for comparison, either side by side with synchronized cameras
+ * or overlaid in one view with a color per source. When distances are given, B is
+ * colored by its distance to A instead, and A is hidden in the overlay.
+ *
+ * @param distances - C2C distance of every B point to A, in B's octree order
+ * @param maxDistance - Distance shown at the top of the heatmap ramp
+ */
+export default function CompareViewer({
+  a,
+  b,
+  display,
+  distances,
+  maxDistance,
+}: {
+  a: CompareCloud | null;
+  b: CompareCloud | null;
+  display: CompareDisplay;
+  distances: Float32Array | null;
+  maxDistance: number;
+}) {
+  const cameraConfig = useMemo(() => ({ position: [15, 15, 15] as [number, number, number], fov: 50 }), []);
+  const sync = useMemo<CameraSyncState>(
+    () => ({
+      owner: null,
+      version: 0,
+      position: new THREE.Vector3(),
+      quaternion: new THREE.Quaternion(),
+      target: new THREE.Vector3(),
+    }),
+    []
+  );
+  // Both views start framed on the same cloud, so they agree before anyone drags
+  const bounds = useMemo(() => (a ? worldBounds(a) : b ? worldBounds(b) : null), [a, b]);
+
+  const bEntry = b && { key: "b", cloud: b, tint: null, scalars: distances, scalarMax: maxDistance };
+
+  if (display === "overlay") {
+    const clouds = [
+      ...(a && !distances ? [{ key: "a", cloud: a, tint: COMPARE_COLORS.a, scalars: null, scalarMax: 1 }] : []),
+      ...(bEntry ? [{ ...bEntry, tint: distances ? null : COMPARE_COLORS.b }] : []),
+    ];
+    return (
+      <div className="absolute inset-0 w-full h-full bg-white dark:bg-[#050505] z-0">
+        <Canvas camera={cameraConfig} gl={{ alpha: true }}>
+          <CompareScene clouds={clouds} bounds={bounds} sync={null} id={0} />
+        </Canvas>
+      </div>
+    );
+  }
+
+  const panes = [
+    { id: 0, label: a?.label, color: COMPARE_COLORS.a, clouds: a ? [{ key: "a", cloud: a, tint: null, scalars: null, scalarMax: 1 }] : [] },
+    { id: 1, label: b?.label, color: COMPARE_COLORS.b, clouds: bEntry ? [bEntry] : [] },
+  ];
+  return (
+    <div className="absolute inset-0 w-full h-full flex bg-white dark:bg-[#050505] z-0">
+      {panes.map((pane) => (
+        <div key={pane.id} className="relative flex-1 h-full border-black/10 dark:border-white/10 first:border-r">
+          <Canvas camera={cameraConfig} gl={{ alpha: true }}>
+            <CompareScene clouds={pane.clouds} bounds={bounds} sync={sync} id={pane.id} />
+          </Canvas>
+          {pane.label && (
+            <div className="absolute bottom-24 left-1/2 -translate-x-1/2 flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap backdrop-blur-md bg-black/60 text-white pointer-events-none">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: pane.color }} />
+              {pane.label}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
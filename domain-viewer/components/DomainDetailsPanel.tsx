@@ -2,6 +2,7 @@
 
 import { useCallback, useEffect, useRef, useState } from 'react';
 import gsap from 'gsap';
+import Link from 'next/link';
 
 interface DomainInfo {
   id: string;
@@ -282,6 +283,15 @@ export function DomainDetailsPanel({ domainInfo, isLoading }: DomainDetailsPanel
                   )}
                 </div>
               ))}
+              <div data-detail-item className="pt-1">
+                <Link
+                  href={`/compare?a=${encodeURIComponent(domainInfo.id)}`}
+                  onClick={(e) => e.stopPropagation()}
+                  className="block w-full px-3 py-1.5 rounded-xl text-center text-sm text-black dark:text-white bg-black/5 dark:bg-white/10 hover:bg-black/10 dark:hover:bg-white/20 transition-colors"
+                >
+                  Compare refinements
+                </Link>
+              </div>
             </div>
           )}
         </div>
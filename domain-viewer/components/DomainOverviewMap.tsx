@@ -0,0 +1,250 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSlippyMap } from '@/hooks/useSlippyMap';
+import { fetchDomainLocations } from '@/lib/domainService';
+import { geoToWorldPixels, worldPixelsToGeo } from '@/utils/mapTiles';
+import type { DomainLocation, DomainLocationList } from '@/types/domain';
+
+// Domains closer than this many pixels on screen are drawn as one cluster
+const CLUSTER_CELL_SIZE = 56;
+// Zoom level from which every domain is drawn on its own
+const CLUSTER_MAX_ZOOM = 15;
+// Zoom used when fitting the view, so a single domain is not shown at street level
+const FIT_MAX_ZOOM = 14;
+
+interface DomainCluster {
+  key: string;
+  domains: DomainLocation[];
+  center: [number, number]; // Web Mercator pixels at the current zoom
+}
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString('en-US');
+};
+
+const clusterRadius = (count: number) => (count === 1 ? 7 : 12 + Math.log2(count) * 3);
+
+/**
+ * World map of every domain at the location of its portals' GPS fixes. Nearby domains
+ * are clustered at low zoom; hovering shows a preview, clicking a domain opens it and
+ * clicking a cluster zooms in on it.
+ */
+export function DomainOverviewMap() {
+  const router = useRouter();
+  const [data, setData] = useState<DomainLocationList | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pointer, setPointer] = useState<[number, number] | null>(null);
+
+  useEffect(() => {
+    fetchDomainLocations().then((response) => {
+      if (response.success && response.data) {
+        setData(response.data);
+      } else {
+        setError(response.error ?? 'Unknown error');
+      }
+    });
+  }, []);
+
+  const { containerRef, canvasRef, canvasHandlers, size, view, setView, fitView, beginFrame, sources, source, setSourceId } =
+    useSlippyMap({
+      // handleClick is declared below, as it hit-tests the clusters of the current view
+      onClick: (_, screen) => handleClick(screen),
+      onHover: setPointer,
+    });
+
+  // Grid clustering in world pixels, so clusters stay put while panning
+  const clusters = useMemo((): DomainCluster[] => {
+    if (!data || !view) return [];
+    const projected = data.locations.map((location) => ({
+      location,
+      pixels: geoToWorldPixels(location, view.zoom),
+    }));
+    if (view.zoom >= CLUSTER_MAX_ZOOM) {
+      return projected.map(({ location, pixels }) => ({ key: location.id, domains: [location], center: pixels }));
+    }
+
+    const cells = new Map<string, { domains: DomainLocation[]; sum: [number, number] }>();
+    for (const { location, pixels } of projected) {
+      const key = `${Math.floor(pixels[0] / CLUSTER_CELL_SIZE)}:${Math.floor(pixels[1] / CLUSTER_CELL_SIZE)}`;
+      const cell = cells.get(key) ?? { domains: [], sum: [0, 0] };
+      cell.domains.push(location);
+      cell.sum[0] += pixels[0];
+      cell.sum[1] += pixels[1];
+      cells.set(key, cell);
+    }
+    return Array.from(cells, ([key, cell]) => ({
+      key,
+      domains: cell.domains,
+      center: [cell.sum[0] / cell.domains.length, cell.sum[1] / cell.domains.length] as [number, number],
+    }));
+  }, [data, view]);
+
+  const clusterAt = useCallback(
+    (screen: [number, number] | null): DomainCluster | null => {
+      if (!screen || !view) return null;
+      const [cx, cy] = geoToWorldPixels(view.center, view.zoom);
+      const x = screen[0] + cx - size.width / 2;
+      const y = screen[1] + cy - size.height / 2;
+      let best: DomainCluster | null = null;
+      let bestDistance = Infinity;
+      for (const cluster of clusters) {
+        const distance = Math.hypot(cluster.center[0] - x, cluster.center[1] - y);
+        if (distance <= clusterRadius(cluster.domains.length) + 4 && distance < bestDistance) {
+          best = cluster;
+          bestDistance = distance;
+        }
+      }
+      return best;
+    },
+    [clusters, view, size]
+  );
+
+  const hovered = clusterAt(pointer);
+
+  // Open a clicked domain, or zoom in on a clicked cluster
+  const handleClick = (screen: [number, number]) => {
+    const cluster = clusterAt(screen);
+    if (!cluster || !view) return;
+    if (cluster.domains.length === 1) {
+      router.push(`/${cluster.domains[0].id}`);
+      return;
+    }
+    const spread = new Set(cluster.domains.map((d) => `${d.lat.toFixed(6)},${d.lon.toFixed(6)}`)).size > 1;
+    if (spread) {
+      fitView(cluster.domains, 0.5, CLUSTER_MAX_ZOOM + 1);
+    } else {
+      // Domains at the same spot only separate once clustering stops
+      setView({ center: worldPixelsToGeo(cluster.center, view.zoom), zoom: CLUSTER_MAX_ZOOM });
+    }
+  };
+
+  // Fit the view to every located domain once they arrive
+  useEffect(() => {
+    if (view || !data || size.width === 0) return;
+    if (data.locations.length === 0) {
+      setView({ center: { lat: 20, lon: 0 }, zoom: 2 });
+    } else {
+      fitView(data.locations, 0.8, FIT_MAX_ZOOM);
+    }
+  }, [view, data, size, fitView, setView]);
+
+  useEffect(() => {
+    const ctx = beginFrame();
+    if (!ctx || !view) return;
+    const [cx, cy] = geoToWorldPixels(view.center, view.zoom);
+
+    for (const cluster of clusters) {
+      const x = cluster.center[0] - cx + size.width / 2;
+      const y = cluster.center[1] - cy + size.height / 2;
+      const radius = clusterRadius(cluster.domains.length);
+      if (x < -radius || y < -radius || x > size.width + radius || y > size.height + radius) continue;
+      const isHovered = cluster.key === hovered?.key;
+
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fillStyle = isHovered ? '#ea580c' : '#f97316';
+      ctx.fill();
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+
+      if (cluster.domains.length > 1) {
+        ctx.font = '600 12px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(String(cluster.domains.length), x, y);
+      }
+    }
+  }, [beginFrame, view, clusters, hovered, size]);
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 bg-[#f2efe9] dark:bg-[#1a1a1a]">
+      <canvas
+        ref={canvasRef}
+        className={`absolute inset-0 w-full h-full touch-none ${hovered ? 'cursor-pointer' : 'cursor-grab'}`}
+        {...canvasHandlers}
+      />
+
+      {!data && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <div className="px-4 py-3 bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px] text-sm text-black/70 dark:text-white/70">
+            {error ? `Failed to load domain locations: ${error}` : 'Locating domains…'}
+          </div>
+        </div>
+      )}
+
+      {/* Hover preview */}
+      {hovered && pointer && (
+        <div
+          className="absolute z-10 w-[240px] p-3 bg-white/80 dark:bg-black/70 backdrop-blur-md rounded-2xl pointer-events-none shadow-lg"
+          style={{
+            left: Math.min(pointer[0] + 16, size.width - 256),
+            top: Math.min(pointer[1] + 16, size.height - 160),
+          }}
+        >
+          {hovered.domains.length === 1 ? (
+            <div className="space-y-1">
+              <div className="text-sm font-medium text-black dark:text-white truncate">
+                {hovered.domains[0].name || 'Unnamed domain'}
+              </div>
+              <div className="text-xs text-black/50 dark:text-white/50 truncate">{hovered.domains[0].id}</div>
+              <div className="text-xs text-black/70 dark:text-white/70">
+                {hovered.domains[0].portalCount} portal{hovered.domains[0].portalCount === 1 ? '' : 's'} with GPS
+                {' · '}
+                updated {formatDate(hovered.domains[0].updated_at)}
+              </div>
+              <div className="text-xs text-black/50 dark:text-white/50">Click to open</div>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <div className="text-sm font-medium text-black dark:text-white">{hovered.domains.length} domains</div>
+              {hovered.domains.slice(0, 5).map((domain) => (
+                <div key={domain.id} className="text-xs text-black/70 dark:text-white/70 truncate">
+                  {domain.name || domain.id}
+                </div>
+              ))}
+              {hovered.domains.length > 5 && (
+                <div className="text-xs text-black/50 dark:text-white/50">and {hovered.domains.length - 5} more</div>
+              )}
+              <div className="text-xs text-black/50 dark:text-white/50">Click to zoom in</div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="absolute bottom-6 left-6 flex flex-col gap-2 p-3 bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px]">
+        {data && (
+          <span className="px-1 text-xs text-black/70 dark:text-white/70">
+            {data.locations.length} domains on the map
+            {data.unlocated > 0 && ` · ${data.unlocated} without GPS`}
+          </span>
+        )}
+        <div className="flex gap-1">
+          {sources.map((s) => (
+            <button
+              key={s.id}
+              onClick={() => setSourceId(s.id)}
+              className={`px-2 py-1 rounded-xl text-xs transition-colors ${
+                s.id === source.id
+                  ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white'
+                  : 'text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+              }`}
+            >
+              {s.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {source.attribution && (
+        <div className="absolute bottom-1 right-2 text-[10px] text-black/60 dark:text-white/60 pointer-events-none">
+          {source.attribution}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,10 @@
 
 import { useCallback, useEffect, useRef, useState } from 'react';
 import gsap from 'gsap';
-import { DomainListItem } from '@/app/actions';
+import { fetchAdjacentDomains } from '@/app/actions';
+import { domainThumbnailUrl, fetchDomainPage, fetchDomainThumbnail } from '@/lib/domainService';
+import { isAbortError } from '@/utils/abort';
+import type { DomainListItem } from '@/types/domain';
 
 interface DomainSelectorProps {
   currentDomainId: string;
@@ -11,10 +14,65 @@ interface DomainSelectorProps {
   isDomainLoading?: boolean;
 }
 
+// Row height of the virtualized list, including the gap between rows
+const ROW_HEIGHT = 44;
+// Height of the scrollable list viewport
+const LIST_HEIGHT = 260;
+// Rows rendered above and below the viewport
+const OVERSCAN = 4;
+const PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * A domain's thumbnail, shown once the server has rendered it. When there is none the
+ * image is hidden rather than removed, so names stay aligned.
+ */
+function DomainThumbnail({ domain }: { domain: DomainListItem }) {
+  // undefined while the thumbnail loads, null when there is none
+  const [src, setSrc] = useState<string | null | undefined>(undefined);
+  const url = domainThumbnailUrl(domain);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let objectUrl: string | null = null;
+    fetchDomainThumbnail(url, controller.signal)
+      .then((blob) => {
+        if (blob) objectUrl = URL.createObjectURL(blob);
+        setSrc(objectUrl);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.warn('Failed to fetch thumbnail:', url, error);
+        setSrc(null);
+      });
+
+    return () => {
+      controller.abort();
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setSrc(undefined);
+    };
+  }, [url]);
+
+  return (
+    <img
+      src={src ?? undefined}
+      alt=""
+      style={{ visibility: src === null ? 'hidden' : 'visible' }}
+      className="w-8 h-8 flex-shrink-0 rounded-lg object-cover bg-black/5 dark:bg-white/10"
+    />
+  );
+}
+
 export function DomainSelector({ currentDomainId, currentDomainName, onDomainChange, isDomainLoading = false }: DomainSelectorProps) {
   const [domains, setDomains] = useState<DomainListItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [adjacent, setAdjacent] = useState<{ previous: DomainListItem | null; next: DomainListItem | null } | null>(null);
+  const [search, setSearch] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
   const [isExpanded, setIsExpanded] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [mounted, setMounted] = useState(false);
 
@@ -22,10 +80,36 @@ export function DomainSelector({ currentDomainId, currentDomainName, onDomainCha
   const listRef = useRef<HTMLDivElement>(null);
   const loadingIndicatorRef = useRef<HTMLDivElement>(null);
   const prevLoadingRef = useRef<boolean | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Incremented on every new search so late responses for an old query are dropped
+  const requestIdRef = useRef(0);
 
   useEffect(() => {
     setMounted(true);
-    loadDomains();
+  }, []);
+
+  // Reload the first page whenever the search term changes
+  useEffect(() => {
+    const timeout = setTimeout(() => loadDomains(search), search ? SEARCH_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [search]);
+
+  // Resolve the previous and next domains in the full ordered list
+  useEffect(() => {
+    let cancelled = false;
+    setAdjacent(null);
+    fetchAdjacentDomains(currentDomainId).then((result) => {
+      if (cancelled) return;
+      if (result.success && result.data) {
+        setAdjacent(result.data);
+      } else {
+        console.error('Failed to load adjacent domains:', result.error);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
   }, [currentDomainId]);
 
   // Animate loading indicator
@@ -67,44 +151,71 @@ export function DomainSelector({ currentDomainId, currentDomainName, onDomainCha
     requestAnimationFrame(animateIndicator);
   }, [isDomainLoading, mounted]);
 
-  const loadDomains = async () => {
+  const loadDomains = async (query: string) => {
+    const requestId = ++requestIdRef.current;
     setIsLoading(true);
+    // A page still loading for the previous search is dropped when it arrives
+    setIsLoadingMore(false);
     setError(null);
 
-    // TODO: Replace with actual API call when endpoint is available
-    // For now, use placeholder data for UI testing - all using the same real domain ID
-    const testDomainId = '8093f9bf-c374-4162-ab74-ab61949627f1';
-    const placeholderDomains: DomainListItem[] = Array.from({ length: 20 }, (_, i) => ({
-      id: testDomainId,
-      name: i === 0 ? (currentDomainName || `Domain Space ${i + 1}`) : `Domain Space ${i + 1}`,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    }));
+    const result = await fetchDomainPage({ search: query, limit: PAGE_SIZE });
+    if (requestId !== requestIdRef.current) return;
 
-    // Simulate loading delay
-    await new Promise(resolve => setTimeout(resolve, 300));
-
-    setDomains(placeholderDomains);
+    if (result.success && result.data) {
+      setDomains(result.data.domains);
+      setNextCursor(result.data.nextCursor);
+      setTotal(result.data.total);
+      setScrollTop(0);
+      if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    } else {
+      setDomains([]);
+      setNextCursor(null);
+      setTotal(0);
+      setError(result.error || 'Failed to load domains');
+    }
     setIsLoading(false);
   };
 
-  // Find current domain index
-  const currentIndex = domains.findIndex((d) => d.id === currentDomainId);
+  const loadMoreDomains = async () => {
+    if (!nextCursor || isLoadingMore) return;
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+
+    const result = await fetchDomainPage({ search, cursor: nextCursor, limit: PAGE_SIZE });
+    if (requestId !== requestIdRef.current) return;
+
+    if (result.success && result.data) {
+      const page = result.data;
+      setDomains((current) => [...current, ...page.domains]);
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
+    } else {
+      setError(result.error || 'Failed to load domains');
+    }
+    setIsLoadingMore(false);
+  };
+
+  const handleListScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const target = e.currentTarget;
+    setScrollTop(target.scrollTop);
+    // Fetch the next page shortly before the end of the loaded rows comes into view
+    if (target.scrollTop + target.clientHeight >= target.scrollHeight - ROW_HEIGHT * OVERSCAN) {
+      loadMoreDomains();
+    }
+  };
 
   const handlePrevious = (e: React.MouseEvent) => {
     e.stopPropagation();
     e.preventDefault();
-    if (domains.length === 0) return;
-    const prevIndex = currentIndex <= 0 ? domains.length - 1 : currentIndex - 1;
-    navigateToDomain(domains[prevIndex].id);
+    if (!adjacent?.previous) return;
+    navigateToDomain(adjacent.previous.id);
   };
 
   const handleNext = (e: React.MouseEvent) => {
     e.stopPropagation();
     e.preventDefault();
-    if (domains.length === 0) return;
-    const nextIndex = currentIndex >= domains.length - 1 ? 0 : currentIndex + 1;
-    navigateToDomain(domains[nextIndex].id);
+    if (!adjacent?.next) return;
+    navigateToDomain(adjacent.next.id);
   };
 
   const navigateToDomain = (domainId: string) => {
@@ -115,7 +226,7 @@ export function DomainSelector({ currentDomainId, currentDomainName, onDomainCha
 
   const handleContainerClick = (e: React.MouseEvent) => {
     const target = e.target as HTMLElement;
-    if (target.closest('[data-arrow]')) return;
+    if (target.closest('[data-arrow]') || target.closest('[data-search]')) return;
     toggleExpand();
   };
 
@@ -261,6 +372,11 @@ export function DomainSelector({ currentDomainId, currentDomainName, onDomainCha
 
   const displayName = currentDomainName || (domains.find((d) => d.id === currentDomainId)?.name) || (isLoading ? 'Loading...' : 'Unknown Domain');
 
+  // Only the rows inside the viewport (plus overscan) are rendered
+  const firstVisibleRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastVisibleRow = Math.min(domains.length, Math.ceil((scrollTop + LIST_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleDomains = domains.slice(firstVisibleRow, lastVisibleRow);
+
   return (
     <div
       ref={containerRef}
@@ -279,9 +395,10 @@ export function DomainSelector({ currentDomainId, currentDomainName, onDomainCha
         <button
           data-arrow
           onClick={handlePrevious}
-          disabled={isLoading || domains.length === 0}
+          disabled={!adjacent?.previous}
           className="w-8 h-8 flex items-center justify-center rounded-full bg-black/5 hover:bg-black/10 dark:bg-white/10 dark:hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           aria-label="Previous domain"
+          title={adjacent?.previous?.name}
         >
           <svg
             xmlns="http://www.w3.org/2000/svg"
@@ -324,9 +441,10 @@ export function DomainSelector({ currentDomainId, currentDomainName, onDomainCha
         <button
           data-arrow
           onClick={handleNext}
-          disabled={isLoading || domains.length === 0}
+          disabled={!adjacent?.next}
           className="w-8 h-8 flex items-center justify-center rounded-full bg-black/5 hover:bg-black/10 dark:bg-white/10 dark:hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           aria-label="Next domain"
+          title={adjacent?.next?.name}
         >
           <svg
             xmlns="http://www.w3.org/2000/svg"
@@ -347,18 +465,49 @@ export function DomainSelector({ currentDomainId, currentDomainName, onDomainCha
 
       {/* Expanded view - domain list */}
       {isExpanded && (
-        <div ref={listRef} className="p-2 max-h-[300px] overflow-y-auto">
+        <div ref={listRef} className="p-2">
+          {/* Search */}
+          <div data-search className="px-1 pb-2">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && domains.length > 0) {
+                  handleSelectDomain(domains[0].id);
+                }
+              }}
+              placeholder="Search domains"
+              aria-label="Search domains"
+              autoFocus
+              className="w-full h-9 px-3 rounded-xl bg-black/5 dark:bg-white/10 text-sm text-black dark:text-white placeholder:text-black/40 dark:placeholder:text-white/40 outline-none focus:ring-2 focus:ring-black/10 dark:focus:ring-white/20"
+            />
+          </div>
+
+          {/* Current domain stays pinned even when it is not on a loaded page */}
+          <button
+            data-domain-item
+            onClick={(e) => {
+              e.stopPropagation();
+              handleSelectDomain(currentDomainId);
+            }}
+            className="w-full text-left px-3 py-2.5 mb-1 rounded-xl text-sm bg-black/10 dark:bg-white/20 text-black dark:text-white font-medium"
+          >
+            <div className="truncate">{displayName}</div>
+            <div className="text-xs text-black/50 dark:text-white/50 mt-0.5">Current</div>
+          </button>
+
           {isLoading ? (
             <div className="flex items-center justify-center py-4">
               <div className="w-5 h-5 border-2 border-black/20 dark:border-white/20 border-t-black dark:border-t-white rounded-full animate-spin" />
             </div>
-          ) : error ? (
+          ) : error && domains.length === 0 ? (
             <div className="text-center py-4">
               <div className="text-sm text-red-500 mb-2">{error}</div>
               <button
                 onClick={(e) => {
                   e.stopPropagation();
-                  loadDomains();
+                  loadDomains(search);
                 }}
                 className="text-xs text-black/60 dark:text-white/60 hover:text-black dark:hover:text-white underline"
               >
@@ -367,31 +516,56 @@ export function DomainSelector({ currentDomainId, currentDomainName, onDomainCha
             </div>
           ) : domains.length === 0 ? (
             <div className="text-center py-4 text-sm text-black/60 dark:text-white/60">
-              No domains available
+              {search ? 'No matching domains' : 'No domains available'}
             </div>
           ) : (
-            <div className="space-y-1">
-              {domains.map((domain, index) => (
-                <button
-                  key={`${domain.id}-${index}`}
-                  data-domain-item
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleSelectDomain(domain.id);
-                  }}
-                  className={`w-full text-left px-3 py-2.5 rounded-xl text-sm transition-colors ${
-                    domain.id === currentDomainId
-                      ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white font-medium'
-                      : 'text-black/80 dark:text-white/80 hover:bg-black/5 dark:hover:bg-white/10'
-                  }`}
+            <>
+              <div
+                ref={scrollRef}
+                onScroll={handleListScroll}
+                className="overflow-y-auto"
+                style={{ maxHeight: LIST_HEIGHT }}
+              >
+                <div
+                  className="relative"
+                  style={{ height: (domains.length + (isLoadingMore ? 1 : 0)) * ROW_HEIGHT }}
                 >
-                  <div className="truncate">{domain.name}</div>
-                  {domain.id === currentDomainId && (
-                    <div className="text-xs text-black/50 dark:text-white/50 mt-0.5">Current</div>
+                  {visibleDomains.map((domain, i) => {
+                    const index = firstVisibleRow + i;
+                    return (
+                      <button
+                        key={domain.id}
+                        data-domain-item
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleSelectDomain(domain.id);
+                        }}
+                        className={`absolute left-0 right-0 flex items-center gap-3 text-left px-2 rounded-xl text-sm transition-colors ${
+                          domain.id === currentDomainId
+                            ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white font-medium'
+                            : 'text-black/80 dark:text-white/80 hover:bg-black/5 dark:hover:bg-white/10'
+                        }`}
+                        style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT - 4 }}
+                      >
+                        <DomainThumbnail domain={domain} />
+                        <div className="truncate min-w-0">{domain.name}</div>
+                      </button>
+                    );
+                  })}
+                  {isLoadingMore && (
+                    <div
+                      className="absolute left-0 right-0 flex items-center justify-center"
+                      style={{ top: domains.length * ROW_HEIGHT, height: ROW_HEIGHT }}
+                    >
+                      <div className="w-4 h-4 border-2 border-black/20 dark:border-white/20 border-t-black dark:border-t-white rounded-full animate-spin" />
+                    </div>
                   )}
-                </button>
-              ))}
-            </div>
+                </div>
+              </div>
+              <div className="px-3 pt-2 text-xs text-black/50 dark:text-white/50">
+                {domains.length} of {total} domains
+              </div>
+            </>
           )}
         </div>
       )}
@@ -2,21 +2,65 @@
 
 import { PointerLockControls } from "@react-three/drei";
 import { useFrame, useThree } from "@react-three/fiber";
-import React, { useEffect, useRef } from "react";
-import { Vector3 } from "three";
+import { cameraPoseAtom } from "@/store/camera-store";
+import { DEFAULT_FPS_SETTINGS, FPSMovementMode } from "@/store/navigation-store";
+import { NavGraph, closestNavPoint, navPointBelow } from "@/utils/navGraph";
+import { useStore } from "jotai";
+import React, { useEffect, useMemo, useRef } from "react";
+import { Matrix4, Mesh, Object3D, Quaternion, Raycaster, Vector3 } from "three";
+
+// How far ahead along the path the camera looks while auto-walking
+const LOOK_AHEAD = 1.5;
+// Walk mode keeps the eye at least this far from walls
+const BODY_RADIUS = 0.3;
+// Fractions of the eye height at which walk mode probes for walls
+const COLLISION_PROBE_HEIGHTS = [0.3, 0.9];
 
 interface FPSControlsProps {
   start: [number, number, number];
   makeDefault?: boolean;
   onExit?: () => void;
+  // Points on the floor to walk through automatically; moving manually stops the walk
+  autoWalkPath?: [number, number, number][] | null;
+  onAutoWalkEnd?: () => void;
+  mode?: FPSMovementMode;
+  eyeHeight?: number;
+  walkSpeed?: number;
+  // Walk mode keeps to this nav mesh when given
+  navGraph?: NavGraph | null;
+  // Walk mode cannot pass through this mesh when given
+  collisionMesh?: Object3D | null;
+}
+
+/**
+ * The point a given distance along a path, clamped to its ends.
+ */
+function pointAlongPath(path: [number, number, number][], distance: number, target: Vector3): Vector3 {
+  let remaining = Math.max(0, distance);
+  for (let i = 1; i < path.length; i++) {
+    const a = new Vector3(...path[i - 1]);
+    const b = new Vector3(...path[i]);
+    const segment = a.distanceTo(b);
+    if (remaining <= segment && segment > 0) return target.copy(a.lerp(b, remaining / segment));
+    remaining -= segment;
+  }
+  return target.set(...path[path.length - 1]);
 }
 
 export default function FPSControls({
   start,
   makeDefault,
-  onExit
+  onExit,
+  autoWalkPath,
+  onAutoWalkEnd,
+  mode = DEFAULT_FPS_SETTINGS.mode,
+  eyeHeight = DEFAULT_FPS_SETTINGS.eyeHeight,
+  walkSpeed = DEFAULT_FPS_SETTINGS.walkSpeed,
+  navGraph,
+  collisionMesh
 }: FPSControlsProps) {
   const { camera, gl } = useThree();
+  const jotaiStore = useStore();
   const controlsRef = useRef<any>(null);
 
   const movement = useRef({
@@ -26,6 +70,18 @@ export default function FPSControls({
     right: false,
     shift: false
   });
+  const walkedRef = useRef(0);
+  const raycaster = useMemo(() => new Raycaster(), []);
+  // Height of the floor under the camera in walk mode, null until it has been found
+  const floorRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    floorRef.current = null;
+  }, [mode, navGraph]);
+
+  useEffect(() => {
+    walkedRef.current = 0;
+  }, [autoWalkPath]);
 
   useEffect(() => {
     camera.position.set(start[0], start[1], start[2]);
@@ -108,6 +164,39 @@ export default function FPSControls({
   }, []);
 
   useFrame((_, delta) => {
+    const { forward, backward, left, right } = movement.current;
+    if (autoWalkPath && autoWalkPath.length > 1) {
+      if (forward || backward || left || right) {
+        onAutoWalkEnd?.();
+      } else {
+        const length = autoWalkPath.reduce(
+          (sum, point, i) => (i === 0 ? 0 : sum + new Vector3(...point).distanceTo(new Vector3(...autoWalkPath[i - 1]))),
+          0
+        );
+        walkedRef.current = Math.min(length, walkedRef.current + walkSpeed * delta);
+        const position = pointAlongPath(autoWalkPath, walkedRef.current, new Vector3());
+        const ahead = pointAlongPath(autoWalkPath, walkedRef.current + LOOK_AHEAD, new Vector3());
+        camera.position.set(position.x, position.y + eyeHeight, position.z);
+
+        // Turn smoothly towards the path ahead, keeping the view level
+        ahead.y = camera.position.y;
+        if (ahead.distanceToSquared(camera.position) > 1e-6) {
+          const look = new Quaternion().setFromRotationMatrix(
+            new Matrix4().lookAt(camera.position, ahead, camera.up)
+          );
+          camera.quaternion.slerp(look, 1 - Math.exp(-4 * delta));
+        }
+        floorRef.current = position.y;
+        if (walkedRef.current >= length) onAutoWalkEnd?.();
+        return;
+      }
+    }
+
+    if (mode === "walk") {
+      walk(delta);
+      return;
+    }
+
     const speed = (movement.current.shift ? 6 : 3) * delta;
     const dir = new Vector3();
     if (movement.current.forward) dir.z -= 1;
@@ -119,7 +208,100 @@ export default function FPSControls({
       const move = dir.applyQuaternion(camera.quaternion).multiplyScalar(speed);
       camera.position.add(move);
     }
-    camera.position.y = 1.8;
+    camera.position.y = eyeHeight;
+  });
+
+  /**
+   * Removes the part of a horizontal move that would take the body into a wall, so
+   * the camera slides along walls instead of stopping dead.
+   */
+  const collide = (feet: Vector3, move: Vector3) => {
+    if (!collisionMesh) return;
+    // A second pass handles corners, where the slide runs into the next wall
+    for (let pass = 0; pass < 2 && move.lengthSq() > 0; pass++) {
+      const direction = move.clone().normalize();
+      let nearest: { distance: number; normal: Vector3 } | null = null;
+      for (const fraction of COLLISION_PROBE_HEIGHTS) {
+        raycaster.set(feet.clone().setY(feet.y + eyeHeight * fraction), direction);
+        raycaster.far = move.length() + BODY_RADIUS;
+        const hit = raycaster.intersectObject(collisionMesh, true).find((h) => h.object instanceof Mesh && h.face);
+        if (hit && (!nearest || hit.distance < nearest.distance)) {
+          nearest = { distance: hit.distance, normal: hit.face!.normal.clone().transformDirection(hit.object.matrixWorld) };
+        }
+      }
+      if (!nearest) return;
+
+      const normal = nearest.normal.setY(0);
+      if (normal.lengthSq() < 1e-6) return;
+      normal.normalize();
+      if (normal.dot(direction) > 0) normal.negate();
+      // Stop at the body radius, then keep only the motion along the wall
+      const allowed = Math.max(0, nearest.distance - BODY_RADIUS);
+      const along = move.clone().sub(direction.clone().multiplyScalar(move.length() - allowed));
+      const slide = direction.clone().multiplyScalar(move.length() - allowed);
+      slide.sub(normal.clone().multiplyScalar(slide.dot(normal)));
+      feet.add(along);
+      move.copy(slide);
+    }
+  };
+
+  /**
+   * Walk mode: moves horizontally at walking speed, stops at walls and keeps the feet
+   * on the nav mesh, following its height on ramps and stairs.
+   */
+  const walk = (delta: number) => {
+    const feet = camera.position.clone();
+    feet.y -= eyeHeight;
+
+    const dir = new Vector3();
+    if (movement.current.forward) dir.z -= 1;
+    if (movement.current.backward) dir.z += 1;
+    if (movement.current.left) dir.x -= 1;
+    if (movement.current.right) dir.x += 1;
+
+    const move = new Vector3();
+    if (dir.lengthSq() > 0) {
+      // Walk along the ground whatever the pitch of the view
+      const yaw = new Vector3(0, 0, -1).applyQuaternion(camera.quaternion).setY(0);
+      if (yaw.lengthSq() > 1e-6) {
+        const forward = yaw.normalize();
+        const right = new Vector3().crossVectors(forward, camera.up).normalize();
+        move
+          .addScaledVector(forward, -dir.z)
+          .addScaledVector(right, dir.x)
+          .normalize()
+          .multiplyScalar(walkSpeed * (movement.current.shift ? 2 : 1) * delta);
+      }
+    }
+
+    collide(feet, move);
+    feet.add(move);
+
+    if (navGraph) {
+      // Off the mesh, the closest point on it is where the feet end up
+      const query = feet.clone().setY(floorRef.current ?? feet.y);
+      const snapped = navPointBelow(navGraph, query) ?? closestNavPoint(navGraph, query);
+      if (snapped) {
+        feet.set(snapped.point.x, feet.y, snapped.point.z);
+        const floor = snapped.point.y;
+        // Ease the height so steps and ramps do not jolt the view
+        floorRef.current =
+          floorRef.current === null ? floor : floorRef.current + (floor - floorRef.current) * (1 - Math.exp(-12 * delta));
+      }
+    }
+
+    camera.position.set(feet.x, (floorRef.current ?? 0) + eyeHeight, feet.z);
+  };
+
+  // Keeps the stored pose current as in map mode, so the view can be shared while walking
+  useFrame(() => {
+    const ahead = new Vector3(0, 0, -10).applyQuaternion(camera.quaternion).add(camera.position);
+    jotaiStore.set(cameraPoseAtom, {
+      position: camera.position.toArray() as [number, number, number],
+      quaternion: camera.quaternion.toArray() as [number, number, number, number],
+      zoom: 1,
+      target: ahead.toArray() as [number, number, number],
+    });
   });
 
   return <PointerLockControls ref={controlsRef} makeDefault={makeDefault} />;
@@ -0,0 +1,274 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAtomValue, useSetAtom } from 'jotai';
+import * as THREE from 'three';
+import { cameraFlyToAtom } from '@/store/camera-store';
+import { sceneBoundsAtom } from '@/store/clipping-store';
+import { navGraphAtom } from '@/store/navigation-store';
+import { useSlippyMap } from '@/hooks/useSlippyMap';
+import { eastNorthToGeo, fitGeoTransform, geoToLocal, localToGeo } from '@/utils/geoTransform';
+import { metersPerPixel } from '@/utils/mapTiles';
+import { navPointBelow } from '@/utils/navGraph';
+import type { Portal } from '@/utils/posemeshClientApi';
+
+// Camera distance from the clicked spot after jumping
+const JUMP_DISTANCE = 10;
+
+/**
+ * Pill button that opens the map view.
+ */
+export function GeoMapButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className="flex items-center justify-center w-12 h-12 bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px]"
+      title="Map"
+    >
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        width="20"
+        height="20"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className="text-black dark:text-white"
+      >
+        <path d="M14.106 5.553a2 2 0 0 0 1.788 0l3.659-1.83A1 1 0 0 1 21 4.619v12.764a1 1 0 0 1-.553.894l-4.553 2.277a2 2 0 0 1-1.788 0l-4.212-2.106a2 2 0 0 0-1.788 0l-3.659 1.83A1 1 0 0 1 3 19.381V6.618a1 1 0 0 1 .553-.894l4.553-2.277a2 2 0 0 1 1.788 0z" />
+        <path d="M15 5.764v15" />
+        <path d="M9 3.236v15" />
+      </svg>
+    </button>
+  );
+}
+
+/**
+ * Top-down map of the domain placed on the ground by a transform fitted to portal GPS
+ * fixes. Shows the domain footprint over map tiles, each portal's GPS fix against its
+ * fitted position, and the fit residuals. Clicking the map jumps the 3D camera there.
+ */
+export function GeoMapView({ portals, onClose }: { portals: Portal[] | null; onClose: () => void }) {
+  const bounds = useAtomValue(sceneBoundsAtom);
+  const navGraph = useAtomValue(navGraphAtom);
+  const setCameraFlyTo = useSetAtom(cameraFlyToAtom);
+
+  const transform = useMemo(() => (portals ? fitGeoTransform(portals) : null), [portals]);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  const { containerRef, canvasRef, canvasHandlers, size, view, fitView, toScreen, beginFrame, sources, source, setSourceId } =
+    useSlippyMap({
+      onClick: (point) => {
+        if (!transform) return;
+        const { x, z } = geoToLocal(transform, point);
+        // Land on the lowest walkable floor at the spot when there is one
+        const floor = navGraph ? navPointBelow(navGraph, new THREE.Vector3(x, bounds?.min[1] ?? 0, z)) : null;
+        const y = floor?.point.y ?? bounds?.min[1] ?? 0;
+        setCameraFlyTo({ target: [x, y, z], distance: JUMP_DISTANCE });
+        onClose();
+      },
+    });
+
+  const footprint = useMemo(() => {
+    if (!transform || !bounds) return null;
+    const [minX, , minZ] = bounds.min;
+    const [maxX, , maxZ] = bounds.max;
+    return [
+      [minX, minZ],
+      [maxX, minZ],
+      [maxX, maxZ],
+      [minX, maxZ],
+    ].map(([x, z]) => localToGeo(transform, x, z));
+  }, [transform, bounds]);
+
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  // Fit the view to the domain footprint, or the GPS fixes when the footprint is unknown
+  useEffect(() => {
+    if (view || !transform || size.width === 0) return;
+    fitView(footprint ?? transform.residuals.map((r) => eastNorthToGeo(r.gps, transform.origin)), 0.6, 21);
+  }, [view, transform, footprint, size, fitView]);
+
+  // Draw tiles, footprint, portals and residuals
+  useEffect(() => {
+    const ctx = beginFrame();
+    if (!ctx || !view || !transform) return;
+
+    if (footprint) {
+      ctx.beginPath();
+      footprint.forEach((point, i) => {
+        const [sx, sy] = toScreen(point);
+        if (i === 0) ctx.moveTo(sx, sy);
+        else ctx.lineTo(sx, sy);
+      });
+      ctx.closePath();
+      ctx.fillStyle = 'rgba(56, 189, 248, 0.15)';
+      ctx.fill();
+      ctx.strokeStyle = '#0284c7';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+
+    const pixelMeters = metersPerPixel(view.center.lat, view.zoom);
+    for (const residual of transform.residuals) {
+      const [gx, gy] = toScreen(eastNorthToGeo(residual.gps, transform.origin));
+      const [fx, fy] = toScreen(eastNorthToGeo(residual.fitted, transform.origin));
+      const hovered = residual.portalId === hoveredId;
+      const outlier = residual.error > residual.accuracy;
+
+      // GPS accuracy circle
+      ctx.beginPath();
+      ctx.arc(gx, gy, Math.max(2, residual.accuracy / pixelMeters), 0, Math.PI * 2);
+      ctx.fillStyle = hovered ? 'rgba(249, 115, 22, 0.2)' : 'rgba(249, 115, 22, 0.08)';
+      ctx.fill();
+      ctx.strokeStyle = 'rgba(249, 115, 22, 0.6)';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+
+      // Residual from the GPS fix to the fitted position
+      ctx.beginPath();
+      ctx.moveTo(gx, gy);
+      ctx.lineTo(fx, fy);
+      ctx.strokeStyle = outlier ? '#ef4444' : '#f97316';
+      ctx.lineWidth = hovered ? 3 : 2;
+      ctx.stroke();
+
+      ctx.beginPath();
+      ctx.arc(gx, gy, 4, 0, Math.PI * 2);
+      ctx.fillStyle = '#ffffff';
+      ctx.fill();
+      ctx.strokeStyle = '#f97316';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+
+      ctx.beginPath();
+      ctx.arc(fx, fy, hovered ? 6 : 5, 0, Math.PI * 2);
+      ctx.fillStyle = '#0284c7';
+      ctx.fill();
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+
+      ctx.font = '500 11px sans-serif';
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.strokeText(residual.shortId, fx + 8, fy - 8);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(residual.shortId, fx + 8, fy - 8);
+    }
+  }, [beginFrame, view, transform, footprint, hoveredId, toScreen]);
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 z-40 bg-[#f2efe9] dark:bg-[#1a1a1a]">
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+        {...canvasHandlers}
+      />
+
+      {!transform && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <div className="px-4 py-3 bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px] text-sm text-black/70 dark:text-white/70 text-center max-w-xs">
+            {portals === null
+              ? 'Loading portals…'
+              : 'The map needs at least two portals with a GPS fix to place this domain.'}
+          </div>
+        </div>
+      )}
+
+      <div className="absolute top-24 left-6 w-[280px] max-h-[calc(100vh-12rem)] flex flex-col bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px] overflow-hidden">
+        <div className="flex items-center justify-between h-12 px-4 border-b border-black/10 dark:border-white/10">
+          <span className="text-sm font-medium text-black dark:text-white">Map</span>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-black/10 dark:hover:bg-white/10 transition-colors"
+            title="Close"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="14"
+              height="14"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="text-black/50 dark:text-white/50"
+            >
+              <path d="M18 6 6 18" />
+              <path d="m6 6 12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-3 space-y-3 overflow-y-auto">
+          <div className="space-y-2">
+            <span className="text-xs font-medium text-black/70 dark:text-white/70">Tiles</span>
+            <div className="flex gap-1">
+              {sources.map((s) => (
+                <button
+                  key={s.id}
+                  onClick={() => setSourceId(s.id)}
+                  className={`flex-1 px-2 py-1 rounded-xl text-xs transition-colors ${
+                    s.id === source.id
+                      ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white'
+                      : 'text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+                  }`}
+                >
+                  {s.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {transform && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-black/70 dark:text-white/70">Fit residuals</span>
+                <span className="text-xs text-black/50 dark:text-white/50">RMSE {transform.rmse.toFixed(2)} m</span>
+              </div>
+              {transform.residuals.map((residual) => (
+                <div
+                  key={residual.portalId}
+                  onMouseEnter={() => setHoveredId(residual.portalId)}
+                  onMouseLeave={() => setHoveredId(null)}
+                  className="flex items-center justify-between px-2 py-1 rounded-xl hover:bg-black/5 dark:hover:bg-white/10"
+                >
+                  <span className="text-sm text-black dark:text-white">{residual.shortId}</span>
+                  <span
+                    className={`text-xs ${
+                      residual.error > residual.accuracy ? 'text-red-500' : 'text-black/60 dark:text-white/60'
+                    }`}
+                    title="Distance from GPS fix / reported accuracy"
+                  >
+                    {residual.error.toFixed(2)} m / ±{residual.accuracy.toFixed(1)} m
+                  </span>
+                </div>
+              ))}
+              <p className="text-xs text-black/50 dark:text-white/50">Click the map to move the camera there.</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {source.attribution && (
+        <div className="absolute bottom-1 right-2 text-[10px] text-black/60 dark:text-white/60 pointer-events-none">
+          {source.attribution}
+        </div>
+      )}
+    </div>
+  );
+}
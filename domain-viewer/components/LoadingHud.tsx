@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import gsap from 'gsap';
+import { formatBytes } from '@/lib/utils';
+import { DOMAIN_LAYERS, DomainLayer, LayerState } from '@/hooks/useDomainLoader';
+
+interface LoadingHudProps {
+  layers: Record<DomainLayer, LayerState>;
+  onRetry: (layer: DomainLayer) => void;
+}
+
+const LAYER_LABELS: Record<DomainLayer, string> = {
+  info: 'Domain',
+  portals: 'Portals',
+  manifest: 'Manifest',
+  navmesh: 'Nav Mesh',
+  occlusion: 'Occlusion',
+  metadata: 'Metadata',
+  pointcloud: 'Point Cloud',
+};
+
+// How long the HUD stays up after everything has loaded
+const HIDE_DELAY_MS = 1500;
+
+function describe(state: LayerState): string {
+  switch (state.status) {
+    case 'pending':
+      return 'Waiting';
+    case 'loading':
+      if (state.loaded === 0) return 'Loading...';
+      return state.total ? `${formatBytes(state.loaded)} / ${formatBytes(state.total)}` : formatBytes(state.loaded);
+    case 'loaded':
+      return 'Loaded';
+    case 'missing':
+      return 'Not available';
+    case 'blocked':
+      return 'Skipped';
+    case 'error':
+      return 'Failed';
+  }
+}
+
+/**
+ * Shows the load status and download progress of every domain layer,
+ * with a retry button for layers that failed.
+ */
+export function LoadingHud({ layers, onRetry }: LoadingHudProps) {
+  const [visible, setVisible] = useState(true);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const isBusy = DOMAIN_LAYERS.some((layer) => layers[layer].status === 'loading' || layers[layer].status === 'pending');
+  const hasErrors = DOMAIN_LAYERS.some((layer) => layers[layer].status === 'error');
+
+  useEffect(() => {
+    if (isBusy || hasErrors) {
+      setVisible(true);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      if (!containerRef.current) return;
+      gsap.to(containerRef.current, {
+        opacity: 0,
+        y: -10,
+        duration: 0.3,
+        ease: 'power2.in',
+        onComplete: () => setVisible(false),
+      });
+    }, HIDE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [isBusy, hasErrors]);
+
+  useEffect(() => {
+    if (visible && containerRef.current) {
+      gsap.fromTo(containerRef.current, { opacity: 0, y: -10 }, { opacity: 1, y: 0, duration: 0.3, ease: 'power2.out' });
+    }
+  }, [visible]);
+
+  if (!visible) return null;
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-[240px] p-3 bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px] space-y-2"
+    >
+      {DOMAIN_LAYERS.map((layer) => {
+        const state = layers[layer];
+        const fraction =
+          state.status === 'loaded'
+            ? 1
+            : state.status === 'loading' && state.total
+              ? Math.min(1, state.loaded / state.total)
+              : 0;
+
+        return (
+          <div key={layer} className="flex flex-col gap-1">
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="text-black dark:text-white">{LAYER_LABELS[layer]}</span>
+              <div className="flex items-center gap-2">
+                <span
+                  className={state.status === 'error' ? 'text-red-500' : 'text-black/50 dark:text-white/50'}
+                  title={state.error}
+                >
+                  {describe(state)}
+                </span>
+                {state.status === 'error' && (
+                  <button
+                    onClick={() => onRetry(layer)}
+                    className="text-black/60 dark:text-white/60 hover:text-black dark:hover:text-white underline"
+                  >
+                    Retry
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="h-1 rounded-full bg-black/10 dark:bg-white/10 overflow-hidden">
+              <div
+                className={`h-full rounded-full transition-[width] duration-200 ${
+                  state.status === 'error' ? 'bg-red-500' : 'bg-black dark:bg-white'
+                } ${state.status === 'loading' && !state.total ? 'animate-pulse w-full opacity-30' : ''}`}
+                style={state.status === 'loading' && !state.total ? undefined : { width: `${fraction * 100}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
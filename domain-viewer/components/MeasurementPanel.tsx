@@ -0,0 +1,343 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import gsap from 'gsap';
+import { useAtom, useSetAtom } from 'jotai';
+import {
+  MeasurementType,
+  activeMeasurementToolAtom,
+  draftMeasurementPointsAtom,
+  measurementsAtom,
+  selectedMeasurementIdAtom,
+} from '@/store/measurement-store';
+import { routePickAtom } from '@/store/navigation-store';
+import {
+  MEASUREMENT_LABELS,
+  downloadText,
+  formatMeasurement,
+  measurementsToCSV,
+  measurementsToJSON,
+} from '@/utils/measurement';
+
+const TOOL_HINTS: Record<MeasurementType, string> = {
+  distance: 'Click two points.',
+  polyline: 'Click points, then press Enter or double-click to finish.',
+  area: 'Click the corners, then press Enter or double-click to close.',
+  height: 'Click a point to measure its height above the floor.',
+};
+
+/**
+ * Panel for picking a measurement tool and for listing, selecting and exporting
+ * the measurements taken in the current domain.
+ *
+ * @param domainId - Measurements are cleared when the domain changes
+ */
+export function MeasurementPanel({ domainId }: { domainId: string }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [mounted, setMounted] = useState(false);
+  const [tool, setTool] = useAtom(activeMeasurementToolAtom);
+  const [draft, setDraft] = useAtom(draftMeasurementPointsAtom);
+  const [measurements, setMeasurements] = useAtom(measurementsAtom);
+  const [selectedId, setSelectedId] = useAtom(selectedMeasurementIdAtom);
+  const setRoutePick = useSetAtom(routePickAtom);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const titleRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const handleContainerClick = () => {
+    toggleExpand();
+  };
+
+  const toggleExpand = useCallback(() => {
+    if (!containerRef.current) return;
+
+    if (!isExpanded) {
+      setIsExpanded(true);
+
+      requestAnimationFrame(() => {
+        if (!containerRef.current) return;
+
+        const tl = gsap.timeline();
+
+        tl.to(containerRef.current, {
+          width: '280px',
+          duration: 0.3,
+          ease: 'power2.out',
+        });
+
+        if (titleRef.current) {
+          tl.fromTo(
+            titleRef.current,
+            { opacity: 0 },
+            { opacity: 1, duration: 0.2, ease: 'power2.out' },
+            '-=0.1'
+          );
+        }
+
+        tl.to(
+          containerRef.current,
+          {
+            height: 'auto',
+            duration: 0.4,
+            ease: 'power3.out',
+          },
+          '-=0.1'
+        );
+
+        if (listRef.current) {
+          tl.fromTo(
+            listRef.current,
+            { opacity: 0, y: 10 },
+            { opacity: 1, y: 0, duration: 0.3, ease: 'power2.out' },
+            '-=0.2'
+          );
+        }
+      });
+    } else {
+      const tl = gsap.timeline({
+        onComplete: () => setIsExpanded(false),
+      });
+
+      if (listRef.current) {
+        tl.to(listRef.current, {
+          opacity: 0,
+          y: -10,
+          duration: 0.2,
+          ease: 'power2.in',
+        });
+      }
+
+      if (titleRef.current) {
+        tl.to(
+          titleRef.current,
+          {
+            opacity: 0,
+            duration: 0.15,
+            ease: 'power2.in',
+          },
+          listRef.current ? '-=0.1' : 0
+        );
+      }
+
+      tl.to(
+        containerRef.current,
+        {
+          height: '48px',
+          duration: 0.3,
+          ease: 'power3.inOut',
+        },
+        '-=0.1'
+      );
+
+      tl.to(
+        containerRef.current,
+        {
+          width: '48px',
+          duration: 0.25,
+          ease: 'power2.inOut',
+        },
+        '-=0.2'
+      );
+    }
+  }, [isExpanded]);
+
+  // Close on click outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (isExpanded && containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        toggleExpand();
+      }
+    };
+
+    if (isExpanded) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isExpanded, toggleExpand]);
+
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isExpanded) {
+        toggleExpand();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isExpanded, toggleExpand]);
+
+  useEffect(() => {
+    setMeasurements([]);
+    setSelectedId(null);
+    setDraft([]);
+  }, [domainId, setMeasurements, setSelectedId, setDraft]);
+
+  const removeMeasurement = (id: string) => {
+    setMeasurements(measurements.filter((measurement) => measurement.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const exportMeasurements = (format: 'json' | 'csv') => {
+    const filename = `measurements-${domainId}.${format}`;
+    if (format === 'json') {
+      downloadText(filename, measurementsToJSON(measurements, domainId), 'application/json');
+    } else {
+      downloadText(filename, measurementsToCSV(measurements), 'text/csv');
+    }
+  };
+
+  const isActive = tool !== null || measurements.length > 0;
+
+  if (!mounted) return null;
+
+  return (
+    <div
+      ref={containerRef}
+      onClick={!isExpanded ? handleContainerClick : undefined}
+      className="bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px] cursor-pointer overflow-hidden"
+      style={{
+        width: '48px',
+        height: '48px',
+      }}
+    >
+      {/* Collapsed view - icon button */}
+      <div
+        className={`flex items-center justify-center h-12 ${isExpanded ? 'border-b border-black/10 dark:border-white/10' : ''}`}
+      >
+        {!isExpanded ? (
+          <div className="relative">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="text-black dark:text-white"
+            >
+              <path d="M21.3 15.3a2.4 2.4 0 0 1 0 3.4l-2.6 2.6a2.4 2.4 0 0 1-3.4 0L2.7 8.7a2.41 2.41 0 0 1 0-3.4l2.6-2.6a2.41 2.41 0 0 1 3.4 0Z" />
+              <path d="m14.5 12.5 2-2" />
+              <path d="m11.5 9.5 2-2" />
+              <path d="m8.5 6.5 2-2" />
+              <path d="m17.5 15.5 2-2" />
+            </svg>
+            {isActive && <div className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-orange-500 rounded-full" />}
+          </div>
+        ) : (
+          <span ref={titleRef} className="text-sm font-medium text-black dark:text-white px-4 opacity-0">Measure</span>
+        )}
+      </div>
+
+      {/* Expanded view - tools and measurement list */}
+      {isExpanded && (
+        <div ref={listRef} className="p-3 space-y-3 cursor-default">
+          <div className="grid grid-cols-2 gap-1">
+            {(Object.keys(MEASUREMENT_LABELS) as MeasurementType[]).map((type) => (
+              <button
+                key={type}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setRoutePick(null);
+                  setTool(tool === type ? null : type);
+                }}
+                className={`px-2 py-1.5 rounded-xl text-xs transition-colors ${
+                  tool === type
+                    ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white font-medium'
+                    : 'text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+                }`}
+              >
+                {MEASUREMENT_LABELS[type]}
+              </button>
+            ))}
+          </div>
+
+          {tool && (
+            <p className="text-xs text-black/50 dark:text-white/50">
+              {TOOL_HINTS[tool]}
+              {draft.length > 0 && ` ${draft.length} point${draft.length === 1 ? '' : 's'} placed.`}
+            </p>
+          )}
+
+          <div className="border-b border-black/5 dark:border-white/5" />
+
+          {measurements.length === 0 ? (
+            <p className="text-xs text-black/50 dark:text-white/50">No measurements yet.</p>
+          ) : (
+            <div className="max-h-[240px] overflow-y-auto flex flex-col gap-1">
+              {measurements.map((measurement, index) => (
+                <div
+                  key={measurement.id}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSelectedId(selectedId === measurement.id ? null : measurement.id);
+                  }}
+                  className={`flex items-center justify-between px-3 py-2 rounded-xl text-sm cursor-pointer transition-colors ${
+                    selectedId === measurement.id
+                      ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white'
+                      : 'text-black/70 dark:text-white/70 hover:bg-black/5 dark:hover:bg-white/10'
+                  }`}
+                >
+                  <span>
+                    {MEASUREMENT_LABELS[measurement.type]} {index + 1}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <span className="text-xs font-medium">{formatMeasurement(measurement)}</span>
+                    <button
+                      aria-label="Delete measurement"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeMeasurement(measurement.id);
+                      }}
+                      className="text-black/40 dark:text-white/40 hover:text-black dark:hover:text-white"
+                    >
+                      ×
+                    </button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {measurements.length > 0 && (
+            <div className="flex items-center gap-2 text-xs">
+              {(['json', 'csv'] as const).map((format) => (
+                <button
+                  key={format}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    exportMeasurements(format);
+                  }}
+                  className="px-2 py-1.5 rounded-xl text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10"
+                >
+                  Export {format.toUpperCase()}
+                </button>
+              ))}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setMeasurements([]);
+                  setSelectedId(null);
+                }}
+                className="ml-auto px-2 py-1.5 rounded-xl text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10"
+              >
+                Clear all
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import gsap from 'gsap';
+import { useAtom, useAtomValue } from 'jotai';
+import {
+  PointColorMode,
+  PointShape,
+  pointCloudAttributesAtom,
+  pointCloudStyleAtom,
+} from '@/store/point-cloud-store';
+
+const COLOR_MODES: { id: PointColorMode; label: string }[] = [
+  { id: 'rgb', label: 'RGB' },
+  { id: 'elevation', label: 'Elevation' },
+  { id: 'distance', label: 'Distance' },
+  { id: 'intensity', label: 'Intensity' },
+  { id: 'normals', label: 'Normals' },
+];
+
+const SHAPES: { id: PointShape; label: string }[] = [
+  { id: 'square', label: 'Square' },
+  { id: 'round', label: 'Round' },
+];
+
+/**
+ * Panel for the point cloud's color mode, splat shape, point size and eye-dome lighting.
+ */
+export function PointCloudStylePanel() {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [mounted, setMounted] = useState(false);
+  const [style, setStyle] = useAtom(pointCloudStyleAtom);
+  const attributes = useAtomValue(pointCloudAttributesAtom);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const titleRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const handleContainerClick = () => {
+    toggleExpand();
+  };
+
+  const toggleExpand = useCallback(() => {
+    if (!containerRef.current) return;
+
+    if (!isExpanded) {
+      setIsExpanded(true);
+
+      requestAnimationFrame(() => {
+        if (!containerRef.current) return;
+
+        const tl = gsap.timeline();
+
+        tl.to(containerRef.current, {
+          width: '240px',
+          duration: 0.3,
+          ease: 'power2.out',
+        });
+
+        if (titleRef.current) {
+          tl.fromTo(
+            titleRef.current,
+            { opacity: 0 },
+            { opacity: 1, duration: 0.2, ease: 'power2.out' },
+            '-=0.1'
+          );
+        }
+
+        tl.to(
+          containerRef.current,
+          {
+            height: 'auto',
+            duration: 0.4,
+            ease: 'power3.out',
+          },
+          '-=0.1'
+        );
+
+        if (listRef.current) {
+          tl.fromTo(
+            listRef.current,
+            { opacity: 0, y: 10 },
+            { opacity: 1, y: 0, duration: 0.3, ease: 'power2.out' },
+            '-=0.2'
+          );
+        }
+      });
+    } else {
+      const tl = gsap.timeline({
+        onComplete: () => setIsExpanded(false),
+      });
+
+      if (listRef.current) {
+        tl.to(listRef.current, {
+          opacity: 0,
+          y: -10,
+          duration: 0.2,
+          ease: 'power2.in',
+        });
+      }
+
+      if (titleRef.current) {
+        tl.to(
+          titleRef.current,
+          {
+            opacity: 0,
+            duration: 0.15,
+            ease: 'power2.in',
+          },
+          listRef.current ? '-=0.1' : 0
+        );
+      }
+
+      tl.to(
+        containerRef.current,
+        {
+          height: '48px',
+          duration: 0.3,
+          ease: 'power3.inOut',
+        },
+        '-=0.1'
+      );
+
+      tl.to(
+        containerRef.current,
+        {
+          width: '48px',
+          duration: 0.25,
+          ease: 'power2.inOut',
+        },
+        '-=0.2'
+      );
+    }
+  }, [isExpanded]);
+
+  // Close on click outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (isExpanded && containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        toggleExpand();
+      }
+    };
+
+    if (isExpanded) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isExpanded, toggleExpand]);
+
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isExpanded) {
+        toggleExpand();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isExpanded, toggleExpand]);
+
+  const isModeAvailable = (mode: PointColorMode) => {
+    if (!attributes) return true;
+    if (mode === 'normals') return attributes.hasNormals;
+    if (mode === 'intensity') return attributes.hasIntensities;
+    return true;
+  };
+
+  const optionClass = (active: boolean) =>
+    `px-2 py-1.5 rounded-xl text-xs transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+      active
+        ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white font-medium'
+        : 'text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+    }`;
+
+  if (!mounted) return null;
+
+  return (
+    <div
+      ref={containerRef}
+      onClick={!isExpanded ? handleContainerClick : undefined}
+      className="bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px] cursor-pointer overflow-hidden"
+      style={{
+        width: '48px',
+        height: '48px',
+      }}
+    >
+      {/* Collapsed view - icon button */}
+      <div
+        className={`flex items-center justify-center h-12 ${isExpanded ? 'border-b border-black/10 dark:border-white/10' : ''}`}
+      >
+        {!isExpanded ? (
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className="text-black dark:text-white"
+          >
+            <circle cx="13.5" cy="6.5" r="1.5" />
+            <circle cx="17.5" cy="10.5" r="1.5" />
+            <circle cx="8.5" cy="7.5" r="1.5" />
+            <circle cx="6.5" cy="12.5" r="1.5" />
+            <path d="M12 2C6.5 2 2 6.5 2 12s4.5 10 10 10c.926 0 1.648-.746 1.648-1.688 0-.437-.18-.835-.437-1.125-.29-.289-.438-.652-.438-1.125a1.64 1.64 0 0 1 1.668-1.668h1.996c3.051 0 5.555-2.503 5.555-5.554C21.965 6.012 17.461 2 12 2z" />
+          </svg>
+        ) : (
+          <span ref={titleRef} className="text-sm font-medium text-black dark:text-white px-4 opacity-0">Point Style</span>
+        )}
+      </div>
+
+      {/* Expanded view - shading options */}
+      {isExpanded && (
+        <div ref={listRef} className="p-3 space-y-3 cursor-default">
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-black/50 dark:text-white/50">Color</span>
+            <div className="grid grid-cols-3 gap-1">
+              {COLOR_MODES.map((mode) => (
+                <button
+                  key={mode.id}
+                  disabled={!isModeAvailable(mode.id)}
+                  title={isModeAvailable(mode.id) ? undefined : 'Not available for this point cloud'}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setStyle({ ...style, colorMode: mode.id });
+                  }}
+                  className={optionClass(style.colorMode === mode.id)}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-black/50 dark:text-white/50">Shape</span>
+            <div className="flex gap-1">
+              {SHAPES.map((shape) => (
+                <button
+                  key={shape.id}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setStyle({ ...style, shape: shape.id });
+                  }}
+                  className={`flex-1 ${optionClass(style.shape === shape.id)}`}
+                >
+                  {shape.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-black/50 dark:text-white/50">Point size</span>
+              <span className="text-black dark:text-white">{style.pointSize.toFixed(2)}x</span>
+            </div>
+            <input
+              type="range"
+              min={0.25}
+              max={4}
+              step={0.05}
+              value={style.pointSize}
+              onChange={(e) => setStyle({ ...style, pointSize: Number(e.target.value) })}
+              className="w-full accent-black dark:accent-white"
+            />
+            <label className="flex items-center gap-2 text-xs text-black dark:text-white cursor-pointer">
+              <input
+                type="checkbox"
+                checked={style.adaptiveSize}
+                onChange={(e) => setStyle({ ...style, adaptiveSize: e.target.checked })}
+                className="accent-black dark:accent-white"
+              />
+              Adaptive size
+            </label>
+          </div>
+
+          <div className="border-b border-black/5 dark:border-white/5" />
+
+          <div className="flex flex-col gap-1">
+            <label className="flex items-center gap-2 text-xs text-black dark:text-white cursor-pointer">
+              <input
+                type="checkbox"
+                checked={style.edl}
+                onChange={(e) => setStyle({ ...style, edl: e.target.checked })}
+                className="accent-black dark:accent-white"
+              />
+              Eye-dome lighting
+            </label>
+            {style.edl && (
+              <input
+                type="range"
+                min={0.1}
+                max={3}
+                step={0.1}
+                value={style.edlStrength}
+                onChange={(e) => setStyle({ ...style, edlStrength: Number(e.target.value) })}
+                className="w-full accent-black dark:accent-white"
+                aria-label="Eye-dome lighting strength"
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
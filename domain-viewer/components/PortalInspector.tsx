@@ -0,0 +1,155 @@
+'use client';
+
+import { useAtom, useSetAtom } from 'jotai';
+import { portalFlyToAtom, selectedPortalIdAtom } from '@/store/portal-store';
+import type { Portal } from '@/utils/posemeshClientApi';
+
+interface PortalField {
+  label: string;
+  value: string;
+  copyable?: boolean;
+}
+
+const formatDate = (value: string | number | undefined) => {
+  if (value === undefined || value === null || value === '') return 'N/A';
+  // GPS timestamps arrive as Unix seconds
+  const date = typeof value === 'number' ? new Date(value < 1e12 ? value * 1000 : value) : new Date(value);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleString('en-US');
+};
+
+const formatNumber = (value: number | undefined, digits: number, unit = '') =>
+  value === undefined || value === null ? 'N/A' : `${value.toFixed(digits)}${unit}`;
+
+function portalFields(portal: Portal): { title: string; fields: PortalField[] }[] {
+  return [
+    {
+      title: 'Marker',
+      fields: [
+        { label: 'Short ID', value: portal.short_id, copyable: true },
+        { label: 'Portal ID', value: portal.id, copyable: true },
+        { label: 'Domain ID', value: portal.domain_id, copyable: true },
+        { label: 'Placed', value: formatDate(portal.placed_at) },
+        { label: 'Reported size', value: formatNumber(portal.reported_size, 1, ' cm') },
+      ],
+    },
+    {
+      title: 'Pose',
+      fields: [
+        {
+          label: 'Position',
+          value: [portal.px, portal.py, portal.pz].map((v) => formatNumber(v, 3)).join(', '),
+        },
+        {
+          label: 'Rotation (x, y, z, w)',
+          value: [portal.rx, portal.ry, portal.rz, portal.rw].map((v) => formatNumber(v, 3)).join(', '),
+        },
+      ],
+    },
+    {
+      title: 'GPS',
+      fields: [
+        { label: 'Latitude', value: formatNumber(portal.latitude, 7) },
+        { label: 'Longitude', value: formatNumber(portal.longitude, 7) },
+        { label: 'Altitude', value: formatNumber(portal.altitude, 2, ' m') },
+        { label: 'Horizontal accuracy', value: formatNumber(portal.horizontal_accuracy, 2, ' m') },
+        { label: 'Vertical accuracy', value: formatNumber(portal.vertical_accuracy, 2, ' m') },
+        { label: 'GPS time', value: formatDate(portal.gps_timestamp) },
+      ],
+    },
+    {
+      title: 'Scanner',
+      fields: [
+        { label: 'Device name', value: portal.scanner_device_name || 'N/A' },
+        { label: 'Device model', value: portal.scanner_device_model || 'N/A' },
+        { label: 'Device ID', value: portal.scanner_device_id || 'N/A', copyable: true },
+      ],
+    },
+  ];
+}
+
+/**
+ * Card listing every field of the selected portal, with a button to fly the camera to it.
+ */
+export function PortalInspector({ portals }: { portals: Portal[] | null }) {
+  const [selectedId, setSelectedId] = useAtom(selectedPortalIdAtom);
+  const setFlyTo = useSetAtom(portalFlyToAtom);
+
+  const portal = portals?.find((p) => p.id === selectedId);
+  if (!portal) return null;
+
+  return (
+    <div className="w-[300px] max-h-[calc(100vh-8rem)] overflow-y-auto bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px]">
+      <div className="flex items-center justify-between h-12 px-4 border-b border-black/10 dark:border-white/10">
+        <span className="text-sm font-medium text-black dark:text-white">Portal {portal.short_id}</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setFlyTo({ portalId: portal.id })}
+            className="px-2 py-1 rounded-xl text-xs text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10"
+          >
+            Fly to
+          </button>
+          <button
+            onClick={() => setSelectedId(null)}
+            className="p-1 rounded hover:bg-black/10 dark:hover:bg-white/10 transition-colors"
+            title="Close"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="14"
+              height="14"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="text-black/50 dark:text-white/50"
+            >
+              <path d="M18 6 6 18" />
+              <path d="m6 6 12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="p-3 space-y-3">
+        {portalFields(portal).map((group) => (
+          <div key={group.title} className="space-y-2">
+            <span className="text-xs font-medium text-black/70 dark:text-white/70">{group.title}</span>
+            {group.fields.map((field) => (
+              <div key={field.label} className="flex flex-col gap-0.5">
+                <span className="text-xs text-black/50 dark:text-white/50">{field.label}</span>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-black dark:text-white truncate flex-1">{field.value}</span>
+                  {field.copyable && (
+                    <button
+                      onClick={() => navigator.clipboard.writeText(field.value)}
+                      className="p-1 rounded hover:bg-black/10 dark:hover:bg-white/10 transition-colors flex-shrink-0"
+                      title="Copy to clipboard"
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        width="14"
+                        height="14"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        className="text-black/50 dark:text-white/50"
+                      >
+                        <rect width="14" height="14" x="8" y="8" rx="2" ry="2" />
+                        <path d="M4 16c-1.1 0-2-.9-2-2V4c0-1.1.9-2 2-2h10c1.1 0 2 .9 2 2" />
+                      </svg>
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
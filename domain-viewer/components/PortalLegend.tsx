@@ -0,0 +1,29 @@
+'use client';
+
+import { useAtomValue } from 'jotai';
+import { portalOverlayAtom } from '@/store/portal-store';
+import { UNKNOWN_COLOR, colorBins } from '@/utils/portalAccuracy';
+
+/**
+ * Explains the portal color scale while portals are colored by accuracy or age.
+ */
+export function PortalLegend() {
+  const { colorMode } = useAtomValue(portalOverlayAtom);
+  if (colorMode === 'none') return null;
+
+  const entries = [...colorBins(colorMode), { color: UNKNOWN_COLOR, label: 'Unknown' }];
+
+  return (
+    <div className="bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px] px-4 py-3 space-y-1.5">
+      <span className="text-xs font-medium text-black/70 dark:text-white/70">
+        {colorMode === 'accuracy' ? 'GPS accuracy (worst axis)' : 'Time since placed'}
+      </span>
+      {entries.map((entry) => (
+        <div key={entry.label} className="flex items-center gap-2 text-xs text-black dark:text-white">
+          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: entry.color }} />
+          {entry.label}
+        </div>
+      ))}
+    </div>
+  );
+}
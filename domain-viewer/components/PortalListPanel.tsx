@@ -0,0 +1,309 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import gsap from 'gsap';
+import { useAtom, useSetAtom } from 'jotai';
+import {
+  PortalColorMode,
+  hoveredPortalIdAtom,
+  portalFlyToAtom,
+  portalOverlayAtom,
+  selectedPortalIdAtom,
+} from '@/store/portal-store';
+import type { Portal } from '@/utils/posemeshClientApi';
+
+const COLOR_MODES: { mode: PortalColorMode; label: string }[] = [
+  { mode: 'none', label: 'None' },
+  { mode: 'accuracy', label: 'Accuracy' },
+  { mode: 'age', label: 'Age' },
+];
+
+/**
+ * Searchable list of the domain's portals, with toggles for the accuracy overlays.
+ * Choosing a portal selects it and flies the camera to it.
+ */
+export function PortalListPanel({ portals }: { portals: Portal[] | null }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [mounted, setMounted] = useState(false);
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useAtom(selectedPortalIdAtom);
+  const [hoveredId, setHoveredId] = useAtom(hoveredPortalIdAtom);
+  const setFlyTo = useSetAtom(portalFlyToAtom);
+  const [overlay, setOverlay] = useAtom(portalOverlayAtom);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const titleRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const handleContainerClick = () => {
+    toggleExpand();
+  };
+
+  const toggleExpand = useCallback(() => {
+    if (!containerRef.current) return;
+
+    if (!isExpanded) {
+      setIsExpanded(true);
+
+      requestAnimationFrame(() => {
+        if (!containerRef.current) return;
+
+        const tl = gsap.timeline();
+
+        tl.to(containerRef.current, {
+          width: '280px',
+          duration: 0.3,
+          ease: 'power2.out',
+        });
+
+        if (titleRef.current) {
+          tl.fromTo(
+            titleRef.current,
+            { opacity: 0 },
+            { opacity: 1, duration: 0.2, ease: 'power2.out' },
+            '-=0.1'
+          );
+        }
+
+        tl.to(
+          containerRef.current,
+          {
+            height: 'auto',
+            duration: 0.4,
+            ease: 'power3.out',
+          },
+          '-=0.1'
+        );
+
+        if (listRef.current) {
+          tl.fromTo(
+            listRef.current,
+            { opacity: 0, y: 10 },
+            { opacity: 1, y: 0, duration: 0.3, ease: 'power2.out' },
+            '-=0.2'
+          );
+        }
+      });
+    } else {
+      const tl = gsap.timeline({
+        onComplete: () => setIsExpanded(false),
+      });
+
+      if (listRef.current) {
+        tl.to(listRef.current, {
+          opacity: 0,
+          y: -10,
+          duration: 0.2,
+          ease: 'power2.in',
+        });
+      }
+
+      if (titleRef.current) {
+        tl.to(
+          titleRef.current,
+          {
+            opacity: 0,
+            duration: 0.15,
+            ease: 'power2.in',
+          },
+          listRef.current ? '-=0.1' : 0
+        );
+      }
+
+      tl.to(
+        containerRef.current,
+        {
+          height: '48px',
+          duration: 0.3,
+          ease: 'power3.inOut',
+        },
+        '-=0.1'
+      );
+
+      tl.to(
+        containerRef.current,
+        {
+          width: '48px',
+          duration: 0.25,
+          ease: 'power2.inOut',
+        },
+        '-=0.2'
+      );
+    }
+  }, [isExpanded]);
+
+  // Close on click outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (isExpanded && containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        toggleExpand();
+      }
+    };
+
+    if (isExpanded) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isExpanded, toggleExpand]);
+
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isExpanded) {
+        toggleExpand();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isExpanded, toggleExpand]);
+
+  const search = query.trim().toLowerCase();
+  const filtered = (portals ?? []).filter(
+    (portal) =>
+      !search ||
+      [portal.short_id, portal.id, portal.scanner_device_name, portal.scanner_device_model].some((value) =>
+        value?.toLowerCase().includes(search)
+      )
+  );
+
+  if (!mounted) return null;
+
+  return (
+    <div
+      ref={containerRef}
+      onClick={!isExpanded ? handleContainerClick : undefined}
+      className="bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px] cursor-pointer overflow-hidden"
+      style={{
+        width: '48px',
+        height: '48px',
+      }}
+    >
+      {/* Collapsed view - icon button */}
+      <div
+        className={`flex items-center justify-center h-12 ${isExpanded ? 'border-b border-black/10 dark:border-white/10' : ''}`}
+      >
+        {!isExpanded ? (
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className="text-black dark:text-white"
+          >
+            <rect width="5" height="5" x="3" y="3" rx="1" />
+            <rect width="5" height="5" x="16" y="3" rx="1" />
+            <rect width="5" height="5" x="3" y="16" rx="1" />
+            <path d="M21 16h-3a2 2 0 0 0-2 2v3" />
+            <path d="M21 21v.01" />
+            <path d="M12 7v3a2 2 0 0 1-2 2H7" />
+            <path d="M3 12h.01" />
+            <path d="M12 3h.01" />
+            <path d="M12 16v.01" />
+            <path d="M16 12h1" />
+            <path d="M21 12v.01" />
+            <path d="M12 21v-1" />
+          </svg>
+        ) : (
+          <span ref={titleRef} className="text-sm font-medium text-black dark:text-white px-4 opacity-0">
+            Portals{portals ? ` (${portals.length})` : ''}
+          </span>
+        )}
+      </div>
+
+      {/* Expanded view - search and portal list */}
+      {isExpanded && (
+        <div ref={listRef} className="p-3 space-y-2 cursor-default">
+          <div className="space-y-1.5 pb-2 border-b border-black/5 dark:border-white/5">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-black/50 dark:text-white/50">Color by</span>
+              <div className="flex gap-1">
+                {COLOR_MODES.map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setOverlay({ ...overlay, colorMode: mode });
+                    }}
+                    className={`px-2 py-1 rounded-xl transition-colors ${
+                      overlay.colorMode === mode
+                        ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white font-medium'
+                        : 'text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {([
+              ['ellipsoids', 'Accuracy ellipsoids'],
+              ['labels', 'Short ID labels'],
+            ] as const).map(([key, label]) => (
+              <label key={key} className="flex items-center justify-between text-xs cursor-pointer">
+                <span className="text-black/50 dark:text-white/50">{label}</span>
+                <input
+                  type="checkbox"
+                  checked={overlay[key]}
+                  onChange={(e) => setOverlay({ ...overlay, [key]: e.target.checked })}
+                  className="accent-black dark:accent-white"
+                />
+              </label>
+            ))}
+          </div>
+          <input
+            type="search"
+            value={query}
+            placeholder="Search by short ID or device"
+            onChange={(e) => setQuery(e.target.value)}
+            className="w-full px-3 py-2 rounded-xl text-sm bg-black/5 dark:bg-white/10 text-black dark:text-white placeholder:text-black/40 dark:placeholder:text-white/40 outline-none"
+          />
+          {filtered.length === 0 ? (
+            <p className="text-xs text-black/50 dark:text-white/50 py-2">
+              {portals && portals.length > 0 ? 'No portals match.' : 'This domain has no portals.'}
+            </p>
+          ) : (
+            <div className="max-h-[280px] overflow-y-auto flex flex-col gap-1">
+              {filtered.map((portal) => (
+                <button
+                  key={portal.id}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSelectedId(portal.id);
+                    setFlyTo({ portalId: portal.id });
+                  }}
+                  onMouseEnter={() => setHoveredId(portal.id)}
+                  onMouseLeave={() => setHoveredId(null)}
+                  className={`w-full flex items-center justify-between px-3 py-2 rounded-xl text-sm text-left transition-colors ${
+                    selectedId === portal.id
+                      ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white'
+                      : hoveredId === portal.id
+                        ? 'bg-black/5 dark:bg-white/10 text-black dark:text-white'
+                        : 'text-black/70 dark:text-white/70'
+                  }`}
+                >
+                  <span className="font-medium">{portal.short_id}</span>
+                  <span className="text-xs text-black/50 dark:text-white/50 truncate ml-2">
+                    {portal.scanner_device_name || portal.scanner_device_model}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
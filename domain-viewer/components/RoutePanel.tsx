@@ -0,0 +1,378 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import gsap from 'gsap';
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
+import { activeMeasurementToolAtom } from '@/store/measurement-store';
+import {
+  RouteEndpointKind,
+  autoWalkAtom,
+  fpsSettingsAtom,
+  navGraphAtom,
+  routeAtom,
+  routePathAtom,
+  routePickAtom,
+} from '@/store/navigation-store';
+import type { Portal } from '@/utils/posemeshClientApi';
+
+/**
+ * Panel for picking a route's start and goal, from clicks on the nav mesh or from
+ * portals, for walking the resulting path, and for how FPS mode moves.
+ *
+ * @param domainId - The route is cleared when the domain changes
+ * @param portals - Portals offered as route endpoints
+ */
+export function RoutePanel({ domainId, portals }: { domainId: string; portals: Portal[] | null }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [mounted, setMounted] = useState(false);
+  const [route, setRoute] = useAtom(routeAtom);
+  const [pick, setPick] = useAtom(routePickAtom);
+  const path = useAtomValue(routePathAtom);
+  const graph = useAtomValue(navGraphAtom);
+  const setAutoWalk = useSetAtom(autoWalkAtom);
+  const setMeasurementTool = useSetAtom(activeMeasurementToolAtom);
+  const [fpsSettings, setFpsSettings] = useAtom(fpsSettingsAtom);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const titleRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const handleContainerClick = () => {
+    toggleExpand();
+  };
+
+  const toggleExpand = useCallback(() => {
+    if (!containerRef.current) return;
+
+    if (!isExpanded) {
+      setIsExpanded(true);
+
+      requestAnimationFrame(() => {
+        if (!containerRef.current) return;
+
+        const tl = gsap.timeline();
+
+        tl.to(containerRef.current, {
+          width: '280px',
+          duration: 0.3,
+          ease: 'power2.out',
+        });
+
+        if (titleRef.current) {
+          tl.fromTo(
+            titleRef.current,
+            { opacity: 0 },
+            { opacity: 1, duration: 0.2, ease: 'power2.out' },
+            '-=0.1'
+          );
+        }
+
+        tl.to(
+          containerRef.current,
+          {
+            height: 'auto',
+            duration: 0.4,
+            ease: 'power3.out',
+          },
+          '-=0.1'
+        );
+
+        if (listRef.current) {
+          tl.fromTo(
+            listRef.current,
+            { opacity: 0, y: 10 },
+            { opacity: 1, y: 0, duration: 0.3, ease: 'power2.out' },
+            '-=0.2'
+          );
+        }
+      });
+    } else {
+      const tl = gsap.timeline({
+        onComplete: () => setIsExpanded(false),
+      });
+
+      if (listRef.current) {
+        tl.to(listRef.current, {
+          opacity: 0,
+          y: -10,
+          duration: 0.2,
+          ease: 'power2.in',
+        });
+      }
+
+      if (titleRef.current) {
+        tl.to(
+          titleRef.current,
+          {
+            opacity: 0,
+            duration: 0.15,
+            ease: 'power2.in',
+          },
+          listRef.current ? '-=0.1' : 0
+        );
+      }
+
+      tl.to(
+        containerRef.current,
+        {
+          height: '48px',
+          duration: 0.3,
+          ease: 'power3.inOut',
+        },
+        '-=0.1'
+      );
+
+      tl.to(
+        containerRef.current,
+        {
+          width: '48px',
+          duration: 0.25,
+          ease: 'power2.inOut',
+        },
+        '-=0.2'
+      );
+    }
+  }, [isExpanded]);
+
+  // Close on click outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (isExpanded && containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        toggleExpand();
+      }
+    };
+
+    if (isExpanded) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isExpanded, toggleExpand]);
+
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isExpanded) {
+        toggleExpand();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isExpanded, toggleExpand]);
+
+  useEffect(() => {
+    setRoute({ start: null, goal: null });
+    setPick(null);
+    setAutoWalk(false);
+  }, [domainId, setRoute, setPick, setAutoWalk]);
+
+  const setPortalEndpoint = (kind: RouteEndpointKind, portalId: string) => {
+    const portal = portals?.find((p) => p.id === portalId);
+    if (!portal) return;
+    setRoute({ ...route, [kind]: { position: [portal.px, portal.py, portal.pz], label: `Portal ${portal.short_id}` } });
+  };
+
+  const isActive = route.start !== null || route.goal !== null;
+
+  if (!mounted) return null;
+
+  return (
+    <div
+      ref={containerRef}
+      onClick={!isExpanded ? handleContainerClick : undefined}
+      className="bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px] cursor-pointer overflow-hidden"
+      style={{
+        width: '48px',
+        height: '48px',
+      }}
+    >
+      {/* Collapsed view - icon button */}
+      <div
+        className={`flex items-center justify-center h-12 ${isExpanded ? 'border-b border-black/10 dark:border-white/10' : ''}`}
+      >
+        {!isExpanded ? (
+          <div className="relative">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="text-black dark:text-white"
+            >
+              <circle cx="6" cy="19" r="3" />
+              <path d="M9 19h8.5a3.5 3.5 0 0 0 0-7h-11a3.5 3.5 0 0 1 0-7H15" />
+              <circle cx="18" cy="5" r="3" />
+            </svg>
+            {isActive && <div className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-orange-500 rounded-full" />}
+          </div>
+        ) : (
+          <span ref={titleRef} className="text-sm font-medium text-black dark:text-white px-4 opacity-0">Navigation</span>
+        )}
+      </div>
+
+      {/* Expanded view - route endpoints and path */}
+      {isExpanded && (
+        <div ref={listRef} className="p-3 space-y-3 cursor-default">
+          {!graph && (
+            <p className="text-xs text-black/50 dark:text-white/50">Available once the nav mesh has loaded.</p>
+          )}
+
+          {(['start', 'goal'] as const).map((kind) => (
+            <div key={kind} className="flex flex-col gap-1">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-black/50 dark:text-white/50">{kind === 'start' ? 'Start' : 'Goal'}</span>
+                <span className="text-black dark:text-white truncate ml-2">{route[kind]?.label ?? 'Not set'}</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  disabled={!graph}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    // Clicks in the viewer feed one tool at a time
+                    setMeasurementTool(null);
+                    setPick(pick === kind ? null : kind);
+                  }}
+                  className={`px-2 py-1.5 rounded-xl text-xs transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                    pick === kind
+                      ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white font-medium'
+                      : 'text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+                  }`}
+                >
+                  {pick === kind ? 'Click the nav mesh…' : 'Pick point'}
+                </button>
+                {portals && portals.length > 0 && (
+                  <select
+                    value=""
+                    disabled={!graph}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => setPortalEndpoint(kind, e.target.value)}
+                    className="flex-1 min-w-0 px-2 py-1.5 rounded-xl text-xs bg-transparent text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10 disabled:opacity-40"
+                  >
+                    <option value="" disabled>
+                      Portal…
+                    </option>
+                    {portals.map((portal) => (
+                      <option key={portal.id} value={portal.id}>
+                        {portal.short_id}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {route.start && route.goal && (
+            <>
+              <div className="border-b border-black/5 dark:border-white/5" />
+              {path ? (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-black/50 dark:text-white/50">Length</span>
+                  <span className="font-medium text-black dark:text-white">{path.length.toFixed(2)} m</span>
+                </div>
+              ) : (
+                <p className="text-xs text-red-500">No walkable path between these points.</p>
+              )}
+            </>
+          )}
+
+          <div className="flex items-center gap-2 text-xs">
+            <button
+              disabled={!path}
+              onClick={(e) => {
+                e.stopPropagation();
+                setAutoWalk(true);
+              }}
+              className="px-2 py-1.5 rounded-xl text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Walk in FPS
+            </button>
+            {isActive && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setRoute({ start: null, goal: null });
+                  setPick(null);
+                }}
+                className="ml-auto px-2 py-1.5 rounded-xl text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+
+          <div className="border-b border-black/5 dark:border-white/5" />
+
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-black/50 dark:text-white/50">FPS movement</span>
+              <div className="flex gap-1">
+                {(['fly', 'walk'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setFpsSettings({ ...fpsSettings, mode });
+                    }}
+                    className={`px-2 py-1 rounded-xl transition-colors ${
+                      fpsSettings.mode === mode
+                        ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white font-medium'
+                        : 'text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+                    }`}
+                  >
+                    {mode === 'fly' ? 'Fly' : 'Walk'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {fpsSettings.mode === 'walk' && !graph && (
+              <p className="text-xs text-black/50 dark:text-white/50">Without a nav mesh, walking is not kept to the floor.</p>
+            )}
+            <div>
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-black/50 dark:text-white/50">Eye height</span>
+                <span className="text-black dark:text-white">{fpsSettings.eyeHeight.toFixed(2)} m</span>
+              </div>
+              <input
+                type="range"
+                min={0.5}
+                max={2.5}
+                step={0.05}
+                value={fpsSettings.eyeHeight}
+                onChange={(e) => setFpsSettings({ ...fpsSettings, eyeHeight: Number(e.target.value) })}
+                className="w-full accent-black dark:accent-white"
+              />
+            </div>
+            <div>
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-black/50 dark:text-white/50">Walk speed</span>
+                <span className="text-black dark:text-white">{fpsSettings.walkSpeed.toFixed(1)} m/s</span>
+              </div>
+              <input
+                type="range"
+                min={0.5}
+                max={5}
+                step={0.1}
+                value={fpsSettings.walkSpeed}
+                onChange={(e) => setFpsSettings({ ...fpsSettings, walkSpeed: Number(e.target.value) })}
+                className="w-full accent-black dark:accent-white"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useViewLinkBuilder } from '@/hooks/useViewLink';
+import type { LayerVisibility } from '@/utils/viewLink';
+
+// How long the button shows the copied state
+const COPIED_FEEDBACK_MS = 2000;
+
+/**
+ * Copies a link to the current view to the clipboard, and puts the same view in the
+ * address bar so reloading keeps it.
+ */
+export function ShareViewButton({ domainId, layers }: { domainId: string; layers: LayerVisibility }) {
+  const buildLink = useViewLinkBuilder(domainId, layers);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const copyLink = async () => {
+    const link = buildLink();
+    // replaceState does not fire hashchange, so the view is not restored over itself
+    window.history.replaceState({}, '', link);
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy view link:', error);
+    }
+  };
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        copyLink();
+      }}
+      className="flex items-center justify-center w-12 h-12 bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px]"
+      title={copied ? 'Link copied' : 'Copy link to this view'}
+    >
+      {copied ? (
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="text-black dark:text-white"
+        >
+          <path d="M20 6 9 17l-5-5" />
+        </svg>
+      ) : (
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="text-black dark:text-white"
+        >
+          <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71" />
+          <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71" />
+        </svg>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,21 @@
+'use client';
+
+import { useAtomValue } from 'jotai';
+import { tourPlaybackAtom, viewpointsAtom } from '@/store/tour-store';
+
+/**
+ * Caption of the tour stop the camera is flying to or resting at.
+ */
+export function TourCaption() {
+  const playback = useAtomValue(tourPlaybackAtom);
+  const viewpoints = useAtomValue(viewpointsAtom);
+
+  const caption = playback ? viewpoints[playback.index]?.caption : null;
+  if (!caption) return null;
+
+  return (
+    <div className="max-w-[560px] px-4 py-2 rounded-[24px] text-sm text-center text-white bg-black/60 backdrop-blur-md pointer-events-none">
+      {caption}
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import gsap from 'gsap';
+import { useAtom, useAtomValue, useSetAtom, useStore } from 'jotai';
+import { cameraPoseAtom, controlModeAtom } from '@/store/camera-store';
+import { tourPlaybackAtom, tourSaveFailedAtom, viewpointsAtom, type Viewpoint } from '@/store/tour-store';
+import { downloadText } from '@/utils/measurement';
+import { createViewpoint, tourFromJSON, tourToJSON } from '@/utils/tour';
+
+/**
+ * Panel for saving camera viewpoints of the current domain, ordering and captioning
+ * them, and playing them back as a tour. Tours export to and import from JSON.
+ *
+ * @param domainId - Names the exported file
+ */
+export function TourPanel({ domainId }: { domainId: string }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [mounted, setMounted] = useState(false);
+  const [viewpoints, setViewpoints] = useAtom(viewpointsAtom);
+  const [playback, setPlayback] = useAtom(tourPlaybackAtom);
+  const setControlMode = useSetAtom(controlModeAtom);
+  const [importError, setImportError] = useState<string | null>(null);
+  const saveFailed = useAtomValue(tourSaveFailedAtom);
+  const jotaiStore = useStore();
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const titleRef = useRef<HTMLSpanElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const handleContainerClick = () => {
+    toggleExpand();
+  };
+
+  const toggleExpand = useCallback(() => {
+    if (!containerRef.current) return;
+
+    if (!isExpanded) {
+      setIsExpanded(true);
+
+      requestAnimationFrame(() => {
+        if (!containerRef.current) return;
+
+        const tl = gsap.timeline();
+
+        tl.to(containerRef.current, {
+          width: '280px',
+          duration: 0.3,
+          ease: 'power2.out',
+        });
+
+        if (titleRef.current) {
+          tl.fromTo(
+            titleRef.current,
+            { opacity: 0 },
+            { opacity: 1, duration: 0.2, ease: 'power2.out' },
+            '-=0.1'
+          );
+        }
+
+        tl.to(
+          containerRef.current,
+          {
+            height: 'auto',
+            duration: 0.4,
+            ease: 'power3.out',
+          },
+          '-=0.1'
+        );
+
+        if (listRef.current) {
+          tl.fromTo(
+            listRef.current,
+            { opacity: 0, y: 10 },
+            { opacity: 1, y: 0, duration: 0.3, ease: 'power2.out' },
+            '-=0.2'
+          );
+        }
+      });
+    } else {
+      const tl = gsap.timeline({
+        onComplete: () => setIsExpanded(false),
+      });
+
+      if (listRef.current) {
+        tl.to(listRef.current, {
+          opacity: 0,
+          y: -10,
+          duration: 0.2,
+          ease: 'power2.in',
+        });
+      }
+
+      if (titleRef.current) {
+        tl.to(
+          titleRef.current,
+          {
+            opacity: 0,
+            duration: 0.15,
+            ease: 'power2.in',
+          },
+          listRef.current ? '-=0.1' : 0
+        );
+      }
+
+      tl.to(
+        containerRef.current,
+        {
+          height: '48px',
+          duration: 0.3,
+          ease: 'power3.inOut',
+        },
+        '-=0.1'
+      );
+
+      tl.to(
+        containerRef.current,
+        {
+          width: '48px',
+          duration: 0.25,
+          ease: 'power2.inOut',
+        },
+        '-=0.2'
+      );
+    }
+  }, [isExpanded]);
+
+  // Close on click outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (isExpanded && containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        toggleExpand();
+      }
+    };
+
+    if (isExpanded) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isExpanded, toggleExpand]);
+
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isExpanded) {
+        toggleExpand();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isExpanded, toggleExpand]);
+
+  const saveViewpoint = () => {
+    const pose = jotaiStore.get(cameraPoseAtom);
+    if (!pose?.target) return;
+    setViewpoints([...viewpoints, createViewpoint(`Viewpoint ${viewpoints.length + 1}`, pose.position, pose.target)]);
+  };
+
+  const updateViewpoint = (id: string, changes: Partial<Pick<Viewpoint, 'name' | 'caption'>>) => {
+    setViewpoints(viewpoints.map((viewpoint) => (viewpoint.id === id ? { ...viewpoint, ...changes } : viewpoint)));
+  };
+
+  const moveViewpoint = (index: number, offset: number) => {
+    const to = index + offset;
+    if (to < 0 || to >= viewpoints.length) return;
+    const reordered = [...viewpoints];
+    [reordered[index], reordered[to]] = [reordered[to], reordered[index]];
+    setViewpoints(reordered);
+    setPlayback(null);
+  };
+
+  const removeViewpoint = (id: string) => {
+    setViewpoints(viewpoints.filter((viewpoint) => viewpoint.id !== id));
+    setPlayback(null);
+  };
+
+  // Tours fly between orbit views, so they take the camera out of FPS mode
+  const visit = (index: number, playing: boolean) => {
+    setControlMode('map');
+    setPlayback({ index, playing, loop: false });
+  };
+
+  const importTour = async (file: File) => {
+    try {
+      setViewpoints(tourFromJSON(await file.text()));
+      setPlayback(null);
+      setImportError(null);
+    } catch (error) {
+      console.error('Failed to import tour:', error);
+      setImportError(error instanceof Error ? error.message : 'Not a tour file');
+    }
+  };
+
+  const isPlaying = playback?.playing ?? false;
+
+  if (!mounted) return null;
+
+  return (
+    <div
+      ref={containerRef}
+      onClick={!isExpanded ? handleContainerClick : undefined}
+      className="bg-black/10 dark:bg-white/10 backdrop-blur-md rounded-[24px] cursor-pointer overflow-hidden"
+      style={{
+        width: '48px',
+        height: '48px',
+      }}
+    >
+      {/* Collapsed view - icon button */}
+      <div
+        className={`flex items-center justify-center h-12 ${isExpanded ? 'border-b border-black/10 dark:border-white/10' : ''}`}
+      >
+        {!isExpanded ? (
+          <div className="relative">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="text-black dark:text-white"
+            >
+              <path d="m19 21-7-4-7 4V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v16z" />
+            </svg>
+            {isPlaying && <div className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-orange-500 rounded-full" />}
+          </div>
+        ) : (
+          <span ref={titleRef} className="text-sm font-medium text-black dark:text-white px-4 opacity-0">Viewpoints</span>
+        )}
+      </div>
+
+      {/* Expanded view - viewpoint list and tour controls */}
+      {isExpanded && (
+        <div ref={listRef} className="p-3 space-y-3 cursor-default">
+          <div className="grid grid-cols-2 gap-1">
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                saveViewpoint();
+              }}
+              className="px-2 py-1.5 rounded-xl text-xs text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10"
+            >
+              Save viewpoint
+            </button>
+            <button
+              disabled={viewpoints.length === 0}
+              onClick={(e) => {
+                e.stopPropagation();
+                if (isPlaying) {
+                  setPlayback(null);
+                } else {
+                  visit(0, true);
+                }
+              }}
+              className={`px-2 py-1.5 rounded-xl text-xs transition-colors disabled:opacity-40 ${
+                isPlaying
+                  ? 'bg-black/10 dark:bg-white/20 text-black dark:text-white font-medium'
+                  : 'text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10'
+              }`}
+            >
+              {isPlaying ? 'Stop tour' : 'Play tour'}
+            </button>
+          </div>
+
+          <div className="border-b border-black/5 dark:border-white/5" />
+
+          {viewpoints.length === 0 ? (
+            <p className="text-xs text-black/50 dark:text-white/50">No viewpoints yet. Move the camera and save one.</p>
+          ) : (
+            <div className="max-h-[280px] overflow-y-auto flex flex-col gap-1">
+              {viewpoints.map((viewpoint, index) => (
+                <div
+                  key={viewpoint.id}
+                  className={`px-3 py-2 rounded-xl space-y-1 transition-colors ${
+                    playback?.index === index
+                      ? 'bg-black/10 dark:bg-white/20'
+                      : 'hover:bg-black/5 dark:hover:bg-white/10'
+                  }`}
+                >
+                  <div className="flex items-center gap-1">
+                    <button
+                      title="Go to viewpoint"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        visit(index, false);
+                      }}
+                      className="w-5 text-xs text-black/50 dark:text-white/50 hover:text-black dark:hover:text-white"
+                    >
+                      {index + 1}
+                    </button>
+                    <input
+                      value={viewpoint.name}
+                      onChange={(e) => updateViewpoint(viewpoint.id, { name: e.target.value })}
+                      onClick={(e) => e.stopPropagation()}
+                      className="flex-1 min-w-0 bg-transparent text-sm text-black dark:text-white outline-none"
+                    />
+                    <button
+                      aria-label="Move up"
+                      disabled={index === 0}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        moveViewpoint(index, -1);
+                      }}
+                      className="px-1 text-xs text-black/40 dark:text-white/40 hover:text-black dark:hover:text-white disabled:opacity-30"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      aria-label="Move down"
+                      disabled={index === viewpoints.length - 1}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        moveViewpoint(index, 1);
+                      }}
+                      className="px-1 text-xs text-black/40 dark:text-white/40 hover:text-black dark:hover:text-white disabled:opacity-30"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      aria-label="Delete viewpoint"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeViewpoint(viewpoint.id);
+                      }}
+                      className="px-1 text-black/40 dark:text-white/40 hover:text-black dark:hover:text-white"
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <input
+                    value={viewpoint.caption}
+                    onChange={(e) => updateViewpoint(viewpoint.id, { caption: e.target.value })}
+                    onClick={(e) => e.stopPropagation()}
+                    placeholder="Caption (optional)"
+                    className="w-full pl-6 bg-transparent text-xs text-black/70 dark:text-white/70 placeholder:text-black/30 dark:placeholder:text-white/30 outline-none"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {importError && <p className="text-xs text-red-500">{importError}</p>}
+          {saveFailed && (
+            <p className="text-xs text-red-500">Could not save the tour in this browser. Export it to keep it.</p>
+          )}
+
+          <div className="flex items-center gap-2 text-xs">
+            {viewpoints.length > 0 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  downloadText(`tour-${domainId}.json`, tourToJSON(viewpoints, domainId), 'application/json');
+                }}
+                className="px-2 py-1.5 rounded-xl text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10"
+              >
+                Export JSON
+              </button>
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                fileInputRef.current?.click();
+              }}
+              className="px-2 py-1.5 rounded-xl text-black/60 dark:text-white/60 hover:bg-black/5 dark:hover:bg-white/10"
+            >
+              Import JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importTour(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
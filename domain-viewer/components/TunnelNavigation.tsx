@@ -42,6 +42,7 @@ export function TunnelNavigation({ tunnelShape, onToggleTunnelShape }: TunnelNav
     { label: 'How to Contribute', href: '/how-to-contribute' },
     { label: 'Claim Rewards', href: '/rewards' },
     { label: 'Explore Dataset', href: '/8093f9bf-c374-4162-ab74-ab61949627f1' },
+    { label: 'Map', href: '/map' },
     { label: 'Disclaimer', href: '/disclaimer' },
   ];
 
@@ -1,14 +1,45 @@
 "use client";
 
-import { plyAsyncParse } from "@/utils/ply-parser.web";
+import { controlModeAtom } from "@/store/camera-store";
+import { floorLevelsAtom, sceneBoundsSourcesAtom } from "@/store/clipping-store";
+import {
+  autoWalkAtom,
+  collisionMeshAtom,
+  fpsSettingsAtom,
+  navGraphAtom,
+  routePathAtom,
+} from "@/store/navigation-store";
+import {
+  PointCloudStyle,
+  pointCloudAttributesAtom,
+  pointCloudStyleAtom,
+} from "@/store/point-cloud-store";
+import { tourPlaybackAtom } from "@/store/tour-store";
+import { isAbortError } from "@/utils/abort";
+import { boundsFromBox3, clippingPlanes, computeFloorLevels } from "@/utils/clipping";
+import { buildNavGraph } from "@/utils/navGraph";
+import { plyAsyncParseOctree } from "@/utils/ply-parser.web";
+import type { PointCloudOctree } from "@/utils/pointCloudOctree";
 import type { Portal } from "@/utils/posemeshClientApi";
 import { matrixFromPose } from "@/utils/three-utils";
 import { useGLTF } from "@react-three/drei";
 import { Canvas, useFrame, useThree } from "@react-three/fiber";
+import { useAtom, useAtomValue, useSetAtom } from "jotai";
 import { useEffect, useMemo, useRef, useState } from "react";
 import * as THREE from "three";
 import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader.js";
+import { CameraFlyTo } from "./3d/CameraFlyTo";
+import { CameraRestore } from "./3d/CameraRestore";
+import { ClippingTools } from "./3d/ClippingTools";
+import { EyeDomeLighting } from "./3d/EyeDomeLighting";
 import { FloorGrid } from "./3d/FloorGrid";
+import { MeasurementTools } from "./3d/MeasurementTools";
+import { OctreePointCloud } from "./3d/OctreePointCloud";
+import { PortalFlyTo } from "./3d/PortalFlyTo";
+import { PortalInteraction } from "./3d/PortalInteraction";
+import { PortalOverlays } from "./3d/PortalOverlays";
+import { RoutePreview } from "./3d/RoutePreview";
+import { TourPlayer } from "./3d/TourPlayer";
 import { PersistedMapControls } from "./PersistedMapControls";
 import FPSControls from "./FPSControls";
 import OriginLines from "./3d/OriginLines";
@@ -24,6 +55,8 @@ interface Viewer3DProps {
   occlusionVisible?: boolean;
   pointCloudVisible?: boolean;
   alignmentMatrix?: number[] | null;
+  background?: string | null; // CSS color behind the scene, null for the theme's background
+  autoRotateSpeed?: number; // Multiple of the default idle orbit speed, 0 for none
 }
 
 function parseASCIIPLY(data: ArrayBuffer): THREE.BufferGeometry {
@@ -67,75 +100,69 @@ function parseASCIIPLY(data: ArrayBuffer): THREE.BufferGeometry {
 
 /**
  * Renders a point cloud from PLY file data with vertex colors.
+ * The points are organised into an octree on a worker and drawn with level of detail.
  *
  * @param data - ArrayBuffer containing the PLY file data
+ * @param style - Shading settings from the point cloud style panel
  */
 function PointCloud({
   data,
   alignmentMatrix,
+  style,
 }: {
   data: ArrayBuffer;
   alignmentMatrix: number[] | null;
+  style: PointCloudStyle;
 }) {
-  const { scene } = useThree();
-  const pointsRef = useRef<THREE.Points | null>(null);
+  const [octree, setOctree] = useState<PointCloudOctree | null>(null);
+  const setAttributes = useSetAtom(pointCloudAttributesAtom);
+  const setBoundsSources = useSetAtom(sceneBoundsSourcesAtom);
 
   useEffect(() => {
     if (!data) return;
 
-    plyAsyncParse(data, true).then((geometry) => {
-      console.log("completed parse ply");
-      const material = new THREE.PointsMaterial({
-        size: 0.09,
-        vertexColors: true,
-        sizeAttenuation: true,
-        depthWrite: true,
-        opacity: 1,
-        transparent: true,
+    // Aborted when the data changes or the component unmounts, so a parse that
+    // finishes late can never add a previous domain's points to the scene
+    const controller = new AbortController();
+
+    plyAsyncParseOctree(data, undefined, controller.signal)
+      .then((octree) => {
+        console.log(`[${new Date().toISOString()}] Built point cloud octree with ${octree.nodes.length} nodes`);
+        setOctree(octree);
+        setAttributes({
+          hasColors: octree.colors !== null,
+          hasNormals: octree.normals !== null,
+          hasIntensities: octree.intensities !== null,
+        });
+      })
+      .catch((error) => {
+        if (!isAbortError(error)) {
+          console.error("Failed to parse point cloud:", error);
+        }
       });
 
-      const points = new THREE.Points(geometry, material);
-      points.matrixAutoUpdate = false;
-      if (alignmentMatrix) {
-        console.log("HAAAASalignmentMatrix", alignmentMatrix);
-        points.applyMatrix4(new THREE.Matrix4().fromArray(alignmentMatrix));
-      }
-      console.log("points", points);
-      const group = new THREE.Group();
-      group.add(points);
-      group.matrixAutoUpdate = false;
-      scene.add(group);
-      pointsRef.current = points;
-    });
-
-    // const geometry = parseASCIIPLY(data)
-
     return () => {
-      if (pointsRef.current) {
-        const points = pointsRef.current;
-        scene.remove(points);
-
-        // Dispose of geometry and material to prevent memory leaks
-        if (points.geometry) {
-          points.geometry.dispose();
-        }
-        if (points.material) {
-          if (Array.isArray(points.material)) {
-            points.material.forEach((material) => material.dispose());
-          } else {
-            points.material.dispose();
-          }
-        }
-
-        // Remove from parent group if it exists
-        if (points.parent) {
-          points.parent.remove(points);
-        }
-      }
+      controller.abort();
+      setOctree(null);
+      setAttributes(null);
     };
-  }, [data, scene, alignmentMatrix]);
+  }, [data, setAttributes]);
 
-  return null;
+  useEffect(() => {
+    if (!octree) return;
+    const bounds = new THREE.Box3(
+      new THREE.Vector3(...octree.bounds.min),
+      new THREE.Vector3(...octree.bounds.max)
+    );
+    if (alignmentMatrix) {
+      bounds.applyMatrix4(new THREE.Matrix4().fromArray(alignmentMatrix));
+    }
+    setBoundsSources((sources) => ({ ...sources, pointcloud: boundsFromBox3(bounds) }));
+    return () => setBoundsSources(({ pointcloud, ...sources }) => sources);
+  }, [octree, alignmentMatrix, setBoundsSources]);
+
+  if (!octree) return null;
+  return <OctreePointCloud octree={octree} alignmentMatrix={alignmentMatrix} style={style} />;
 }
 
 /**
@@ -160,6 +187,8 @@ function Portals({ portals = [] }: { portals: Portal[] | null | undefined }) {
         model = modelsRef.current.get(portal.id)!;
       } else {
         model = gltfScene.clone();
+        // Lets picking map a hit back to its portal
+        model.userData.portalId = portal.id;
         scene.add(model);
         modelsRef.current.set(portal.id, model);
       }
@@ -211,16 +240,20 @@ function Portals({ portals = [] }: { portals: Portal[] | null | undefined }) {
 }
 
 /**
- * Controls camera behavior including auto-rotation when idle.
+ * Controls camera behavior including auto-rotation when idle. A playing tour takes
+ * the place of the idle orbit.
  *
  * @param pointCloudData - Point cloud data used to determine if content is loaded
+ * @param autoRotateSpeed - Multiple of the default orbit speed, 0 for no orbit
  */
 function CameraController({
   pointCloudData,
   controlMode,
+  autoRotateSpeed,
 }: {
   pointCloudData: ArrayBuffer | null;
   controlMode: "map" | "fps";
+  autoRotateSpeed: number;
 }) {
   const { camera, controls } = useThree();
   const [isIdle, setIsIdle] = useState(false);
@@ -229,6 +262,7 @@ function CameraController({
   const angleRef = useRef<number>(0);
   const targetRef = useRef<THREE.Vector3>(new THREE.Vector3(0, 0, 0));
   const previousControlMode = useRef(controlMode);
+  const tourPlayback = useAtomValue(tourPlaybackAtom);
 
   const resetIdleTimer = () => {
     lastInteractionTime.current = Date.now();
@@ -271,9 +305,10 @@ function CameraController({
   }, []);
 
   useFrame(() => {
-    // Disable auto-rotation in FPS mode
-    if (controlMode === "fps") {
+    // Disable auto-rotation in FPS mode and while the camera follows a tour
+    if (controlMode === "fps" || tourPlayback || autoRotateSpeed <= 0) {
       lastInteractionTime.current = Date.now();
+      if (isIdle) setIsIdle(false);
       return;
     }
 
@@ -294,7 +329,7 @@ function CameraController({
       setIsIdle(true);
     }
     if (isIdle) {
-      angleRef.current += 0.0015;
+      angleRef.current += 0.0015 * autoRotateSpeed;
       const offsetX = camera.position.x - targetRef.current.x;
       const offsetZ = camera.position.z - targetRef.current.z;
       const radius = Math.sqrt(offsetX * offsetX + offsetZ * offsetZ);
@@ -322,17 +357,23 @@ function CameraController({
 }
 
 /**
- * Renders the occlusion mesh that represents physical barriers in the space.
+ * Renders the occlusion mesh that represents physical barriers in the space. The mesh
+ * stays loaded while hidden so walk mode keeps colliding with it.
  *
  * @param occlusionMeshData - ArrayBuffer containing the OBJ file data
+ * @param visible - Whether the mesh is drawn
  */
 function OcclusionMesh({
   occlusionMeshData,
+  visible = true,
 }: {
   occlusionMeshData: ArrayBuffer | null;
+  visible?: boolean;
 }) {
   const { scene } = useThree();
   const groupRef = useRef<THREE.Group | null>(null);
+  const setBoundsSources = useSetAtom(sceneBoundsSourcesAtom);
+  const setCollisionMesh = useSetAtom(collisionMeshAtom);
 
   useEffect(() => {
     if (!occlusionMeshData) return;
@@ -343,15 +384,22 @@ function OcclusionMesh({
 
     // Create a group to hold all meshes
     const group = new THREE.Group();
+    group.userData.measurable = true;
+
+    // Walls can be approached from either side, so collisions test both faces
+    const colliders = new THREE.Group();
+    const colliderMaterial = new THREE.MeshBasicMaterial({ side: THREE.DoubleSide });
 
     // Process all children in the OBJ
     obj.traverse((child) => {
       if (child instanceof THREE.Mesh) {
+        colliders.add(new THREE.Mesh(child.geometry, colliderMaterial));
+
         // Create wireframe geometry
         const wireframe = new THREE.WireframeGeometry(child.geometry);
         const edges = new THREE.LineSegments(
           wireframe,
-          new THREE.LineBasicMaterial({ color: 0x303030 })
+          new THREE.LineBasicMaterial({ color: 0x303030, clippingPlanes })
         );
 
         // Create mesh with transparent faces
@@ -361,6 +409,7 @@ function OcclusionMesh({
             color: 0x808080,
             transparent: true,
             opacity: 0.8,
+            clippingPlanes,
           })
         );
 
@@ -371,8 +420,14 @@ function OcclusionMesh({
 
     scene.add(group);
     groupRef.current = group;
+    setBoundsSources((sources) => ({ ...sources, occlusion: boundsFromBox3(new THREE.Box3().setFromObject(group)) }));
+    colliders.updateMatrixWorld(true);
+    setCollisionMesh(colliders);
 
     return () => {
+      setBoundsSources(({ occlusion, ...sources }) => sources);
+      setCollisionMesh(null);
+      colliderMaterial.dispose();
       if (groupRef.current) {
         scene.remove(group);
         group.traverse((child) => {
@@ -386,19 +441,29 @@ function OcclusionMesh({
         });
       }
     };
-  }, [occlusionMeshData, scene]);
+  }, [occlusionMeshData, scene, setBoundsSources, setCollisionMesh]);
+
+  // Runs after the mesh loads as well, so a newly loaded mesh starts hidden if it should
+  useEffect(() => {
+    if (groupRef.current) groupRef.current.visible = visible;
+  }, [visible, occlusionMeshData]);
 
   return null;
 }
 
 /**
- * Renders the navigation mesh that represents walkable areas in the space.
+ * Renders the navigation mesh that represents walkable areas in the space and builds
+ * its navigation graph. The mesh stays loaded while hidden so routes keep working.
  *
  * @param navMeshData - ArrayBuffer containing the OBJ file data
+ * @param visible - Whether the mesh is drawn
  */
-function NavMesh({ navMeshData }: { navMeshData: ArrayBuffer | null }) {
+function NavMesh({ navMeshData, visible = true }: { navMeshData: ArrayBuffer | null; visible?: boolean }) {
   const { scene } = useThree();
   const groupRef = useRef<THREE.Group | null>(null);
+  const setBoundsSources = useSetAtom(sceneBoundsSourcesAtom);
+  const setFloorLevels = useSetAtom(floorLevelsAtom);
+  const setNavGraph = useSetAtom(navGraphAtom);
 
   useEffect(() => {
     if (!navMeshData) return;
@@ -409,6 +474,8 @@ function NavMesh({ navMeshData }: { navMeshData: ArrayBuffer | null }) {
 
     // Create a group to hold all meshes
     const group = new THREE.Group();
+    group.name = "navmesh";
+    group.userData.measurable = true;
 
     // Process all children in the OBJ
     obj.traverse((child) => {
@@ -423,6 +490,7 @@ function NavMesh({ navMeshData }: { navMeshData: ArrayBuffer | null }) {
             polygonOffset: true,
             polygonOffsetFactor: -1,
             polygonOffsetUnits: -1,
+            clippingPlanes,
           })
         );
         group.add(mesh);
@@ -431,8 +499,14 @@ function NavMesh({ navMeshData }: { navMeshData: ArrayBuffer | null }) {
 
     scene.add(group);
     groupRef.current = group;
+    setBoundsSources((sources) => ({ ...sources, navmesh: boundsFromBox3(new THREE.Box3().setFromObject(group)) }));
+    setFloorLevels(computeFloorLevels(group));
+    setNavGraph(buildNavGraph(group));
 
     return () => {
+      setBoundsSources(({ navmesh, ...sources }) => sources);
+      setFloorLevels([]);
+      setNavGraph(null);
       if (groupRef.current) {
         scene.remove(group);
         group.traverse((child) => {
@@ -443,7 +517,12 @@ function NavMesh({ navMeshData }: { navMeshData: ArrayBuffer | null }) {
         });
       }
     };
-  }, [navMeshData, scene]);
+  }, [navMeshData, scene, setBoundsSources, setFloorLevels, setNavGraph]);
+
+  // Runs after the mesh loads as well, so a newly loaded mesh starts hidden if it should
+  useEffect(() => {
+    if (groupRef.current) groupRef.current.visible = visible;
+  }, [visible, navMeshData]);
 
   return null;
 }
@@ -462,16 +541,38 @@ export default function Viewer3D({
   occlusionVisible = true,
   pointCloudVisible = true,
   alignmentMatrix,
+  background = null,
+  autoRotateSpeed = 1,
   isEmbed = false,
 }: Viewer3DProps & { isEmbed?: boolean }) {
-  const [controlMode, setControlMode] = useState<"map" | "fps">("map");
+  const [controlMode, setControlMode] = useAtom(controlModeAtom);
+  const pointCloudStyle = useAtomValue(pointCloudStyleAtom);
   const fpsStart = useMemo<[number, number, number]>(() => [0, 1.8, 3], []);
+  const [autoWalk, setAutoWalk] = useAtom(autoWalkAtom);
+  const routePath = useAtomValue(routePathAtom);
+  const fpsSettings = useAtomValue(fpsSettingsAtom);
+  const navGraph = useAtomValue(navGraphAtom);
+  const collisionMesh = useAtomValue(collisionMeshAtom);
+
+  // The mode is shared with the view link, but a newly opened viewer starts in map mode
+  useEffect(() => () => setControlMode("map"), [setControlMode]);
+
+  // Walking a route happens in FPS mode; leaving FPS mode stops the walk
+  useEffect(() => {
+    if (autoWalk) setControlMode("fps");
+  }, [autoWalk]);
+
+  useEffect(() => {
+    if (controlMode === "map") setAutoWalk(false);
+  }, [controlMode, setAutoWalk]);
 
   // Memoize camera config to prevent re-initialization on re-renders
   const cameraConfig = useMemo(() => ({ position: [15, 15, 15] as [number, number, number], fov: 50 }), []);
 
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
+      // Typing in a text field, such as the portal search, is not a shortcut
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
       if (e.code === "KeyF" && !isEmbed) {
         setControlMode((m) => {
           if (m === "fps") {
@@ -487,7 +588,10 @@ export default function Viewer3D({
   }, [isEmbed]);
 
   return (
-    <div className="absolute inset-0 w-full h-full bg-white dark:bg-[#050505] z-0">
+    <div
+      className={`absolute inset-0 w-full h-full z-0 ${background ? "" : "bg-white dark:bg-[#050505]"}`}
+      style={background ? { background } : undefined}
+    >
       <Canvas camera={cameraConfig} gl={{ alpha: true }}>
         <ambientLight intensity={0.5} />
         <directionalLight intensity={0.5} position={[10, 100, 10]} />
@@ -497,17 +601,37 @@ export default function Viewer3D({
           <PointCloud
             data={pointCloudData}
             alignmentMatrix={alignmentMatrix || null}
+            style={pointCloudStyle}
           />
         )}
-        {portalsVisible && <Portals portals={portals} />}
-        {occlusionVisible && (
-          <OcclusionMesh occlusionMeshData={occlusionMeshData} />
+        {pointCloudStyle.edl && <EyeDomeLighting strength={pointCloudStyle.edlStrength} />}
+        <ClippingTools />
+        <MeasurementTools />
+        <RoutePreview />
+        {portalsVisible && (
+          <>
+            <Portals portals={portals} />
+            <PortalInteraction />
+            <PortalOverlays portals={portals} />
+          </>
         )}
-        {navMeshVisible && <NavMesh navMeshData={navMeshData} />}
+        <OcclusionMesh occlusionMeshData={occlusionMeshData} visible={occlusionVisible} />
+        <NavMesh navMeshData={navMeshData} visible={navMeshVisible} />
         {controlMode === "fps" ? (
           <>
             {/* SkyBox removed to preserve color theme */}
-            <FPSControls start={fpsStart} makeDefault onExit={() => setControlMode("map")} />
+            <FPSControls
+              start={fpsStart}
+              makeDefault
+              onExit={() => setControlMode("map")}
+              autoWalkPath={autoWalk ? routePath?.points ?? null : null}
+              onAutoWalkEnd={() => setAutoWalk(false)}
+              mode={fpsSettings.mode}
+              eyeHeight={fpsSettings.eyeHeight}
+              walkSpeed={fpsSettings.walkSpeed}
+              navGraph={navGraph}
+              collisionMesh={collisionMesh}
+            />
           </>
         ) : (
           <PersistedMapControls
@@ -525,7 +649,11 @@ export default function Viewer3D({
             onChange={() => { }}
           />
         )}
-        <CameraController pointCloudData={pointCloudData} controlMode={controlMode} />
+        <CameraController pointCloudData={pointCloudData} controlMode={controlMode} autoRotateSpeed={autoRotateSpeed} />
+        <CameraFlyTo />
+        <PortalFlyTo portals={portals} />
+        <CameraRestore />
+        <TourPlayer />
       </Canvas>
     </div>
   );
@@ -7,5 +7,19 @@ import {
 } from 'next-themes'
 
 export function ThemeProvider({ children, ...props }: ThemeProviderProps) {
-  return <NextThemesProvider {...props}>{children}</NextThemesProvider>
+  // ?theme= forces a theme for an embedded page view without saving it. Embeds are
+  // detected as in utils/embed, which is not imported here to keep Three.js out of the layout.
+  const [forcedTheme, setForcedTheme] = React.useState(props.forcedTheme)
+
+  React.useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const embedded =
+      window.self !== window.top ||
+      params.get('embed') === '1' ||
+      /^\/[^/]+\/preview\/?$/.test(window.location.pathname)
+    const theme = params.get('theme')
+    if (embedded && (theme === 'light' || theme === 'dark')) setForcedTheme(theme)
+  }, [])
+
+  return <NextThemesProvider {...props} forcedTheme={forcedTheme}>{children}</NextThemesProvider>
 }
@@ -0,0 +1,47 @@
+"use client";
+
+import { useThree } from "@react-three/fiber";
+import { useEffect, useRef } from "react";
+
+// A press that moves less than this is a click rather than a camera drag
+const CLICK_TOLERANCE_PX = 5;
+
+/**
+ * Calls the handler for left clicks on the viewer canvas, ignoring presses that drag
+ * the camera and clicks while the pointer is locked in FPS mode. Pass null to stop
+ * listening. Must be used inside the Canvas.
+ *
+ * @param cursor - Canvas cursor while listening; empty leaves the cursor alone
+ */
+export function useCanvasClick(handler: ((event: PointerEvent) => void) | null, cursor = "crosshair") {
+  const { gl } = useThree();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  const enabled = handler !== null;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const canvas = gl.domElement;
+    let down: { x: number; y: number } | null = null;
+
+    const onPointerDown = (e: PointerEvent) => {
+      down = e.button === 0 ? { x: e.clientX, y: e.clientY } : null;
+    };
+
+    const onPointerUp = (e: PointerEvent) => {
+      if (!down || document.pointerLockElement) return;
+      const moved = Math.hypot(e.clientX - down.x, e.clientY - down.y);
+      down = null;
+      if (moved <= CLICK_TOLERANCE_PX) handlerRef.current?.(e);
+    };
+
+    canvas.addEventListener("pointerdown", onPointerDown);
+    canvas.addEventListener("pointerup", onPointerUp);
+    if (cursor) canvas.style.cursor = cursor;
+    return () => {
+      canvas.removeEventListener("pointerdown", onPointerDown);
+      canvas.removeEventListener("pointerup", onPointerUp);
+      if (cursor) canvas.style.cursor = "";
+    };
+  }, [enabled, gl, cursor]);
+}
@@ -0,0 +1,278 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchDomainInfo } from '@/app/actions';
+import { abortable, isAbortError, throwIfAborted } from '@/utils/abort';
+import { getCachedAsset, putCachedAsset } from '@/utils/assetCache';
+import { DomainDataItem, DomainManifest, DomainMetadata, parseDomainMetadata } from '@/utils/domainManifest';
+import PosemeshClientApi, { Portal } from '@/utils/posemeshClientApi';
+
+export interface DomainData {
+  domainInfo: any;
+}
+
+export type DomainLayer = 'info' | 'portals' | 'manifest' | 'navmesh' | 'occlusion' | 'metadata' | 'pointcloud';
+
+export type LayerStatus = 'pending' | 'loading' | 'loaded' | 'missing' | 'error' | 'blocked';
+
+export interface LayerState {
+  status: LayerStatus;
+  loaded: number; // Bytes received so far
+  total: number | null; // Total bytes, null when unknown
+  error?: string;
+}
+
+export const DOMAIN_LAYERS: DomainLayer[] = ['info', 'portals', 'manifest', 'navmesh', 'occlusion', 'metadata', 'pointcloud'];
+
+// Each layer needs the result of its parent before it can start
+const LAYER_PARENT: Record<DomainLayer, DomainLayer | null> = {
+  info: null,
+  portals: 'info',
+  manifest: 'info',
+  navmesh: 'manifest',
+  occlusion: 'manifest',
+  metadata: 'manifest',
+  pointcloud: 'metadata',
+};
+
+// Minimum time between progress re-renders for one layer
+const PROGRESS_THROTTLE_MS = 100;
+
+const childrenOf = (layer: DomainLayer) => DOMAIN_LAYERS.filter((child) => LAYER_PARENT[child] === layer);
+
+function descendantsOf(layer: DomainLayer): DomainLayer[] {
+  return childrenOf(layer).flatMap((child) => [child, ...descendantsOf(child)]);
+}
+
+function initialLayers(): Record<DomainLayer, LayerState> {
+  return Object.fromEntries(
+    DOMAIN_LAYERS.map((layer) => [layer, { status: 'pending', loaded: 0, total: null }])
+  ) as Record<DomainLayer, LayerState>;
+}
+
+// Results of finished layers that later layers depend on
+interface LoadContext {
+  clientApi: PosemeshClientApi;
+  // Aborted when the domain changes; nothing from an aborted load may reach state
+  signal: AbortSignal;
+  data?: DomainData;
+  manifest?: DomainManifest;
+  metadata?: DomainMetadata;
+}
+
+/**
+ * Loads every asset of a domain, fetching independent layers in parallel.
+ * Each layer reports its own progress and error state and can be retried on its own;
+ * a retry also reruns the layers that depend on it.
+ *
+ * Switching domains aborts every request of the previous load, so its results can
+ * never be mixed into the new domain's scene.
+ *
+ * @param domainId - The unique identifier for the domain to load
+ */
+export function useDomainLoader(domainId: string) {
+  const [domainData, setDomainData] = useState<DomainData | null>(null);
+  const [pointCloudData, setPointCloudData] = useState<ArrayBuffer | null>(null);
+  const [portals, setPortals] = useState<Portal[] | null>(null);
+  const [navMeshData, setNavMeshData] = useState<ArrayBuffer | null>(null);
+  const [occlusionMeshData, setOcclusionMeshData] = useState<ArrayBuffer | null>(null);
+  const [alignmentMatrix, setAlignmentMatrix] = useState<number[] | null>(null);
+  const [layers, setLayers] = useState<Record<DomainLayer, LayerState>>(initialLayers);
+
+  const contextRef = useRef<LoadContext | null>(null);
+  const progressTimesRef = useRef<Partial<Record<DomainLayer, number>>>({});
+
+  const updateLayer = useCallback((layer: DomainLayer, state: Partial<LayerState>) => {
+    setLayers((current) => ({ ...current, [layer]: { ...current[layer], ...state } }));
+  }, []);
+
+  const progressFor = useCallback(
+    (layer: DomainLayer) => (loaded: number, total: number | null) => {
+      const now = Date.now();
+      const last = progressTimesRef.current[layer] ?? 0;
+      if (now - last < PROGRESS_THROTTLE_MS && loaded !== total) return;
+      progressTimesRef.current[layer] = now;
+      updateLayer(layer, { loaded, total });
+    },
+    [updateLayer]
+  );
+
+  /**
+   * Returns a data item from the persistent asset cache, or downloads it (reporting
+   * progress against the given layer) and caches it for the next visit.
+   */
+  const download = useCallback(
+    async (context: LoadContext, layer: DomainLayer, item: DomainDataItem): Promise<ArrayBuffer> => {
+      const domainId = context.data!.domainInfo.id;
+      const cacheKey = item.updated_at ? { domainId, fileId: item.id, updatedAt: item.updated_at } : null;
+
+      if (cacheKey) {
+        const cached = await getCachedAsset(cacheKey);
+        throwIfAborted(context.signal);
+        if (cached) {
+          updateLayer(layer, { loaded: cached.byteLength, total: cached.byteLength });
+          return cached;
+        }
+      }
+
+      const buffer = await context.clientApi.downloadFile(domainId, item.id, {
+        onProgress: progressFor(layer),
+        signal: context.signal,
+      });
+      if (cacheKey) {
+        putCachedAsset(cacheKey, buffer);
+      }
+      return buffer;
+    },
+    [progressFor, updateLayer]
+  );
+
+  /**
+   * Loads one layer. Resolves true when the layer produced a result its children can use.
+   */
+  const loadLayer = useCallback(
+    async (context: LoadContext, layer: DomainLayer): Promise<boolean> => {
+      const data = context.data;
+      const manifest = context.manifest;
+
+      switch (layer) {
+        case 'info': {
+          const result = await abortable(
+            fetchDomainInfo(domainId, context.clientApi.posemeshClientId),
+            context.signal
+          );
+          if (!result.success || !result.data) {
+            throw new Error(result.error || 'Failed to fetch domain info');
+          }
+          throwIfAborted(context.signal);
+          context.data = result.data;
+          setDomainData(result.data);
+          return true;
+        }
+        case 'portals': {
+          const portals = await context.clientApi.fetchDomainPortals(data!.domainInfo.id, context.signal);
+          throwIfAborted(context.signal);
+          setPortals(portals);
+          return true;
+        }
+        case 'manifest': {
+          context.manifest = await context.clientApi.fetchDomainData(data!.domainInfo.id, context.signal);
+          return true;
+        }
+        case 'navmesh': {
+          const item = manifest!.latest('navmesh');
+          if (!item) return false;
+          const buffer = await download(context, layer, item);
+          throwIfAborted(context.signal);
+          setNavMeshData(buffer);
+          return true;
+        }
+        case 'occlusion': {
+          const item = manifest!.latest('occlusionmesh');
+          if (!item) return false;
+          const buffer = await download(context, layer, item);
+          throwIfAborted(context.signal);
+          setOcclusionMeshData(buffer);
+          return true;
+        }
+        case 'metadata': {
+          const item = manifest!.latest('domain_metadata');
+          if (!item) return false;
+          const buffer = await download(context, layer, item);
+          throwIfAborted(context.signal);
+          context.metadata = parseDomainMetadata(JSON.parse(new TextDecoder().decode(buffer)));
+          setAlignmentMatrix(context.metadata.canonicalRefinementAlignmentMatrix ?? null);
+          return true;
+        }
+        case 'pointcloud': {
+          const refinement = context.metadata?.canonicalRefinement;
+          const item = refinement ? manifest!.refinedPointCloud(refinement) : null;
+          if (!item) return false;
+          const buffer = await download(context, layer, item);
+          throwIfAborted(context.signal);
+          setPointCloudData(buffer);
+          return true;
+        }
+      }
+    },
+    [domainId, download]
+  );
+
+  /**
+   * Runs a layer and, once it succeeds, all of its children in parallel.
+   * When a layer fails or is missing, its descendants are marked as blocked.
+   */
+  const runLayer = useCallback(
+    async (context: LoadContext, layer: DomainLayer): Promise<void> => {
+      if (context.signal.aborted) return;
+      updateLayer(layer, { status: 'loading', loaded: 0, total: null, error: undefined });
+      let hasResult: boolean;
+      try {
+        hasResult = await loadLayer(context, layer);
+      } catch (error) {
+        // A newer load owns the state now
+        if (isAbortError(error) || context.signal.aborted) return;
+        console.error(`Error loading domain layer ${layer}:`, error);
+        updateLayer(layer, { status: 'error', error: error instanceof Error ? error.message : String(error) });
+        descendantsOf(layer).forEach((child) => updateLayer(child, { status: 'blocked', error: undefined }));
+        return;
+      }
+      if (context.signal.aborted) return;
+
+      if (!hasResult) {
+        console.log(`[${new Date().toISOString()}] No ${layer} data found for this domain`);
+        updateLayer(layer, { status: 'missing' });
+        descendantsOf(layer).forEach((child) => updateLayer(child, { status: 'blocked', error: undefined }));
+        return;
+      }
+
+      updateLayer(layer, { status: 'loaded' });
+      await Promise.all(childrenOf(layer).map((child) => runLayer(context, child)));
+    },
+    [loadLayer, updateLayer]
+  );
+
+  useEffect(() => {
+    // Clear previous data
+    setDomainData(null);
+    setPointCloudData(null);
+    setPortals(null);
+    setNavMeshData(null);
+    setOcclusionMeshData(null);
+    setAlignmentMatrix(null);
+    setLayers(initialLayers());
+
+    const controller = new AbortController();
+    const context: LoadContext = { clientApi: new PosemeshClientApi(), signal: controller.signal };
+    contextRef.current = context;
+    runLayer(context, 'info');
+
+    return () => controller.abort();
+  }, [domainId, runLayer]);
+
+  /**
+   * Reloads a single layer (and the layers that depend on it) without touching the others.
+   */
+  const retryLayer = useCallback(
+    (layer: DomainLayer) => {
+      const context = contextRef.current;
+      if (!context) return;
+      runLayer(context, layer);
+    },
+    [runLayer]
+  );
+
+  const isLoading = DOMAIN_LAYERS.some((layer) => layers[layer].status === 'loading' || layers[layer].status === 'pending');
+
+  return {
+    domainData,
+    pointCloudData,
+    portals,
+    navMeshData,
+    occlusionMeshData,
+    alignmentMatrix,
+    layers,
+    isLoading,
+    retryLayer,
+  };
+}
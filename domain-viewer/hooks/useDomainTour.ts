@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useAtom, useSetAtom } from 'jotai';
+import { tourPlaybackAtom, tourSaveFailedAtom, viewpointsAtom, type Viewpoint } from '@/store/tour-store';
+import { isAbortError } from '@/utils/abort';
+import { loadStoredTour, storeTour, tourFromJSON } from '@/utils/tour';
+
+async function fetchTour(url: string, signal: AbortSignal): Promise<Viewpoint[]> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch tour: ${response.status} ${response.statusText}`);
+  }
+  return tourFromJSON(await response.text());
+}
+
+/**
+ * Keeps the viewpoints of a domain in the tour store. They are loaded from, and saved
+ * to, this browser's storage; tourSaveFailedAtom is set while saving fails.
+ *
+ * With autoplay, as in the preview embed, nothing is saved and the tour loops once the
+ * domain has loaded. A ?tour=<url> query parameter then plays exported tour JSON from
+ * that URL instead, so an embed can show a tour made in another browser.
+ *
+ * @param ready - Whether the domain has finished loading
+ */
+export function useDomainTour(domainId: string, { autoplay = false, ready = true } = {}) {
+  const [viewpoints, setViewpoints] = useAtom(viewpointsAtom);
+  const setPlayback = useSetAtom(tourPlaybackAtom);
+  const setSaveFailed = useSetAtom(tourSaveFailedAtom);
+  // The domain whose viewpoints are in the store, null while they load
+  const loadedDomainRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    loadedDomainRef.current = null;
+    setViewpoints([]);
+    setPlayback(null);
+    setSaveFailed(false);
+
+    const controller = new AbortController();
+    const tourUrl = autoplay ? new URLSearchParams(window.location.search).get('tour') : null;
+    const load = tourUrl
+      ? fetchTour(tourUrl, controller.signal).catch((error) => {
+          if (isAbortError(error)) throw error;
+          console.error('Failed to load tour, using the saved one:', error);
+          return loadStoredTour(domainId);
+        })
+      : Promise.resolve(loadStoredTour(domainId));
+
+    load
+      .then((loaded) => {
+        if (controller.signal.aborted) return;
+        loadedDomainRef.current = domainId;
+        setViewpoints(loaded);
+      })
+      .catch(() => {
+        // Aborted by a domain change
+      });
+
+    return () => controller.abort();
+  }, [domainId, autoplay, setViewpoints, setPlayback, setSaveFailed]);
+
+  useEffect(() => {
+    if (autoplay || loadedDomainRef.current !== domainId) return;
+    setSaveFailed(!storeTour(domainId, viewpoints));
+  }, [viewpoints, domainId, autoplay, setSaveFailed]);
+
+  const hasViewpoints = viewpoints.length > 0;
+  useEffect(() => {
+    if (autoplay && ready && hasViewpoints) {
+      setPlayback({ index: 0, playing: true, loop: true });
+    }
+  }, [autoplay, ready, hasViewpoints, setPlayback]);
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useCallback, useEffect, useRef, type Dispatch, type SetStateAction } from 'react';
+import { useAtomValue, useSetAtom } from 'jotai';
+import { DOMAIN_LAYERS, type DomainLayer, type LayerState } from '@/hooks/useDomainLoader';
+import { cameraRestoreAtom } from '@/store/camera-store';
+import { portalClickAtom } from '@/store/portal-store';
+import {
+  EMBED_API_NAME,
+  EMBED_API_VERSION,
+  parseEmbedCommand,
+  type EmbedEvent,
+  type EmbedMessage,
+} from '@/utils/embed';
+import type { Portal } from '@/utils/posemeshClientApi';
+import type { LayerVisibility } from '@/utils/viewLink';
+
+interface EmbedApiOptions {
+  enabled: boolean; // Only an iframe has a host page to talk to
+  origin: string | null; // The host page's origin, null to accept any
+  domainId: string;
+  layers: Record<DomainLayer, LayerState>;
+  portals: Portal[] | null;
+  setVisibleLayers: Dispatch<SetStateAction<LayerVisibility>>;
+}
+
+/**
+ * Speaks the embed postMessage API with the host page: applies its camera and layer
+ * commands, and reports readiness, load progress and portal clicks.
+ */
+export function useEmbedApi({ enabled, origin, domainId, layers, portals, setVisibleLayers }: EmbedApiOptions) {
+  const setCameraRestore = useSetAtom(cameraRestoreAtom);
+  const portalClick = useAtomValue(portalClickAtom);
+  const portalsRef = useRef(portals);
+  portalsRef.current = portals;
+
+  const post = useCallback(
+    (event: EmbedEvent, id?: string) => {
+      if (!enabled) return;
+      const message: EmbedMessage<EmbedEvent> = { api: EMBED_API_NAME, version: EMBED_API_VERSION, ...event };
+      if (id !== undefined) message.id = id;
+      window.parent.postMessage(message, origin ?? '*');
+    },
+    [enabled, origin]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onMessage = (e: MessageEvent) => {
+      if (e.source !== window.parent || (origin && e.origin !== origin)) return;
+      const parsed = parseEmbedCommand(e.data);
+      if (!parsed) return;
+      if ('error' in parsed) {
+        post({ type: 'error', id: parsed.id, message: parsed.error });
+        return;
+      }
+
+      const { command, id } = parsed;
+      switch (command.type) {
+        case 'setCamera':
+          setCameraRestore({ position: command.position, target: command.target });
+          break;
+        case 'setLayers':
+          setVisibleLayers((current) => ({ ...current, ...command.layers }));
+          break;
+      }
+      if (id !== undefined) post({ type: 'ack', id });
+    };
+
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, [enabled, origin, post, setCameraRestore, setVisibleLayers]);
+
+  useEffect(() => {
+    post({ type: 'ready', domainId });
+  }, [post, domainId]);
+
+  useEffect(() => {
+    post({
+      type: 'loadProgress',
+      domainId,
+      layers: Object.fromEntries(
+        DOMAIN_LAYERS.map((layer) => {
+          const { status, loaded, total } = layers[layer];
+          return [layer, { status, loaded, total }];
+        })
+      ) as Record<DomainLayer, Pick<LayerState, 'status' | 'loaded' | 'total'>>,
+      done: DOMAIN_LAYERS.every((layer) => layers[layer].status !== 'pending' && layers[layer].status !== 'loading'),
+    });
+    // The domain id travels with the layers it belongs to, so it is not a dependency
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [post, layers]);
+
+  useEffect(() => {
+    if (!portalClick) return;
+    const portal = portalsRef.current?.find((p) => p.id === portalClick.portalId);
+    if (!portal) return;
+    post({
+      type: 'portalClick',
+      portal: { id: portal.id, shortId: portal.short_id, position: [portal.px, portal.py, portal.pz] },
+    });
+  }, [post, portalClick]);
+}
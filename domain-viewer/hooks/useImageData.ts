@@ -2,9 +2,12 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { ImageData } from '@/types/image';
-import { fetchImages } from '@/lib/imageService';
+import { fetchDomainImages, fetchImages } from '@/lib/imageService';
 import { FALLBACK_IMAGES } from '@/utils/fallbackImages';
 
+// Domains shown when the image API has nothing
+const DOMAIN_IMAGE_COUNT = 24;
+
 interface UseImageDataReturn {
   images: ImageData[];
   isLoading: boolean;
@@ -26,7 +29,14 @@ export function useImageData(): UseImageDataReturn {
     setIsLoading(true);
     setError(null);
 
-    const response = await fetchImages();
+    let response = await fetchImages();
+    if (!response.success || response.data.length === 0) {
+      // Show real scans from the domain thumbnails before resorting to stock photos
+      const domainResponse = await fetchDomainImages(DOMAIN_IMAGE_COUNT);
+      if (domainResponse.success && domainResponse.data.length > 0) {
+        response = domainResponse;
+      }
+    }
 
     if (response.success && response.data.length > 0) {
       setImages(response.data);
@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchDomainInfo } from '@/app/actions';
+import { abortable, isAbortError, throwIfAborted } from '@/utils/abort';
+import { getCachedAsset, putCachedAsset } from '@/utils/assetCache';
+import { parseDomainMetadata, type DomainDataItem } from '@/utils/domainManifest';
+import { plyAsyncParseOctree } from '@/utils/ply-parser.web';
+import type { PointCloudOctree } from '@/utils/pointCloudOctree';
+import PosemeshClientApi, { type DownloadProgressCallback } from '@/utils/posemeshClientApi';
+
+// One side of a comparison: a domain and one of its refinements
+export interface RefinementSource {
+  domainId: string;
+  refinement: string | null; // null picks the domain's canonical refinement
+}
+
+export type RefinementStatus = 'idle' | 'loading' | 'parsing' | 'loaded' | 'error';
+
+export interface LoadedRefinement {
+  status: RefinementStatus;
+  error?: string;
+  domainName: string | null;
+  refinements: string[]; // Every refinement with a refined point cloud
+  canonicalRefinement: string | null;
+  refinement: string | null; // The refinement actually loaded
+  // Only the canonical refinement has a known alignment; others are shown in their own frame
+  alignmentMatrix: number[] | null;
+  octree: PointCloudOctree | null;
+  loaded: number; // Bytes received so far
+  total: number | null;
+}
+
+const EMPTY: LoadedRefinement = {
+  status: 'idle',
+  domainName: null,
+  refinements: [],
+  canonicalRefinement: null,
+  refinement: null,
+  alignmentMatrix: null,
+  octree: null,
+  loaded: 0,
+  total: null,
+};
+
+/**
+ * Loads one refined point cloud of a domain into an octree, for comparing refinements.
+ * Unlike useDomainLoader it fetches nothing but the manifest, the metadata and the one
+ * point cloud. Changing the source aborts the previous load.
+ */
+export function useRefinementLoader(source: RefinementSource | null): LoadedRefinement {
+  const [state, setState] = useState<LoadedRefinement>(EMPTY);
+  const domainId = source?.domainId ?? null;
+  const requested = source?.refinement ?? null;
+
+  useEffect(() => {
+    setState(EMPTY);
+    if (!domainId) return;
+
+    const controller = new AbortController();
+    const signal = controller.signal;
+    const update = (partial: Partial<LoadedRefinement>) => {
+      if (!signal.aborted) setState((current) => ({ ...current, ...partial }));
+    };
+
+    (async () => {
+      update({ status: 'loading' });
+      const clientApi = new PosemeshClientApi();
+      const result = await abortable(fetchDomainInfo(domainId, clientApi.posemeshClientId), signal);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to fetch domain info');
+      }
+      update({ domainName: result.data.domainInfo.name ?? null });
+
+      const manifest = await clientApi.fetchDomainData(domainId, signal);
+      const download = async (item: DomainDataItem, onProgress?: DownloadProgressCallback) => {
+        const cacheKey = item.updated_at ? { domainId, fileId: item.id, updatedAt: item.updated_at } : null;
+        if (cacheKey) {
+          const cached = await getCachedAsset(cacheKey);
+          throwIfAborted(signal);
+          if (cached) return cached;
+        }
+        const buffer = await clientApi.downloadFile(domainId, item.id, { onProgress, signal });
+        if (cacheKey) putCachedAsset(cacheKey, buffer);
+        return buffer;
+      };
+
+      const metadataItem = manifest.latest('domain_metadata');
+      const metadata = metadataItem
+        ? parseDomainMetadata(JSON.parse(new TextDecoder().decode(await download(metadataItem))))
+        : null;
+      const refinements = manifest.refinements();
+      const canonicalRefinement = metadata?.canonicalRefinement ?? null;
+      const refinement = requested ?? canonicalRefinement ?? refinements[0] ?? null;
+      const item = refinement ? manifest.refinedPointCloud(refinement) : null;
+      update({ refinements, canonicalRefinement, refinement });
+      if (!item) {
+        throw new Error(refinement ? `Refinement ${refinement} has no point cloud` : 'Domain has no refined point cloud');
+      }
+
+      const buffer = await download(item, (loaded, total) => update({ loaded, total }));
+      update({ status: 'parsing' });
+      const octree = await plyAsyncParseOctree(buffer, undefined, signal);
+      update({
+        status: 'loaded',
+        octree,
+        alignmentMatrix: refinement === canonicalRefinement ? metadata?.canonicalRefinementAlignmentMatrix ?? null : null,
+      });
+    })().catch((error) => {
+      if (isAbortError(error) || signal.aborted) return;
+      console.error('Failed to load refinement:', error);
+      update({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+    });
+
+    return () => controller.abort();
+  }, [domainId, requested]);
+
+  return state;
+}
@@ -0,0 +1,250 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { GeoPoint } from '@/utils/geoTransform';
+import { TILE_SIZE, geoToWorldPixels, getTileSources, loadTile, worldPixelsToGeo } from '@/utils/mapTiles';
+
+const MIN_ZOOM = 2;
+const MAX_ZOOM = 23;
+// Pointer travel, in pixels, below which a press counts as a click rather than a drag
+const CLICK_TOLERANCE = 4;
+
+export interface MapView {
+  center: GeoPoint;
+  zoom: number; // Fractional Web Mercator zoom level
+}
+
+interface UseSlippyMapOptions {
+  // Called for a press that did not drag, with the position in canvas pixels
+  onClick?: (point: GeoPoint, screen: [number, number]) => void;
+  // Called as the pointer moves over the map without dragging; null when it leaves
+  onHover?: (screen: [number, number] | null) => void;
+}
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/**
+ * State and interaction for a canvas slippy map: tile loading from a selectable tile
+ * source, drag to pan, wheel to zoom around the cursor and click detection.
+ *
+ * Callers draw their overlays after beginFrame(), which sizes and clears the canvas
+ * and draws the loaded tiles. beginFrame changes whenever the map needs redrawing,
+ * so it belongs in the dependencies of the drawing effect.
+ */
+export function useSlippyMap({ onClick, onHover }: UseSlippyMapOptions = {}) {
+  const sources = useMemo(() => getTileSources(), []);
+  const [sourceId, setSourceId] = useState(sources[0].id);
+  const source = sources.find((s) => s.id === sourceId) ?? sources[0];
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<MapView | null>(null);
+
+  // Decoded tiles by source, zoom and position; null marks a tile that failed or is loading
+  const tilesRef = useRef(new Map<string, ImageBitmap | null>());
+  const [tileVersion, setTileVersion] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const toScreen = useCallback(
+    (point: GeoPoint): [number, number] => {
+      if (!view) return [0, 0];
+      const [x, y] = geoToWorldPixels(point, view.zoom);
+      const [cx, cy] = geoToWorldPixels(view.center, view.zoom);
+      return [x - cx + size.width / 2, y - cy + size.height / 2];
+    },
+    [view, size]
+  );
+
+  const toGeo = useCallback(
+    (sx: number, sy: number): GeoPoint => {
+      if (!view) return { lat: 0, lon: 0 };
+      const [cx, cy] = geoToWorldPixels(view.center, view.zoom);
+      return worldPixelsToGeo([cx + sx - size.width / 2, cy + sy - size.height / 2], view.zoom);
+    },
+    [view, size]
+  );
+
+  /**
+   * Centers the view on a set of points and zooms so they fill a share of the canvas.
+   */
+  const fitView = useCallback(
+    (points: GeoPoint[], fill = 0.6, maxZoom = 18) => {
+      if (points.length === 0 || size.width === 0) return;
+      const pixels = points.map((p) => geoToWorldPixels(p, 0));
+      const xs = pixels.map(([x]) => x);
+      const ys = pixels.map(([, y]) => y);
+      const spanX = Math.max(...xs) - Math.min(...xs);
+      const spanY = Math.max(...ys) - Math.min(...ys);
+      // Pixel spans double with each zoom level
+      const zoom = Math.log2(
+        Math.min((size.width * fill) / Math.max(spanX, 1e-9), (size.height * fill) / Math.max(spanY, 1e-9))
+      );
+      const center = worldPixelsToGeo(
+        [(Math.min(...xs) + Math.max(...xs)) / 2, (Math.min(...ys) + Math.max(...ys)) / 2],
+        0
+      );
+      setView({ center, zoom: clampZoom(Math.min(zoom, maxZoom)) });
+    },
+    [size]
+  );
+
+  // Tiles covering the view at the nearest integer zoom
+  const tileZoom = view ? Math.min(source.maxZoom, Math.max(0, Math.round(view.zoom))) : 0;
+  const visibleTiles = useMemo(() => {
+    if (!view || !source.url || size.width === 0) return [];
+    const scale = Math.pow(2, view.zoom - tileZoom);
+    const [cx, cy] = geoToWorldPixels(view.center, tileZoom);
+    const halfWidth = size.width / 2 / scale;
+    const halfHeight = size.height / 2 / scale;
+    const count = Math.pow(2, tileZoom);
+    const tiles: { x: number; y: number }[] = [];
+    for (let y = Math.floor((cy - halfHeight) / TILE_SIZE); y <= Math.floor((cy + halfHeight) / TILE_SIZE); y++) {
+      if (y < 0 || y >= count) continue;
+      for (let x = Math.floor((cx - halfWidth) / TILE_SIZE); x <= Math.floor((cx + halfWidth) / TILE_SIZE); x++) {
+        tiles.push({ x, y });
+      }
+    }
+    return tiles;
+  }, [view, source, size, tileZoom]);
+
+  // Tile loads are only aborted when the map unmounts, so panning keeps in-flight tiles
+  const abortRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const tiles = tilesRef.current;
+    return () => {
+      controller.abort();
+      tiles.forEach((bitmap) => bitmap?.close());
+      tiles.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    const signal = abortRef.current?.signal;
+    if (!signal) return;
+    const count = Math.pow(2, tileZoom);
+    for (const { x, y } of visibleTiles) {
+      const wrappedX = ((x % count) + count) % count;
+      const key = `${source.id}/${tileZoom}/${wrappedX}/${y}`;
+      if (tilesRef.current.has(key)) continue;
+      tilesRef.current.set(key, null);
+      loadTile(source, tileZoom, wrappedX, y, signal).then((bitmap) => {
+        if (signal.aborted) {
+          bitmap?.close();
+          return;
+        }
+        tilesRef.current.set(key, bitmap);
+        if (bitmap) setTileVersion((v) => v + 1);
+      });
+    }
+  }, [visibleTiles, source, tileZoom]);
+
+  /**
+   * Sizes the canvas to the container, clears it and draws the loaded tiles. Depends on
+   * tileVersion so that tiles arriving later trigger a redraw.
+   *
+   * @returns The context to draw overlays with, in CSS pixels; null before the first layout
+   */
+  const beginFrame = useCallback((): CanvasRenderingContext2D | null => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !view || size.width === 0) return null;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * dpr);
+    canvas.height = Math.round(size.height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    const scale = Math.pow(2, view.zoom - tileZoom);
+    const [cx, cy] = geoToWorldPixels(view.center, tileZoom);
+    const count = Math.pow(2, tileZoom);
+    const tileSize = TILE_SIZE * scale;
+    for (const { x, y } of visibleTiles) {
+      const wrappedX = ((x % count) + count) % count;
+      const bitmap = tilesRef.current.get(`${source.id}/${tileZoom}/${wrappedX}/${y}`);
+      if (!bitmap) continue;
+      const left = (x * TILE_SIZE - cx) * scale + size.width / 2;
+      const top = (y * TILE_SIZE - cy) * scale + size.height / 2;
+      // Overlap by half a pixel so fractional zoom leaves no seams
+      ctx.drawImage(bitmap, left, top, tileSize + 0.5, tileSize + 0.5);
+    }
+    return ctx;
+  }, [view, size, visibleTiles, tileZoom, source, tileVersion]);
+
+  const dragRef = useRef<{ x: number; y: number; moved: number } | null>(null);
+
+  const canvasPosition = (e: React.PointerEvent | React.WheelEvent): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [e.clientX - rect.left, e.clientY - rect.top];
+  };
+
+  const canvasHandlers = {
+    onPointerDown: (e: React.PointerEvent<HTMLCanvasElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      dragRef.current = { x: e.clientX, y: e.clientY, moved: 0 };
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const drag = dragRef.current;
+      if (!drag) {
+        onHover?.(canvasPosition(e));
+        return;
+      }
+      if (!view) return;
+      const dx = e.clientX - drag.x;
+      const dy = e.clientY - drag.y;
+      drag.x = e.clientX;
+      drag.y = e.clientY;
+      drag.moved += Math.hypot(dx, dy);
+      if (drag.moved < CLICK_TOLERANCE) return;
+      const [cx, cy] = geoToWorldPixels(view.center, view.zoom);
+      setView({ ...view, center: worldPixelsToGeo([cx - dx, cy - dy], view.zoom) });
+    },
+    onPointerUp: (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const drag = dragRef.current;
+      dragRef.current = null;
+      if (!drag || drag.moved >= CLICK_TOLERANCE || !view) return;
+      const [sx, sy] = canvasPosition(e);
+      onClick?.(toGeo(sx, sy), [sx, sy]);
+    },
+    onPointerCancel: () => {
+      dragRef.current = null;
+    },
+    onPointerLeave: () => onHover?.(null),
+    onWheel: (e: React.WheelEvent<HTMLCanvasElement>) => {
+      if (!view) return;
+      const [sx, sy] = canvasPosition(e);
+      const zoom = clampZoom(view.zoom - e.deltaY * 0.002);
+      // Keep the point under the cursor fixed while zooming
+      const [ax, ay] = geoToWorldPixels(toGeo(sx, sy), zoom);
+      setView({ center: worldPixelsToGeo([ax - sx + size.width / 2, ay - sy + size.height / 2], zoom), zoom });
+    },
+  };
+
+  return {
+    containerRef,
+    canvasRef,
+    canvasHandlers,
+    size,
+    view,
+    setView,
+    fitView,
+    toScreen,
+    toGeo,
+    beginFrame,
+    sources,
+    source,
+    setSourceId,
+  };
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useStore } from 'jotai';
+import { cameraPoseAtom, cameraRestoreAtom, controlModeAtom } from '@/store/camera-store';
+import { measurementsAtom, selectedMeasurementIdAtom } from '@/store/measurement-store';
+import { selectedPortalIdAtom } from '@/store/portal-store';
+import { createMeasurement } from '@/utils/measurement';
+import { encodeViewLink, parseViewLink, type LayerVisibility } from '@/utils/viewLink';
+
+/**
+ * Restores the view encoded in the URL hash when the page opens, and again whenever
+ * the hash changes. Layer visibility is page state, so it is handed to onLayers.
+ */
+export function useViewLinkRestore(onLayers: (layers: LayerVisibility) => void) {
+  const jotaiStore = useStore();
+  const onLayersRef = useRef(onLayers);
+  onLayersRef.current = onLayers;
+
+  useEffect(() => {
+    const restore = () => {
+      const state = parseViewLink(window.location.hash);
+      if (state.controlMode) jotaiStore.set(controlModeAtom, state.controlMode);
+      if (state.camera) jotaiStore.set(cameraRestoreAtom, state.camera);
+      if (state.layers) onLayersRef.current(state.layers);
+      if (state.portalId) jotaiStore.set(selectedPortalIdAtom, state.portalId);
+      if (state.measurement) {
+        const measurement = createMeasurement(state.measurement.type, state.measurement.points);
+        jotaiStore.set(measurementsAtom, [measurement]);
+        jotaiStore.set(selectedMeasurementIdAtom, measurement.id);
+      }
+    };
+
+    restore();
+    window.addEventListener('hashchange', restore);
+    return () => window.removeEventListener('hashchange', restore);
+  }, [jotaiStore]);
+}
+
+/**
+ * Returns a function building a link to the current view of a domain: camera, control
+ * mode, visible layers, the selected portal and the selected (or else the latest) measurement.
+ */
+export function useViewLinkBuilder(domainId: string, layers: LayerVisibility) {
+  const jotaiStore = useStore();
+
+  return useCallback(() => {
+    const pose = jotaiStore.get(cameraPoseAtom);
+    const measurements = jotaiStore.get(measurementsAtom);
+    const selectedMeasurementId = jotaiStore.get(selectedMeasurementIdAtom);
+    const measurement =
+      measurements.find((m) => m.id === selectedMeasurementId) ?? measurements[measurements.length - 1] ?? null;
+
+    const hash = encodeViewLink({
+      camera: pose?.target ? { position: pose.position, target: pose.target } : null,
+      controlMode: jotaiStore.get(controlModeAtom),
+      layers,
+      portalId: jotaiStore.get(selectedPortalIdAtom),
+      measurement,
+    });
+    return `${window.location.origin}/${domainId}${hash ? `#${hash}` : ''}`;
+  }, [jotaiStore, domainId, layers]);
+}
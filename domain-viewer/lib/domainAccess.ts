@@ -0,0 +1,136 @@
+import { DomainManifest, type DomainDataItem } from '@/utils/domainManifest'
+import type { Portal } from '@/utils/posemeshClientApi'
+import PosemeshServerApi, { PosemeshApiError } from '@/utils/posemeshServerApi'
+
+// How long a domain's data listing is reused when resolving file metadata
+const DATA_LISTING_TTL_MS = 60 * 1000
+
+export interface DomainAccess {
+  accessToken: string
+  domainServerUrl: string
+}
+
+interface CachedListing {
+  manifest: DomainManifest
+  fetchedAt: number
+}
+
+const dataListings = new Map<string, CachedListing>()
+
+/**
+ * Returns a domain access token and domain server URL using the app credentials.
+ * Tokens come from the process-wide cache in PosemeshServerApi.
+ *
+ * @param domainId - Domain to authenticate with
+ * @param posemeshClientId - Client identifier for tracking API requests
+ * @param refreshToken - Drop the cached domain token first, e.g. after a 401
+ */
+export async function getDomainAccess(domainId: string, posemeshClientId: string, refreshToken = false): Promise<DomainAccess> {
+  const appKey = process.env.AUKI_APP_KEY
+  const appSecret = process.env.AUKI_APP_SECRET
+
+  if (!appKey || !appSecret) {
+    throw new Error('Auki Network credentials are not configured')
+  }
+
+  const apiClient = new PosemeshServerApi(posemeshClientId)
+  await apiClient.authenticate(appKey, appSecret)
+  if (refreshToken) {
+    apiClient.invalidateDomainToken(domainId)
+  }
+  const domainAuthData = await apiClient.authenticateDomain(domainId)
+
+  return {
+    accessToken: domainAuthData.access_token,
+    domainServerUrl: domainAuthData.domain_server.url,
+  }
+}
+
+/**
+ * Fetches a domain's data listing and caches it briefly for findDomainDataItem.
+ *
+ * @throws PosemeshApiError if the domain server rejects the request
+ */
+export async function fetchDomainManifest(domainId: string, access: DomainAccess, posemeshClientId: string): Promise<DomainManifest> {
+  const response = await fetch(`${access.domainServerUrl}/api/v1/domains/${domainId}/data`, {
+    headers: {
+      'Authorization': `Bearer ${access.accessToken}`,
+      'User-Agent': 'domain-viewer',
+      'posemesh-client-id': posemeshClientId,
+      'Accept': 'application/json',
+    },
+    cache: 'no-store',
+  })
+
+  if (!response.ok) {
+    throw new PosemeshApiError(`Failed to fetch domain data: ${response.status} ${response.statusText}`, response.status)
+  }
+
+  const data = await response.json()
+  const manifest = DomainManifest.parse(data.data || [])
+  dataListings.set(domainId, { manifest, fetchedAt: Date.now() })
+  return manifest
+}
+
+/**
+ * Looks up a data item in a domain's data listing. Listings are cached briefly
+ * and refetched once when the item is missing, so new uploads are found.
+ *
+ * @returns The data item, or null if the domain has no item with that ID
+ * @throws PosemeshApiError if the domain server rejects the request
+ */
+export async function findDomainDataItem(domainId: string, fileId: string, access: DomainAccess, posemeshClientId: string): Promise<DomainDataItem | null> {
+  const cached = dataListings.get(domainId)
+  const isFresh = cached && Date.now() - cached.fetchedAt < DATA_LISTING_TTL_MS
+  const cachedItem = isFresh ? cached.manifest.get(fileId) : null
+  if (cachedItem) return cachedItem
+
+  const manifest = await fetchDomainManifest(domainId, access, posemeshClientId)
+  return manifest.get(fileId)
+}
+
+/**
+ * Downloads a whole domain data file.
+ *
+ * @throws PosemeshApiError if the domain server rejects the request
+ */
+export async function downloadDomainFile(domainId: string, fileId: string, access: DomainAccess, posemeshClientId: string): Promise<ArrayBuffer> {
+  const response = await fetch(`${access.domainServerUrl}/api/v1/domains/${domainId}/data/${fileId}?raw=1`, {
+    headers: {
+      'Authorization': `Bearer ${access.accessToken}`,
+      'User-Agent': 'domain-viewer',
+      'posemesh-client-id': posemeshClientId,
+    },
+    cache: 'no-store',
+  })
+
+  if (!response.ok) {
+    throw new PosemeshApiError(`Failed to download file: ${response.status} ${response.statusText}`, response.status)
+  }
+
+  return response.arrayBuffer()
+}
+
+/**
+ * Fetches a domain's portals (lighthouses) from its domain server.
+ *
+ * @throws PosemeshApiError if the domain server rejects the request
+ */
+export async function fetchDomainPortals(domainId: string, access: DomainAccess, posemeshClientId: string): Promise<Portal[]> {
+  const response = await fetch(`${access.domainServerUrl}/api/v1/domains/${domainId}/lighthouses`, {
+    headers: {
+      'Authorization': `Bearer ${access.accessToken}`,
+      'User-Agent': 'domain-viewer',
+      'posemesh-client-id': posemeshClientId,
+      'Accept': 'application/json',
+    },
+    cache: 'no-store',
+  })
+
+  if (!response.ok) {
+    throw new PosemeshApiError(`Failed to fetch domain portals: ${response.status} ${response.statusText}`, response.status)
+  }
+
+  const data = await response.json()
+  return data.poses || []
+}
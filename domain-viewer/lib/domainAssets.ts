@@ -0,0 +1,58 @@
+import { downloadDomainFile, type DomainAccess } from '@/lib/domainAccess'
+import { parseDomainMetadata, type DomainManifest } from '@/utils/domainManifest'
+import { parsePly, type ParsedPly } from '@/utils/plyParser'
+
+// Point clouds larger than this are not downloaded for server-side previews by default
+const MAX_POINT_CLOUD_BYTES = 200 * 1024 * 1024
+
+export interface CanonicalPointCloud {
+  ply: ParsedPly
+  alignmentMatrix: number[] | null // Column-major 4x4 into the domain frame
+}
+
+/**
+ * Downloads the latest nav mesh of a domain as OBJ text.
+ *
+ * @returns null when the domain has no nav mesh
+ */
+export async function fetchNavMeshText(domainId: string, manifest: DomainManifest, access: DomainAccess, posemeshClientId: string): Promise<string | null> {
+  const item = manifest.latest('navmesh')
+  if (!item) return null
+  return new TextDecoder().decode(await downloadDomainFile(domainId, item.id, access, posemeshClientId))
+}
+
+/**
+ * Downloads and parses the point cloud the viewer shows for a domain: the canonical
+ * refinement from the domain metadata, or else the first refinement, which has no
+ * known alignment.
+ *
+ * @param maxBytes - Largest point cloud file to download
+ * @returns null when the domain has no refined point cloud, or it is too large to fetch
+ */
+export async function fetchCanonicalPointCloud(
+  domainId: string,
+  manifest: DomainManifest,
+  access: DomainAccess,
+  posemeshClientId: string,
+  maxBytes = MAX_POINT_CLOUD_BYTES
+): Promise<CanonicalPointCloud | null> {
+  const metadataItem = manifest.latest('domain_metadata')
+  const metadata = metadataItem
+    ? parseDomainMetadata(JSON.parse(new TextDecoder().decode(await downloadDomainFile(domainId, metadataItem.id, access, posemeshClientId))))
+    : null
+
+  const canonical = metadata?.canonicalRefinement ?? null
+  const refinement = canonical && manifest.refinedPointCloud(canonical) ? canonical : manifest.refinements()[0]
+  const item = refinement ? manifest.refinedPointCloud(refinement) : null
+  if (!item) return null
+  if (item.size && item.size > maxBytes) {
+    console.warn(`[${new Date().toISOString()}] Skipping ${item.size} byte point cloud of domain ${domainId}`)
+    return null
+  }
+
+  const ply = parsePly(await downloadDomainFile(domainId, item.id, access, posemeshClientId))
+  return {
+    ply,
+    alignmentMatrix: refinement === canonical ? metadata?.canonicalRefinementAlignmentMatrix ?? null : null,
+  }
+}
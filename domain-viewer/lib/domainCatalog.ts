@@ -0,0 +1,286 @@
+import { createHash } from 'crypto'
+import PosemeshServerApi from '@/utils/posemeshServerApi'
+import type { DomainListItem, DomainListPage, DomainListQuery, DomainSortField, SortOrder } from '@/types/domain'
+
+// Domain server URL for fetching domain list
+const DOMAIN_SERVER_URL = process.env.AUKI_DOMAIN_SERVER || 'https://domain-server-us-east-1.aukiverse.com'
+
+// How long a fetched domain list is served before it is refreshed
+const CATALOG_TTL_MS = Number(process.env.DOMAIN_CATALOG_TTL_SECONDS || 60) * 1000
+
+export const DEFAULT_DOMAIN_PAGE_SIZE = 50
+export const MAX_DOMAIN_PAGE_SIZE = 200
+
+const SORT_FIELDS: DomainSortField[] = ['name', 'created_at', 'updated_at']
+const SORT_ORDERS: SortOrder[] = ['asc', 'desc']
+
+export interface DomainCatalogSnapshot {
+  domains: DomainListItem[] // Ordered by name, then ID
+  fetchedAt: number
+  etag: string
+}
+
+interface CatalogCursor {
+  sort: DomainSortField
+  order: SortOrder
+  value: string
+  id: string
+}
+
+interface ParsedQueryResult {
+  success: boolean
+  data?: DomainListQuery
+  error?: string
+}
+
+let cachedSnapshot: DomainCatalogSnapshot | null = null
+let pendingRefresh: Promise<DomainCatalogSnapshot> | null = null
+
+/**
+ * Authenticates with the Auki Network and fetches every domain from the domain server.
+ * A 401 from the domain server drops the cached access token and retries once.
+ */
+async function fetchAllDomains(retried = false): Promise<DomainListItem[]> {
+  console.log(`[${new Date().toISOString()}] Fetching domain list from ${DOMAIN_SERVER_URL}`)
+
+  const appKey = process.env.AUKI_APP_KEY
+  const appSecret = process.env.AUKI_APP_SECRET
+
+  if (!appKey || !appSecret) {
+    throw new Error('Auki Network credentials are not configured')
+  }
+
+  // Access tokens come from the shared token cache
+  const apiClient = new PosemeshServerApi('domain-catalog')
+  await apiClient.authenticate(appKey, appSecret)
+
+  // Fetch domain list from the domain server
+  const response = await fetch(`${DOMAIN_SERVER_URL}/api/v1/domains`, {
+    headers: {
+      'Authorization': `Bearer ${apiClient.getAccessToken()}`,
+      'User-Agent': 'domain-viewer',
+      'Accept': 'application/json',
+    },
+    cache: 'no-store',
+  })
+
+  if (response.status === 401 && !retried) {
+    console.warn(`[${new Date().toISOString()}] Domain list request was unauthorized, refreshing access token`)
+    PosemeshServerApi.invalidateTokens(appKey)
+    return fetchAllDomains(true)
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '')
+    console.error(`[${new Date().toISOString()}] Domain list fetch failed:`, response.status, errorText)
+    throw new Error(`Failed to fetch domains: ${response.status} ${response.statusText}`)
+  }
+
+  const data = await response.json()
+  const domains: DomainListItem[] = data.domains || []
+  console.log(`[${new Date().toISOString()}] Fetched ${domains.length} domains`)
+
+  return domains
+}
+
+/**
+ * Returns the cached domain list, refreshing it once it is older than the TTL.
+ * Concurrent callers share a single refresh, and a failed refresh falls back to
+ * the previous snapshot when there is one.
+ */
+export async function getDomainCatalog(): Promise<DomainCatalogSnapshot> {
+  if (cachedSnapshot && Date.now() - cachedSnapshot.fetchedAt < CATALOG_TTL_MS) {
+    return cachedSnapshot
+  }
+
+  if (!pendingRefresh) {
+    pendingRefresh = fetchAllDomains()
+      .then((domains) => {
+        const sorted = [...domains].sort((a, b) => compareDomains(a, b, 'name', 'asc'))
+        const snapshot: DomainCatalogSnapshot = {
+          domains: sorted,
+          fetchedAt: Date.now(),
+          etag: hashOf(JSON.stringify(sorted)),
+        }
+        cachedSnapshot = snapshot
+        return snapshot
+      })
+      .catch((error) => {
+        if (cachedSnapshot) {
+          console.warn(`[${new Date().toISOString()}] Domain list refresh failed, serving stale catalog:`, error)
+          return cachedSnapshot
+        }
+        throw error
+      })
+      .finally(() => {
+        pendingRefresh = null
+      })
+  }
+
+  return pendingRefresh
+}
+
+export function hashOf(text: string): string {
+  return createHash('sha1').update(text).digest('base64url')
+}
+
+function sortValue(domain: DomainListItem, sort: DomainSortField): string {
+  return domain[sort] || ''
+}
+
+function compareDomains(a: DomainListItem, b: DomainListItem, sort: DomainSortField, order: SortOrder): number {
+  return compareKeys(sortValue(a, sort), a.id, sortValue(b, sort), b.id, sort, order)
+}
+
+function compareKeys(aValue: string, aId: string, bValue: string, bId: string, sort: DomainSortField, order: SortOrder): number {
+  let result = sort === 'name'
+    ? aValue.localeCompare(bValue, undefined, { sensitivity: 'base' })
+    : Date.parse(aValue || '0') - Date.parse(bValue || '0')
+  if (Number.isNaN(result)) result = 0
+  if (result === 0) {
+    result = aId < bId ? -1 : aId > bId ? 1 : 0
+  }
+  return order === 'asc' ? result : -result
+}
+
+// Cursors encode the sort key of the last returned item, so a page boundary
+// survives domains being added or removed between requests
+function encodeCursor(domain: DomainListItem, sort: DomainSortField, order: SortOrder): string {
+  const cursor: CatalogCursor = { sort, order, value: sortValue(domain, sort), id: domain.id }
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+function decodeCursor(cursor: string): CatalogCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (
+      !SORT_FIELDS.includes(parsed?.sort) ||
+      !SORT_ORDERS.includes(parsed?.order) ||
+      typeof parsed?.value !== 'string' ||
+      typeof parsed?.id !== 'string'
+    ) {
+      return null
+    }
+    return parsed
+  } catch {
+    return null
+  }
+}
+
+function isWithin(date: string, after?: string, before?: string): boolean {
+  if (!after && !before) return true
+  const time = Date.parse(date)
+  if (Number.isNaN(time)) return false
+  if (after && time < Date.parse(after)) return false
+  if (before && time > Date.parse(before)) return false
+  return true
+}
+
+/**
+ * Applies filters, ordering and cursor paging to a domain list.
+ *
+ * @param domains - Full domain list, typically from getDomainCatalog()
+ * @param query - Filters, ordering and paging options
+ * @returns The requested page
+ * @throws Error if the cursor is malformed or was issued for a different ordering
+ */
+export function queryDomainCatalog(domains: DomainListItem[], query: DomainListQuery = {}): DomainListPage {
+  const sort = query.sort ?? 'name'
+  const order = query.order ?? 'asc'
+  const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_DOMAIN_PAGE_SIZE), MAX_DOMAIN_PAGE_SIZE)
+  const search = query.search?.trim().toLowerCase()
+
+  let matches = domains.filter((domain) =>
+    (!search || domain.name?.toLowerCase().includes(search) || domain.id.toLowerCase().includes(search)) &&
+    isWithin(domain.created_at, query.createdAfter, query.createdBefore) &&
+    isWithin(domain.updated_at, query.updatedAfter, query.updatedBefore)
+  )
+  if (sort !== 'name' || order !== 'asc') {
+    matches = [...matches].sort((a, b) => compareDomains(a, b, sort, order))
+  }
+
+  let start = 0
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor)
+    if (!after || after.sort !== sort || after.order !== order) {
+      throw new Error('Invalid cursor')
+    }
+    start = matches.findIndex(
+      (domain) => compareKeys(sortValue(domain, sort), domain.id, after.value, after.id, sort, order) > 0
+    )
+    if (start === -1) start = matches.length
+  }
+
+  const page = matches.slice(start, start + limit)
+  const hasMore = start + limit < matches.length
+
+  return {
+    domains: page,
+    nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1], sort, order) : null,
+    total: matches.length,
+  }
+}
+
+/**
+ * Parses domain catalog query parameters as accepted by GET /api/domains.
+ *
+ * Supported parameters: q, created_after, created_before, updated_after, updated_before,
+ * sort (name | created_at | updated_at), order (asc | desc), limit and cursor.
+ */
+export function parseDomainListQuery(params: URLSearchParams): ParsedQueryResult {
+  const query: DomainListQuery = {}
+
+  const search = params.get('q')
+  if (search) query.search = search
+
+  const dates: [string, 'createdAfter' | 'createdBefore' | 'updatedAfter' | 'updatedBefore'][] = [
+    ['created_after', 'createdAfter'],
+    ['created_before', 'createdBefore'],
+    ['updated_after', 'updatedAfter'],
+    ['updated_before', 'updatedBefore'],
+  ]
+  for (const [param, key] of dates) {
+    const value = params.get(param)
+    if (!value) continue
+    if (Number.isNaN(Date.parse(value))) {
+      return { success: false, error: `Invalid ${param}: expected an ISO 8601 date` }
+    }
+    query[key] = value
+  }
+
+  const sort = params.get('sort')
+  if (sort) {
+    if (!SORT_FIELDS.includes(sort as DomainSortField)) {
+      return { success: false, error: `Invalid sort: expected one of ${SORT_FIELDS.join(', ')}` }
+    }
+    query.sort = sort as DomainSortField
+  }
+
+  const order = params.get('order')
+  if (order) {
+    if (!SORT_ORDERS.includes(order as SortOrder)) {
+      return { success: false, error: `Invalid order: expected one of ${SORT_ORDERS.join(', ')}` }
+    }
+    query.order = order as SortOrder
+  }
+
+  const limit = params.get('limit')
+  if (limit) {
+    const parsed = Number.parseInt(limit, 10)
+    if (!Number.isFinite(parsed) || parsed < 1) {
+      return { success: false, error: 'Invalid limit: expected a positive integer' }
+    }
+    query.limit = parsed
+  }
+
+  const cursor = params.get('cursor')
+  if (cursor) {
+    const decoded = decodeCursor(cursor)
+    if (!decoded || decoded.sort !== (query.sort ?? 'name') || decoded.order !== (query.order ?? 'asc')) {
+      return { success: false, error: 'Invalid cursor' }
+    }
+    query.cursor = cursor
+  }
+
+  return { success: true, data: query }
+}
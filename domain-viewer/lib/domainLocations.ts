@@ -0,0 +1,163 @@
+import { fetchDomainPortals, getDomainAccess } from '@/lib/domainAccess'
+import { getDomainCatalog, hashOf } from '@/lib/domainCatalog'
+import { geoToEastNorth, hasGpsFix } from '@/utils/geoTransform'
+import type { Portal } from '@/utils/posemeshClientApi'
+import { PosemeshApiError } from '@/utils/posemeshServerApi'
+import type { DomainListItem, DomainLocation, DomainLocationList } from '@/types/domain'
+
+const POSEMESH_CLIENT_ID = 'domain-locations'
+
+// Domains whose portals are fetched at the same time while building the list
+const FETCH_CONCURRENCY = 4
+// How long a domain whose portals could not be fetched waits before it is retried
+const FAILURE_RETRY_MS = 10 * 60 * 1000
+// How long a location is kept before its portals are fetched again. Portals can be
+// placed or moved without changing the domain's updated_at.
+const LOCATION_MAX_AGE_MS = 6 * 60 * 60 * 1000
+
+export interface DomainLocationsSnapshot extends DomainLocationList {
+  fetchedAt: number
+  etag: string
+}
+
+interface CachedLocation {
+  updatedAt: string // The domain's updated_at when its portals were fetched
+  location: DomainLocation | null // null when no portal has a GPS fix
+  fetchedAt: number
+  failedAt?: number
+}
+
+// Locations by domain ID. Entries stay valid until the domain's updated_at changes or
+// they are due a refetch.
+const locationCache = new Map<string, CachedLocation>()
+
+let cachedSnapshot: { catalogEtag: string; snapshot: DomainLocationsSnapshot } | null = null
+let pendingRefresh: Promise<DomainLocationsSnapshot> | null = null
+
+/**
+ * Places a domain at the accuracy-weighted mean of its portals' GPS fixes.
+ *
+ * @returns null when no portal has a GPS fix
+ */
+export function locateDomain(domain: DomainListItem, portals: Portal[]): DomainLocation | null {
+  const fixed = portals.filter(hasGpsFix)
+  if (fixed.length === 0) return null
+
+  const weights = fixed.map((p) => 1 / (p.horizontal_accuracy * p.horizontal_accuracy))
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0)
+  const lat = fixed.reduce((sum, p, i) => sum + p.latitude * weights[i], 0) / totalWeight
+  const lon = fixed.reduce((sum, p, i) => sum + p.longitude * weights[i], 0) / totalWeight
+  const radius = Math.max(
+    ...fixed.map((p) => Math.hypot(...geoToEastNorth({ lat: p.latitude, lon: p.longitude }, { lat, lon })))
+  )
+
+  return {
+    id: domain.id,
+    name: domain.name,
+    updated_at: domain.updated_at,
+    lat,
+    lon,
+    radius,
+    portalCount: fixed.length,
+  }
+}
+
+/**
+ * Whether a cached location is due a refetch: failures after the retry delay, other
+ * locations once they reach their maximum age.
+ */
+function isDue(cached: CachedLocation, now: number): boolean {
+  if (cached.failedAt !== undefined) return now - cached.failedAt > FAILURE_RETRY_MS
+  return now - cached.fetchedAt > LOCATION_MAX_AGE_MS
+}
+
+async function fetchLocation(domain: DomainListItem, refreshToken = false): Promise<DomainLocation | null> {
+  const access = await getDomainAccess(domain.id, POSEMESH_CLIENT_ID, refreshToken)
+  try {
+    return locateDomain(domain, await fetchDomainPortals(domain.id, access, POSEMESH_CLIENT_ID))
+  } catch (error) {
+    if (error instanceof PosemeshApiError && error.status === 401 && !refreshToken) {
+      return fetchLocation(domain, true)
+    }
+    throw error
+  }
+}
+
+/**
+ * Brings the cached location of every domain up to date, fetching portals only for
+ * domains that are new, were updated since, or are due a refetch.
+ */
+async function refreshLocations(domains: DomainListItem[]): Promise<void> {
+  const now = Date.now()
+  const stale = domains.filter((domain) => {
+    const cached = locationCache.get(domain.id)
+    return !cached || cached.updatedAt !== domain.updated_at || isDue(cached, now)
+  })
+  if (stale.length > 0) {
+    console.log(`[${new Date().toISOString()}] Locating ${stale.length} domains from portal GPS fixes`)
+  }
+
+  let next = 0
+  const worker = async () => {
+    while (next < stale.length) {
+      const domain = stale[next++]
+      try {
+        const location = await fetchLocation(domain)
+        locationCache.set(domain.id, { updatedAt: domain.updated_at, location, fetchedAt: Date.now() })
+      } catch (error) {
+        console.warn(`[${new Date().toISOString()}] Could not locate domain ${domain.id}:`, error)
+        // Keep serving the previous location, if any, until the retry succeeds
+        const previous = locationCache.get(domain.id)
+        locationCache.set(domain.id, {
+          updatedAt: domain.updated_at,
+          location: previous?.location ? { ...previous.location, name: domain.name } : null,
+          fetchedAt: previous?.fetchedAt ?? Date.now(),
+          failedAt: Date.now(),
+        })
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(FETCH_CONCURRENCY, stale.length) }, worker))
+
+  // Forget domains that are no longer listed
+  const listed = new Set(domains.map((domain) => domain.id))
+  for (const id of Array.from(locationCache.keys())) {
+    if (!listed.has(id)) locationCache.delete(id)
+  }
+}
+
+/**
+ * Returns the location of every domain in the catalog. Locations are cached per domain
+ * and only recomputed when the domain's updated_at changes or the location reaches its
+ * maximum age, so after the first call a request costs at most a few portal fetches. Concurrent callers share one refresh.
+ */
+export async function getDomainLocations(): Promise<DomainLocationsSnapshot> {
+  const catalog = await getDomainCatalog()
+  const now = Date.now()
+  const hasRefetchesDue = Array.from(locationCache.values()).some((cached) => isDue(cached, now))
+  if (cachedSnapshot && cachedSnapshot.catalogEtag === catalog.etag && !hasRefetchesDue) {
+    return cachedSnapshot.snapshot
+  }
+
+  if (!pendingRefresh) {
+    pendingRefresh = refreshLocations(catalog.domains)
+      .then(() => {
+        const locations = catalog.domains
+          .map((domain) => locationCache.get(domain.id)?.location)
+          .filter((location): location is DomainLocation => !!location)
+        const snapshot: DomainLocationsSnapshot = {
+          locations,
+          unlocated: catalog.domains.length - locations.length,
+          fetchedAt: Date.now(),
+          etag: hashOf(JSON.stringify(locations)),
+        }
+        cachedSnapshot = { catalogEtag: catalog.etag, snapshot }
+        return snapshot
+      })
+      .finally(() => {
+        pendingRefresh = null
+      })
+  }
+
+  return pendingRefresh
+}
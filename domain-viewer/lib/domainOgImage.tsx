@@ -0,0 +1,181 @@
+import { ImageResponse } from 'next/og'
+import { fetchDomainInfo } from '@/app/actions'
+import { fetchDomainManifest, fetchDomainPortals, getDomainAccess, type DomainAccess } from '@/lib/domainAccess'
+import { fetchCanonicalPointCloud, fetchNavMeshText } from '@/lib/domainAssets'
+import { withRenderSlot } from '@/lib/renderQueue'
+import { PosemeshApiError } from '@/utils/posemeshServerApi'
+import { navMeshSilhouette, pointCloudSilhouette, silhouettePath, type Silhouette } from '@/utils/silhouette'
+
+const POSEMESH_CLIENT_ID = 'domain-og-image'
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 }
+
+// Rendered cards kept in memory; the least recently rendered is dropped first
+const MAX_CACHED_IMAGES = 50
+// Side of the square the silhouette is fitted into
+const SILHOUETTE_BOX = 500
+// A coarse outline needs far fewer points than a thumbnail, so larger clouds are skipped
+const MAX_SILHOUETTE_POINT_CLOUD_BYTES = 50 * 1024 * 1024
+
+export interface DomainOgImage {
+  png: ArrayBuffer
+  updatedAt: string | null // The domain's updated_at, null for the generic card
+}
+
+interface CardDetails {
+  name: string
+  portalCount: number | null
+  createdAt: string | null
+  silhouette: Silhouette | null
+}
+
+// Cards by domain ID. Entries stay valid until the domain's updated_at changes.
+const imageCache = new Map<string, { updatedAt: string; png: ArrayBuffer }>()
+const pendingImages = new Map<string, Promise<ArrayBuffer>>()
+
+function formatDate(value: string): string | null {
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return null
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+function renderCard({ name, portalCount, createdAt, silhouette }: CardDetails): Promise<ArrayBuffer> {
+  const facts = [
+    portalCount !== null ? `${portalCount} ${portalCount === 1 ? 'portal' : 'portals'}` : null,
+    createdAt ? `Created ${createdAt}` : null,
+  ].filter(Boolean)
+  const scale = silhouette ? SILHOUETTE_BOX / Math.max(silhouette.columns, silhouette.rows) : 0
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          padding: 64,
+          background: '#050505',
+          color: '#ffffff',
+        }}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column', flex: 1, height: '100%', justifyContent: 'space-between' }}>
+          <div style={{ display: 'flex', fontSize: 28, color: '#a3a3a3' }}>Real World Web domain</div>
+          <div style={{ display: 'flex', flexDirection: 'column' }}>
+            <div style={{ display: 'flex', fontSize: name.length > 24 ? 56 : 72, lineHeight: 1.1, marginBottom: 24 }}>{name}</div>
+            {facts.length > 0 && <div style={{ display: 'flex', fontSize: 32, color: '#d4d4d4' }}>{facts.join(' · ')}</div>}
+          </div>
+          <div style={{ display: 'flex', fontSize: 24, color: '#737373' }}>OpenSrc Domains</div>
+        </div>
+        {silhouette && (
+          <div style={{ display: 'flex', width: SILHOUETTE_BOX, height: SILHOUETTE_BOX, alignItems: 'center', justifyContent: 'center', marginLeft: 48 }}>
+            <svg
+              width={silhouette.columns * scale}
+              height={silhouette.rows * scale}
+              viewBox={`0 0 ${silhouette.columns} ${silhouette.rows}`}
+            >
+              <path d={silhouettePath(silhouette, 1)} fill="#4ade80" />
+            </svg>
+          </div>
+        )}
+      </div>
+    ),
+    OG_IMAGE_SIZE
+  ).arrayBuffer()
+}
+
+/**
+ * Outline of the domain seen from above, from its nav mesh or else its point cloud.
+ *
+ * @returns null when the domain has neither
+ * @throws RenderQueueFullError if the point cloud is needed and too many renders are queued
+ */
+async function fetchSilhouette(domainId: string, access: DomainAccess): Promise<Silhouette | null> {
+  const manifest = await fetchDomainManifest(domainId, access, POSEMESH_CLIENT_ID)
+  const navMesh = await fetchNavMeshText(domainId, manifest, access, POSEMESH_CLIENT_ID)
+  const fromNavMesh = navMesh ? navMeshSilhouette(navMesh) : null
+  if (fromNavMesh) return fromNavMesh
+
+  // Point clouds share the server's render slots with thumbnails, so crawlers cannot fan out downloads
+  return withRenderSlot(async () => {
+    const pointCloud = await fetchCanonicalPointCloud(
+      domainId,
+      manifest,
+      access,
+      POSEMESH_CLIENT_ID,
+      MAX_SILHOUETTE_POINT_CLOUD_BYTES
+    )
+    return pointCloud ? pointCloudSilhouette(pointCloud.ply.positions, pointCloud.alignmentMatrix) : null
+  })
+}
+
+async function fetchCardDetails(
+  domainId: string,
+  access: DomainAccess,
+  refreshToken = false
+): Promise<Pick<CardDetails, 'portalCount' | 'silhouette'>> {
+  try {
+    const [portals, silhouette] = await Promise.all([
+      fetchDomainPortals(domainId, access, POSEMESH_CLIENT_ID),
+      fetchSilhouette(domainId, access),
+    ])
+    return { portalCount: portals.length, silhouette }
+  } catch (error) {
+    if (error instanceof PosemeshApiError && error.status === 401 && !refreshToken) {
+      return fetchCardDetails(domainId, await getDomainAccess(domainId, POSEMESH_CLIENT_ID, true), true)
+    }
+    throw error
+  }
+}
+
+const renderGenericCard = () =>
+  renderCard({ name: 'Real World Web domain', portalCount: null, createdAt: null, silhouette: null })
+
+/**
+ * Renders the Open Graph card of a domain: its name, portal count, creation date and
+ * outline. Cards are cached until the domain's updated_at changes. When the domain
+ * cannot be read, or the server is too busy to render its outline, a generic card is
+ * returned and not cached.
+ */
+export async function getDomainOgImage(domainId: string): Promise<DomainOgImage> {
+  const result = await fetchDomainInfo(domainId, POSEMESH_CLIENT_ID)
+  if (!result.success || !result.data) {
+    return { png: await renderGenericCard(), updatedAt: null }
+  }
+
+  const { domainInfo } = result.data
+  const { updatedAt } = domainInfo
+  const cached = imageCache.get(domainId)
+  if (cached && cached.updatedAt === updatedAt) {
+    return { png: cached.png, updatedAt }
+  }
+
+  const key = `${domainId}@${updatedAt}`
+  let pending = pendingImages.get(key)
+  if (!pending) {
+    pending = getDomainAccess(domainId, POSEMESH_CLIENT_ID)
+      .then((access) => fetchCardDetails(domainId, access))
+      .then((details) =>
+        renderCard({
+          name: domainInfo.name || domainId,
+          createdAt: domainInfo.createdAt ? formatDate(domainInfo.createdAt) : null,
+          ...details,
+        })
+      )
+      .finally(() => pendingImages.delete(key))
+    pendingImages.set(key, pending)
+  }
+
+  try {
+    const png = await pending
+    imageCache.delete(domainId)
+    imageCache.set(domainId, { updatedAt, png })
+    if (imageCache.size > MAX_CACHED_IMAGES) {
+      imageCache.delete(imageCache.keys().next().value!)
+    }
+    return { png, updatedAt }
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error rendering Open Graph image for domain ${domainId}:`, error)
+    return { png: await renderGenericCard(), updatedAt: null }
+  }
+}
@@ -0,0 +1,114 @@
+import { abortable } from '@/utils/abort';
+import type { DomainListItem, DomainListPage, DomainListQuery, DomainLocationList } from '@/types/domain';
+
+/**
+ * URL of a domain's server-rendered thumbnail. The updated_at in the query makes
+ * browsers fetch a new image once the domain changes.
+ */
+export function domainThumbnailUrl(domain: Pick<DomainListItem, 'id' | 'updated_at'>): string {
+  return `/api/domains/${encodeURIComponent(domain.id)}/thumbnail?v=${encodeURIComponent(domain.updated_at)}`;
+}
+
+// Seconds to wait before asking again for a thumbnail when the server does not say
+const DEFAULT_THUMBNAIL_RETRY_AFTER = 15;
+// Requests for a thumbnail that is not ready before giving up on it
+const MAX_THUMBNAIL_ATTEMPTS = 20;
+
+function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return abortable(new Promise<void>((resolve) => setTimeout(resolve, ms)), signal);
+}
+
+/**
+ * Fetches a domain's thumbnail. The server answers 202 while it renders the thumbnail
+ * and 503 while too many renders are queued; both are asked again after their
+ * Retry-After.
+ *
+ * @param url - As returned by domainThumbnailUrl
+ * @returns null when the domain has no thumbnail or it never became ready
+ */
+export async function fetchDomainThumbnail(url: string, signal?: AbortSignal): Promise<Blob | null> {
+  for (let attempt = 0; attempt < MAX_THUMBNAIL_ATTEMPTS; attempt++) {
+    const response = await fetch(url, { signal });
+    if (response.status === 200) return response.blob();
+    if (response.status !== 202 && response.status !== 503) return null;
+
+    const retryAfter = Number(response.headers.get('retry-after')) || DEFAULT_THUMBNAIL_RETRY_AFTER;
+    await waitFor(retryAfter * 1000, signal);
+  }
+  return null;
+}
+
+interface DomainPageResponse {
+  success: boolean;
+  data?: DomainListPage;
+  error?: string;
+}
+
+/**
+ * Fetches one page of the domain catalog from /api/domains.
+ * The browser revalidates with the response ETag, so repeated requests for an
+ * unchanged catalog are answered with a 304.
+ */
+export async function fetchDomainPage(query: DomainListQuery = {}): Promise<DomainPageResponse> {
+  const params = new URLSearchParams();
+  if (query.search) params.set('q', query.search);
+  if (query.createdAfter) params.set('created_after', query.createdAfter);
+  if (query.createdBefore) params.set('created_before', query.createdBefore);
+  if (query.updatedAfter) params.set('updated_after', query.updatedAfter);
+  if (query.updatedBefore) params.set('updated_before', query.updatedBefore);
+  if (query.sort) params.set('sort', query.sort);
+  if (query.order) params.set('order', query.order);
+  if (query.limit) params.set('limit', String(query.limit));
+  if (query.cursor) params.set('cursor', query.cursor);
+
+  try {
+    const response = await fetch(`/api/domains?${params.toString()}`, { cache: 'no-cache' });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return {
+      success: true,
+      data,
+    };
+  } catch (error) {
+    console.error('Failed to fetch domains:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+interface DomainLocationsResponse {
+  success: boolean;
+  data?: DomainLocationList;
+  error?: string;
+}
+
+/**
+ * Fetches the location of every domain from /api/domains/locations.
+ */
+export async function fetchDomainLocations(): Promise<DomainLocationsResponse> {
+  try {
+    const response = await fetch('/api/domains/locations', { cache: 'no-cache' });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return {
+      success: true,
+      data,
+    };
+  } catch (error) {
+    console.error('Failed to fetch domain locations:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
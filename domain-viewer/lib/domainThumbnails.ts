@@ -0,0 +1,122 @@
+import { mkdir, readFile, readdir, rename, unlink, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { fetchDomainManifest, getDomainAccess } from '@/lib/domainAccess'
+import { fetchCanonicalPointCloud } from '@/lib/domainAssets'
+import { getDomainCatalog, hashOf } from '@/lib/domainCatalog'
+import { encodePng } from '@/lib/png'
+import { isRenderQueueFull, withRenderSlot } from '@/lib/renderQueue'
+import { PosemeshApiError } from '@/utils/posemeshServerApi'
+import { rasterizeTopDown } from '@/utils/topDownRaster'
+
+const POSEMESH_CLIENT_ID = 'domain-thumbnails'
+
+const THUMBNAIL_WIDTH = 512
+const THUMBNAIL_HEIGHT = 384
+
+const CACHE_DIR = process.env.THUMBNAIL_CACHE_DIR || path.join(os.tmpdir(), 'domain-thumbnails')
+
+// How long a domain whose thumbnail failed to render waits before it is retried
+const FAILURE_RETRY_MS = 10 * 60 * 1000
+
+export type DomainThumbnailResult =
+  | { status: 'ready'; png: Buffer; updatedAt: string } // updatedAt is the domain's when the thumbnail was rendered
+  | { status: 'rendering' } // Being rendered in the background; ask again later
+  | { status: 'busy' } // Too many renders are queued to start another
+  | { status: 'missing' } // Not in the catalog, no point cloud, or the last render failed recently
+
+interface MissingThumbnail {
+  updatedAt: string
+  failedAt?: number // Unset when the domain has no point cloud to render
+}
+
+// Domains without a thumbnail, by domain ID. Entries stay valid until the domain's
+// updated_at changes, or for failures until the retry is due.
+const missingThumbnails = new Map<string, MissingThumbnail>()
+// File names of thumbnails being rendered
+const pendingRenders = new Set<string>()
+
+/**
+ * Downloads a domain's point cloud and renders it from above.
+ *
+ * @returns null when the domain has no point cloud small enough to render
+ */
+async function renderThumbnail(domainId: string, refreshToken = false): Promise<Buffer | null> {
+  const access = await getDomainAccess(domainId, POSEMESH_CLIENT_ID, refreshToken)
+  try {
+    const manifest = await fetchDomainManifest(domainId, access, POSEMESH_CLIENT_ID)
+    const pointCloud = await fetchCanonicalPointCloud(domainId, manifest, access, POSEMESH_CLIENT_ID)
+    if (!pointCloud) return null
+
+    const { positions, colors } = pointCloud.ply
+    const image = rasterizeTopDown(positions, colors, pointCloud.alignmentMatrix, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT)
+    return image ? encodePng(image.width, image.height, image.rgba) : null
+  } catch (error) {
+    if (error instanceof PosemeshApiError && error.status === 401 && !refreshToken) {
+      return renderThumbnail(domainId, true)
+    }
+    throw error
+  }
+}
+
+/**
+ * Writes a thumbnail to the disk cache and removes the domain's older thumbnails.
+ * Files are renamed into place so a concurrent reader never sees a partial file.
+ */
+async function storeThumbnail(domainId: string, fileName: string, png: Buffer): Promise<void> {
+  await mkdir(CACHE_DIR, { recursive: true })
+  const temporary = path.join(CACHE_DIR, `${fileName}.${process.pid}.tmp`)
+  await writeFile(temporary, png)
+  await rename(temporary, path.join(CACHE_DIR, fileName))
+
+  const stale = (await readdir(CACHE_DIR)).filter((name) => name.startsWith(`${domainId}-`) && name !== fileName)
+  await Promise.all(stale.map((name) => unlink(path.join(CACHE_DIR, name)).catch(() => {})))
+}
+
+/**
+ * Returns a top-down PNG preview of a domain's point cloud, rendered on the CPU.
+ * Thumbnails are cached on disk until the domain's updated_at changes. A thumbnail
+ * that is not cached is rendered in the background, at most once at a time per
+ * domain, and the call returns without waiting for it.
+ */
+export async function getDomainThumbnail(domainId: string): Promise<DomainThumbnailResult> {
+  // Only listed domains are rendered, which also keeps the ID safe to use in a file name
+  const catalog = await getDomainCatalog()
+  const domain = catalog.domains.find((d) => d.id === domainId)
+  if (!domain) return { status: 'missing' }
+
+  const { updated_at: updatedAt } = domain
+  const fileName = `${domainId}-${hashOf(updatedAt)}.png`
+  const cached = await readFile(path.join(CACHE_DIR, fileName)).catch(() => null)
+  if (cached) return { status: 'ready', png: cached, updatedAt }
+
+  const missing = missingThumbnails.get(domainId)
+  if (
+    missing &&
+    missing.updatedAt === updatedAt &&
+    (missing.failedAt === undefined || Date.now() - missing.failedAt < FAILURE_RETRY_MS)
+  ) {
+    return { status: 'missing' }
+  }
+
+  if (pendingRenders.has(fileName)) return { status: 'rendering' }
+  if (isRenderQueueFull()) return { status: 'busy' }
+
+  pendingRenders.add(fileName)
+  withRenderSlot(async () => {
+    console.log(`[${new Date().toISOString()}] Rendering thumbnail of domain ${domainId}`)
+    const png = await renderThumbnail(domainId)
+    if (png) {
+      await storeThumbnail(domainId, fileName, png)
+      missingThumbnails.delete(domainId)
+    } else {
+      missingThumbnails.set(domainId, { updatedAt })
+    }
+  })
+    .catch((error) => {
+      console.error(`[${new Date().toISOString()}] Error rendering thumbnail of domain ${domainId}:`, error)
+      missingThumbnails.set(domainId, { updatedAt, failedAt: Date.now() })
+    })
+    .finally(() => pendingRenders.delete(fileName))
+  return { status: 'rendering' }
+}
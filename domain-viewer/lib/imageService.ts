@@ -1,4 +1,6 @@
-import { ImageApiResponse } from '@/types/image';
+import { ImageApiResponse, ImageData } from '@/types/image';
+import { domainThumbnailUrl, fetchDomainPage } from '@/lib/domainService';
+import { FALLBACK_IMAGES } from '@/utils/fallbackImages';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || '/api';
 
@@ -28,3 +30,46 @@ export async function fetchImages(): Promise<ImageApiResponse> {
     };
   }
 }
+
+/**
+ * Whether a thumbnail is ready or being rendered. Thumbnails the server is too busy to
+ * render are left out rather than retried, so the tunnel does not wait on them.
+ */
+async function isThumbnailComing(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(url);
+    response.body?.cancel();
+    return response.status === 200 || response.status === 202;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Builds images from the thumbnails of the most recently updated domains, each
+ * linking to its domain. A stock photo stands in for domains without a thumbnail,
+ * and for those whose thumbnail the server cannot render yet.
+ */
+export async function fetchDomainImages(limit: number): Promise<ImageApiResponse> {
+  const result = await fetchDomainPage({ sort: 'updated_at', order: 'desc', limit });
+  if (!result.success || !result.data) {
+    return { success: false, data: [], error: result.error };
+  }
+
+  const images = await Promise.all(
+    result.data.domains.map(async (domain, i): Promise<ImageData> => {
+      const thumbnailUrl = domainThumbnailUrl(domain);
+      const fallbackImageUrl = FALLBACK_IMAGES[i % FALLBACK_IMAGES.length].imageUrl;
+      const hasThumbnail = await isThumbnailComing(thumbnailUrl);
+      return {
+        id: domain.id,
+        imageUrl: hasThumbnail ? thumbnailUrl : fallbackImageUrl,
+        fallbackImageUrl: hasThumbnail ? fallbackImageUrl : undefined,
+        isDomainThumbnail: hasThumbnail,
+        linkUrl: `/${domain.id}`,
+        metadata: { title: domain.name, createdAt: domain.created_at },
+      };
+    })
+  );
+  return { success: true, data: images };
+}
@@ -0,0 +1,44 @@
+// Server-side renders that download a whole point cloud, run at the same time
+const RENDER_CONCURRENCY = 2
+// Renders waiting for a slot before new ones are turned away
+const MAX_QUEUED_RENDERS = 8
+
+export class RenderQueueFullError extends Error {
+  constructor() {
+    super('Too many renders are queued')
+    this.name = 'RenderQueueFullError'
+  }
+}
+
+let activeRenders = 0
+const waitingRenders: (() => void)[] = []
+
+/**
+ * Whether a render queued now would be turned away.
+ */
+export function isRenderQueueFull(): boolean {
+  return activeRenders >= RENDER_CONCURRENCY && waitingRenders.length >= MAX_QUEUED_RENDERS
+}
+
+/**
+ * Runs a render that holds a point cloud in memory once a slot is free. The queue is
+ * shared by every such render in the process, so their memory use stays bounded.
+ *
+ * @throws RenderQueueFullError if the queue is full
+ */
+export async function withRenderSlot<T>(render: () => Promise<T>): Promise<T> {
+  if (activeRenders >= RENDER_CONCURRENCY) {
+    if (waitingRenders.length >= MAX_QUEUED_RENDERS) throw new RenderQueueFullError()
+    await new Promise<void>((resolve) => waitingRenders.push(resolve))
+  } else {
+    activeRenders++
+  }
+  try {
+    return await render()
+  } finally {
+    // The slot passes straight to the next waiting render, so no newcomer can take it first
+    const next = waitingRenders.shift()
+    if (next) next()
+    else activeRenders--
+  }
+}
@@ -5,8 +5,28 @@ export interface CameraPose {
   target?: [number, number, number];
 }
 
+// A request to animate the camera to look at a point; a new object re-triggers the flight
+export interface CameraFlyToRequest {
+  target: [number, number, number];
+  distance: number; // Meters from the target the camera ends up
+}
+
+// How the viewer camera is driven: orbiting map controls or first-person walk/fly
+export type ControlMode = "map" | "fps";
+
+// A camera view to jump to once, such as one restored from a shared link
+export interface CameraView {
+  position: [number, number, number];
+  target: [number, number, number]; // Orbit target, or a point straight ahead in FPS mode
+}
+
 import { atom } from "jotai";
 
 export const cameraPoseAtom = atom<CameraPose | null>(null);
 
+export const cameraFlyToAtom = atom<CameraFlyToRequest | null>(null);
+
+export const controlModeAtom = atom<ControlMode>("map");
 
+// Applied and cleared once the controls for the current mode are ready
+export const cameraRestoreAtom = atom<CameraView | null>(null);
@@ -0,0 +1,52 @@
+export type Vec3 = [number, number, number];
+
+export interface Bounds {
+  min: Vec3;
+  max: Vec3;
+}
+
+export interface ClipBox {
+  center: Vec3;
+  size: Vec3;
+  rotation: number; // Yaw around the vertical axis, in radians
+}
+
+// Horizontal section between two heights
+export interface SliceRange {
+  bottom: number;
+  top: number;
+}
+
+export interface ClippingState {
+  boxEnabled: boolean;
+  box: ClipBox | null; // Null until first fitted to the scene
+  sliceEnabled: boolean;
+  slice: SliceRange | null;
+}
+
+// Scene layers that report their world bounds
+export type BoundsSource = "pointcloud" | "navmesh" | "occlusion";
+
+import { atom } from "jotai";
+
+export const clippingAtom = atom<ClippingState>({
+  boxEnabled: false,
+  box: null,
+  sliceEnabled: false,
+  slice: null,
+});
+
+export const sceneBoundsSourcesAtom = atom<Partial<Record<BoundsSource, Bounds>>>({});
+
+// Union of the bounds of every loaded layer
+export const sceneBoundsAtom = atom<Bounds | null>((get) => {
+  const sources = Object.values(get(sceneBoundsSourcesAtom));
+  if (sources.length === 0) return null;
+  return sources.reduce((union, bounds) => ({
+    min: union.min.map((value, axis) => Math.min(value, bounds.min[axis])) as Vec3,
+    max: union.max.map((value, axis) => Math.max(value, bounds.max[axis])) as Vec3,
+  }));
+});
+
+// Heights of walkable floors found in the nav mesh, lowest first
+export const floorLevelsAtom = atom<number[]>([]);
@@ -0,0 +1,17 @@
+export type CompareDisplay = "split" | "overlay";
+
+export interface CompareSettings {
+  display: CompareDisplay;
+  heatmap: boolean; // Color B by its distance to A
+  maxDistance: number; // Heatmap range and C2C search radius, in meters
+}
+
+import { atom } from "jotai";
+
+export const DEFAULT_COMPARE_SETTINGS: CompareSettings = {
+  display: "split",
+  heatmap: false,
+  maxDistance: 0.1,
+};
+
+export const compareSettingsAtom = atom<CompareSettings>(DEFAULT_COMPARE_SETTINGS);
@@ -0,0 +1,24 @@
+import type { Vec3 } from "./clipping-store";
+
+export type MeasurementType = "distance" | "polyline" | "area" | "height";
+
+export interface Measurement {
+  id: string;
+  type: MeasurementType;
+  // Picked points in world space; for height, the picked point and the floor below it
+  points: Vec3[];
+  value: number; // Meters, or square meters for area
+  createdAt: string;
+}
+
+import { atom } from "jotai";
+
+// The tool clicks in the viewer currently feed, or null when measuring is off
+export const activeMeasurementToolAtom = atom<MeasurementType | null>(null);
+
+// Points of the measurement being drawn
+export const draftMeasurementPointsAtom = atom<Vec3[]>([]);
+
+export const measurementsAtom = atom<Measurement[]>([]);
+
+export const selectedMeasurementIdAtom = atom<string | null>(null);
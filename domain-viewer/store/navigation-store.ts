@@ -0,0 +1,56 @@
+import type { Object3D } from "three";
+import type { Vec3 } from "./clipping-store";
+import { NavGraph, NavPath, findPath } from "@/utils/navGraph";
+
+export type RouteEndpointKind = "start" | "goal";
+
+export interface RouteEndpoint {
+  position: Vec3;
+  label: string; // A portal's short id, or "Picked point"
+}
+
+export interface RouteState {
+  start: RouteEndpoint | null;
+  goal: RouteEndpoint | null;
+}
+
+// Fly moves freely at a fixed height; walk follows the nav mesh and stops at walls
+export type FPSMovementMode = "fly" | "walk";
+
+export interface FPSSettings {
+  mode: FPSMovementMode;
+  eyeHeight: number; // Meters above the floor
+  walkSpeed: number; // Meters per second, doubled while Shift is held
+}
+
+export const DEFAULT_FPS_SETTINGS: FPSSettings = {
+  mode: "fly",
+  eyeHeight: 1.8,
+  walkSpeed: 1.4,
+};
+
+import { atom } from "jotai";
+
+// Triangle graph of the loaded nav mesh
+export const navGraphAtom = atom<NavGraph | null>(null);
+
+// Double-sided copy of the occlusion mesh that walk mode collides with; not part of the scene
+export const collisionMeshAtom = atom<Object3D | null>(null);
+
+export const routeAtom = atom<RouteState>({ start: null, goal: null });
+
+// The route endpoint the next click on the nav mesh sets, or null when not picking
+export const routePickAtom = atom<RouteEndpointKind | null>(null);
+
+// Shortest walkable path between the route endpoints, null when there is none
+export const routePathAtom = atom<NavPath | null>((get) => {
+  const graph = get(navGraphAtom);
+  const { start, goal } = get(routeAtom);
+  if (!graph || !start || !goal) return null;
+  return findPath(graph, start.position, goal.position);
+});
+
+// Whether FPS mode is walking the route
+export const autoWalkAtom = atom(false);
+
+export const fpsSettingsAtom = atom<FPSSettings>(DEFAULT_FPS_SETTINGS);
@@ -0,0 +1,34 @@
+export type PointColorMode = "rgb" | "elevation" | "distance" | "intensity" | "normals";
+
+export type PointShape = "round" | "square";
+
+export interface PointCloudStyle {
+  colorMode: PointColorMode;
+  shape: PointShape;
+  pointSize: number; // Multiplier on the base point size
+  adaptiveSize: boolean; // Size points by the local density of the level of detail
+  edl: boolean; // Eye-dome lighting post pass
+  edlStrength: number;
+}
+
+// Optional attributes of the loaded point cloud, so the UI can disable modes that need them
+export interface PointCloudAttributes {
+  hasColors: boolean;
+  hasNormals: boolean;
+  hasIntensities: boolean;
+}
+
+import { atom } from "jotai";
+
+export const DEFAULT_POINT_CLOUD_STYLE: PointCloudStyle = {
+  colorMode: "rgb",
+  shape: "square",
+  pointSize: 1,
+  adaptiveSize: false,
+  edl: false,
+  edlStrength: 1,
+};
+
+export const pointCloudStyleAtom = atom<PointCloudStyle>(DEFAULT_POINT_CLOUD_STYLE);
+
+export const pointCloudAttributesAtom = atom<PointCloudAttributes | null>(null);
@@ -0,0 +1,34 @@
+// A request to animate the camera to a portal; a new object re-triggers the flight to the same portal
+export interface PortalFlyToRequest {
+  portalId: string;
+}
+
+// A portal clicked in the 3D view; a new object for every click, even on the same portal
+export interface PortalClick {
+  portalId: string;
+}
+
+// What portal markers are colored by in the accuracy overlay
+export type PortalColorMode = "none" | "accuracy" | "age";
+
+export interface PortalOverlayState {
+  ellipsoids: boolean; // GPS uncertainty ellipsoids around each portal
+  labels: boolean; // short_id labels
+  colorMode: PortalColorMode;
+}
+
+import { atom } from "jotai";
+
+export const selectedPortalIdAtom = atom<string | null>(null);
+
+export const hoveredPortalIdAtom = atom<string | null>(null);
+
+export const portalClickAtom = atom<PortalClick | null>(null);
+
+export const portalFlyToAtom = atom<PortalFlyToRequest | null>(null);
+
+export const portalOverlayAtom = atom<PortalOverlayState>({
+  ellipsoids: false,
+  labels: false,
+  colorMode: "none",
+});
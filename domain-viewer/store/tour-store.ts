@@ -0,0 +1,27 @@
+import type { Vec3 } from "./clipping-store";
+
+// A named camera bookmark; in order, the viewpoints of a domain make up its tour
+export interface Viewpoint {
+  id: string;
+  name: string;
+  position: Vec3;
+  target: Vec3;
+  caption: string; // Shown while the tour is at this stop, empty for none
+}
+
+// The stop the camera is flying to or resting at; a new object restarts the flight
+export interface TourPlayback {
+  index: number;
+  playing: boolean; // Moves on to the next stop after a pause; false just visits one viewpoint
+  loop: boolean; // Starts over after the last stop instead of ending
+}
+
+import { atom } from "jotai";
+
+// Viewpoints of the current domain
+export const viewpointsAtom = atom<Viewpoint[]>([]);
+
+export const tourPlaybackAtom = atom<TourPlayback | null>(null);
+
+// Whether the viewpoints could not be saved in this browser's storage
+export const tourSaveFailedAtom = atom(false);
@@ -0,0 +1,47 @@
+// Domain list item from the domain server
+export interface DomainListItem {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DomainSortField = 'name' | 'created_at' | 'updated_at';
+export type SortOrder = 'asc' | 'desc';
+
+// Filters, ordering and paging for the domain catalog
+export interface DomainListQuery {
+  search?: string; // Case-insensitive match against domain name or ID
+  createdAfter?: string; // ISO date, inclusive
+  createdBefore?: string; // ISO date, inclusive
+  updatedAfter?: string; // ISO date, inclusive
+  updatedBefore?: string; // ISO date, inclusive
+  sort?: DomainSortField;
+  order?: SortOrder;
+  cursor?: string | null; // Opaque cursor returned as nextCursor by the previous page
+  limit?: number;
+}
+
+// A single page of the domain list
+export interface DomainListPage {
+  domains: DomainListItem[];
+  nextCursor: string | null; // null when there are no more pages
+  total: number; // Number of domains matching the filters
+}
+
+// Where a domain is on the globe, aggregated from its portals' GPS fixes
+export interface DomainLocation {
+  id: string;
+  name: string;
+  updated_at: string;
+  lat: number;
+  lon: number;
+  radius: number; // Meters from the location to the farthest portal fix
+  portalCount: number; // Portals with a GPS fix
+}
+
+// Located domains, plus how many domains have no portal with a GPS fix
+export interface DomainLocationList {
+  locations: DomainLocation[];
+  unlocated: number;
+}
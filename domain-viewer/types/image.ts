@@ -2,6 +2,8 @@
 export interface ImageData {
   id: string;
   imageUrl: string;
+  fallbackImageUrl?: string; // Shown instead when imageUrl fails to load
+  isDomainThumbnail?: boolean; // imageUrl may answer 202 or 503 until the server has rendered it
   linkUrl: string;
   metadata?: ImageMetadata;
 }
@@ -0,0 +1,213 @@
+/**
+ * Persistent client-side cache for downloaded domain assets, backed by IndexedDB.
+ * Entries are keyed by domain ID, file ID and the data item's updated_at, so a
+ * re-uploaded asset is never served stale. Least recently used entries are evicted
+ * once the cache grows past its size limit.
+ *
+ * Every function degrades to a no-op (or a miss) where IndexedDB is unavailable.
+ */
+
+export interface AssetCacheKey {
+  domainId: string;
+  fileId: string;
+  updatedAt: string;
+}
+
+export interface AssetCacheUsage {
+  bytes: number;
+  count: number;
+  limit: number;
+}
+
+interface AssetCacheEntry {
+  key: string;
+  domainId: string;
+  fileId: string;
+  updatedAt: string;
+  size: number;
+  lastAccess: number;
+}
+
+const DB_NAME = "domain-viewer-assets";
+const DB_VERSION = 1;
+// Metadata is kept apart from the blobs so eviction never has to read asset data
+const ENTRIES_STORE = "entries";
+const BLOBS_STORE = "blobs";
+
+const LIMIT_STORAGE_KEY = "asset_cache_limit";
+export const DEFAULT_ASSET_CACHE_LIMIT = 1024 * 1024 * 1024; // 1 GB
+export const ASSET_CACHE_LIMIT_OPTIONS = [256, 512, 1024, 2048].map((mb) => mb * 1024 * 1024);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function toKey({ domainId, fileId, updatedAt }: AssetCacheKey): string {
+  return `${domainId}/${fileId}/${updatedAt}`;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> | null {
+  if (typeof indexedDB === "undefined") return null;
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: "key" });
+        entries.createIndex("lastAccess", "lastAccess");
+        db.createObjectStore(BLOBS_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      console.warn("Asset cache unavailable:", error);
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+export function getAssetCacheLimit(): number {
+  if (typeof localStorage === "undefined") return DEFAULT_ASSET_CACHE_LIMIT;
+  const stored = Number(localStorage.getItem(LIMIT_STORAGE_KEY));
+  return stored > 0 ? stored : DEFAULT_ASSET_CACHE_LIMIT;
+}
+
+/**
+ * Changes the cache size limit and evicts entries until the cache fits.
+ */
+export async function setAssetCacheLimit(bytes: number): Promise<void> {
+  localStorage.setItem(LIMIT_STORAGE_KEY, String(bytes));
+  await evict();
+}
+
+/**
+ * Returns a cached asset and marks it as recently used.
+ *
+ * @returns The asset data, or null on a miss
+ */
+export async function getCachedAsset(key: AssetCacheKey): Promise<ArrayBuffer | null> {
+  try {
+    const db = await openDb();
+    if (!db) return null;
+
+    const transaction = db.transaction([ENTRIES_STORE, BLOBS_STORE], "readwrite");
+    const done = transactionDone(transaction);
+    const entries = transaction.objectStore(ENTRIES_STORE);
+    const cacheKey = toKey(key);
+
+    const entry: AssetCacheEntry | undefined = await requestToPromise(entries.get(cacheKey));
+    if (!entry) {
+      await done;
+      return null;
+    }
+    const data: ArrayBuffer | undefined = await requestToPromise(transaction.objectStore(BLOBS_STORE).get(cacheKey));
+    if (data) {
+      entries.put({ ...entry, lastAccess: Date.now() });
+    }
+    await done;
+    return data ?? null;
+  } catch (error) {
+    console.warn("Asset cache read failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Stores an asset, replacing older versions of the same file, then evicts least
+ * recently used entries until the cache is within its limit.
+ */
+export async function putCachedAsset(key: AssetCacheKey, data: ArrayBuffer): Promise<void> {
+  if (data.byteLength > getAssetCacheLimit()) return;
+  try {
+    const db = await openDb();
+    if (!db) return;
+
+    const transaction = db.transaction([ENTRIES_STORE, BLOBS_STORE], "readwrite");
+    const done = transactionDone(transaction);
+    const entries = transaction.objectStore(ENTRIES_STORE);
+    const blobs = transaction.objectStore(BLOBS_STORE);
+    const cacheKey = toKey(key);
+
+    const existing: AssetCacheEntry[] = await requestToPromise(entries.getAll());
+    existing
+      .filter((entry) => entry.domainId === key.domainId && entry.fileId === key.fileId && entry.key !== cacheKey)
+      .forEach((entry) => {
+        entries.delete(entry.key);
+        blobs.delete(entry.key);
+      });
+
+    const entry: AssetCacheEntry = { ...key, key: cacheKey, size: data.byteLength, lastAccess: Date.now() };
+    entries.put(entry);
+    blobs.put(data, cacheKey);
+    await done;
+
+    await evict();
+  } catch (error) {
+    console.warn("Asset cache write failed:", error);
+  }
+}
+
+/**
+ * Deletes least recently used entries until the total size is within the limit.
+ */
+async function evict(): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+
+  const limit = getAssetCacheLimit();
+  const transaction = db.transaction([ENTRIES_STORE, BLOBS_STORE], "readwrite");
+  const done = transactionDone(transaction);
+  const entries = transaction.objectStore(ENTRIES_STORE);
+  const blobs = transaction.objectStore(BLOBS_STORE);
+
+  const all: AssetCacheEntry[] = await requestToPromise(entries.index("lastAccess").getAll());
+  let total = all.reduce((sum, entry) => sum + entry.size, 0);
+  for (const entry of all) {
+    if (total <= limit) break;
+    entries.delete(entry.key);
+    blobs.delete(entry.key);
+    total -= entry.size;
+  }
+  await done;
+}
+
+export async function getAssetCacheUsage(): Promise<AssetCacheUsage> {
+  const limit = getAssetCacheLimit();
+  try {
+    const db = await openDb();
+    if (!db) return { bytes: 0, count: 0, limit };
+
+    const transaction = db.transaction(ENTRIES_STORE, "readonly");
+    const all: AssetCacheEntry[] = await requestToPromise(transaction.objectStore(ENTRIES_STORE).getAll());
+    return { bytes: all.reduce((sum, entry) => sum + entry.size, 0), count: all.length, limit };
+  } catch (error) {
+    console.warn("Asset cache usage lookup failed:", error);
+    return { bytes: 0, count: 0, limit };
+  }
+}
+
+export async function clearAssetCache(): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+
+  const transaction = db.transaction([ENTRIES_STORE, BLOBS_STORE], "readwrite");
+  const done = transactionDone(transaction);
+  transaction.objectStore(ENTRIES_STORE).clear();
+  transaction.objectStore(BLOBS_STORE).clear();
+  await done;
+}
@@ -0,0 +1,143 @@
+import * as THREE from "three";
+import type { Bounds, ClipBox, ClippingState, SliceRange } from "@/store/clipping-store";
+
+/**
+ * Clipping planes shared by every clippable material in the viewer. Materials hold a
+ * reference to this array and it is updated in place, so a change applies to the point
+ * cloud and meshes alike without touching their materials.
+ */
+export const clippingPlanes: THREE.Plane[] = [];
+
+// Assumed height of one storey when there is no floor above to bound it
+const DEFAULT_STOREY_HEIGHT = 3;
+// Floor slices start this far below the floor so the floor itself stays visible
+const FLOOR_SLICE_MARGIN = 0.3;
+
+const FLOOR_BUCKET_SIZE = 0.25;
+const MIN_FLOOR_SEPARATION = 1.5;
+const MIN_FLOOR_AREA_FRACTION = 0.05;
+
+/**
+ * World-space axes of a clip box, rotated by its yaw.
+ */
+export function clipBoxAxes(box: ClipBox): [THREE.Vector3, THREE.Vector3, THREE.Vector3] {
+  const cos = Math.cos(box.rotation);
+  const sin = Math.sin(box.rotation);
+  return [new THREE.Vector3(cos, 0, -sin), new THREE.Vector3(0, 1, 0), new THREE.Vector3(sin, 0, cos)];
+}
+
+/**
+ * Rebuilds the shared clipping planes from the clipping state. Everything outside
+ * the clip box and outside the slice is cut away.
+ */
+export function updateClippingPlanes(state: ClippingState): void {
+  const planes: THREE.Plane[] = [];
+
+  if (state.boxEnabled && state.box) {
+    const center = new THREE.Vector3(...state.box.center);
+    clipBoxAxes(state.box).forEach((axis, i) => {
+      const half = state.box!.size[i] / 2;
+      const offset = axis.dot(center);
+      planes.push(new THREE.Plane(axis.clone(), half - offset));
+      planes.push(new THREE.Plane(axis.clone().negate(), half + offset));
+    });
+  }
+
+  if (state.sliceEnabled && state.slice) {
+    planes.push(new THREE.Plane(new THREE.Vector3(0, 1, 0), -state.slice.bottom));
+    planes.push(new THREE.Plane(new THREE.Vector3(0, -1, 0), state.slice.top));
+  }
+
+  clippingPlanes.splice(0, clippingPlanes.length, ...planes);
+}
+
+export function boundsFromBox3(box: THREE.Box3): Bounds {
+  return { min: box.min.toArray(), max: box.max.toArray() };
+}
+
+/**
+ * An axis-aligned clip box that encloses the given bounds.
+ */
+export function clipBoxFromBounds(bounds: Bounds): ClipBox {
+  return {
+    center: bounds.min.map((min, axis) => (min + bounds.max[axis]) / 2) as ClipBox["center"],
+    size: bounds.min.map((min, axis) => Math.max(0.1, bounds.max[axis] - min)) as ClipBox["size"],
+    rotation: 0,
+  };
+}
+
+/**
+ * Finds the heights of walkable floors in a nav mesh. Upward-facing triangles are
+ * binned by height, weighted by area, and heights holding a significant share of
+ * the walkable area become floors.
+ *
+ * @returns Floor heights in ascending order
+ */
+export function computeFloorLevels(object: THREE.Object3D): number[] {
+  const buckets = new Map<number, { area: number; height: number }>();
+  let totalArea = 0;
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const triangle = new THREE.Triangle();
+  const normal = new THREE.Vector3();
+
+  object.updateMatrixWorld(true);
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const position = child.geometry.getAttribute("position");
+    const index = child.geometry.getIndex();
+    const triangleCount = (index ? index.count : position.count) / 3;
+
+    for (let t = 0; t < triangleCount; t++) {
+      const [ia, ib, ic] = [0, 1, 2].map((k) => (index ? index.getX(t * 3 + k) : t * 3 + k));
+      a.fromBufferAttribute(position, ia).applyMatrix4(child.matrixWorld);
+      b.fromBufferAttribute(position, ib).applyMatrix4(child.matrixWorld);
+      c.fromBufferAttribute(position, ic).applyMatrix4(child.matrixWorld);
+      triangle.set(a, b, c);
+      triangle.getNormal(normal);
+      // Nav mesh winding is not guaranteed, so accept both facings
+      if (Math.abs(normal.y) < 0.7) continue;
+
+      const area = triangle.getArea();
+      const height = (a.y + b.y + c.y) / 3;
+      const key = Math.round(height / FLOOR_BUCKET_SIZE);
+      const bucket = buckets.get(key) ?? { area: 0, height: 0 };
+      bucket.area += area;
+      bucket.height += height * area;
+      buckets.set(key, bucket);
+      totalArea += area;
+    }
+  });
+
+  if (totalArea === 0) return [];
+
+  // Merge neighbouring buckets into floors, keeping the area-weighted mean height
+  const floors: { area: number; height: number }[] = [];
+  Array.from(buckets.entries())
+    .sort(([keyA], [keyB]) => keyA - keyB)
+    .forEach(([, bucket]) => {
+      const height = bucket.height / bucket.area;
+      const last = floors[floors.length - 1];
+      if (last && height - last.height / last.area < MIN_FLOOR_SEPARATION) {
+        last.area += bucket.area;
+        last.height += bucket.height;
+      } else {
+        floors.push({ ...bucket });
+      }
+    });
+
+  return floors
+    .filter((floor) => floor.area >= totalArea * MIN_FLOOR_AREA_FRACTION)
+    .map((floor) => floor.height / floor.area);
+}
+
+/**
+ * The slice that shows a single storey: from just below its floor to just below
+ * the next floor up.
+ */
+export function floorSlice(levels: number[], index: number): SliceRange {
+  const floor = levels[index];
+  const next = levels[index + 1] ?? floor + DEFAULT_STOREY_HEIGHT;
+  return { bottom: floor - FLOOR_SLICE_MARGIN, top: next - FLOOR_SLICE_MARGIN };
+}
@@ -0,0 +1,134 @@
+/**
+ * Cloud-to-cloud (C2C) distances: for every point of a compared cloud, the distance to
+ * the nearest point of a reference cloud. Reference points are bucketed in a hashed
+ * grid with cells as large as the search radius, so each query scans 27 cells.
+ */
+
+export interface CloudDistanceInput {
+  reference: Float32Array; // xyz triples
+  referenceMatrix: number[] | null; // Column-major 4x4 applied to the reference first
+  compared: Float32Array;
+  comparedMatrix: number[] | null;
+  maxDistance: number; // Search radius; points with no neighbour within it get this value
+}
+
+export interface CloudDistanceStats {
+  mean: number;
+  median: number;
+  p95: number;
+  // Share of compared points whose nearest reference point is within the search radius
+  matched: number;
+}
+
+function transformed(positions: Float32Array, matrix: number[] | null): Float32Array {
+  if (!matrix) return positions;
+  const m = matrix;
+  const out = new Float32Array(positions.length);
+  for (let i = 0; i < positions.length; i += 3) {
+    const x = positions[i];
+    const y = positions[i + 1];
+    const z = positions[i + 2];
+    out[i] = m[0] * x + m[4] * y + m[8] * z + m[12];
+    out[i + 1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+    out[i + 2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+  }
+  return out;
+}
+
+const hashCell = (x: number, y: number, z: number, mask: number) =>
+  (Math.imul(x, 73856093) ^ Math.imul(y, 19349663) ^ Math.imul(z, 83492791)) & mask;
+
+/**
+ * Computes the distance from every compared point to the nearest reference point.
+ *
+ * @returns Distances in the order of the compared points, capped at maxDistance
+ */
+export function computeCloudDistances({
+  reference,
+  referenceMatrix,
+  compared,
+  comparedMatrix,
+  maxDistance,
+}: CloudDistanceInput): Float32Array {
+  const ref = transformed(reference, referenceMatrix);
+  const cmp = transformed(compared, comparedMatrix);
+  const refCount = ref.length / 3;
+  const cmpCount = cmp.length / 3;
+  const distances = new Float32Array(cmpCount).fill(maxDistance);
+  if (refCount === 0) return distances;
+
+  // Power-of-two bucket table, about two buckets per reference point
+  let buckets = 1;
+  while (buckets < refCount * 2) buckets <<= 1;
+  const mask = buckets - 1;
+  const cell = maxDistance;
+
+  // Bucket the reference points in compressed rows: starts[b]..starts[b + 1] index into order
+  const bucketOf = new Uint32Array(refCount);
+  const starts = new Uint32Array(buckets + 1);
+  for (let i = 0; i < refCount; i++) {
+    const b = hashCell(
+      Math.floor(ref[i * 3] / cell),
+      Math.floor(ref[i * 3 + 1] / cell),
+      Math.floor(ref[i * 3 + 2] / cell),
+      mask
+    );
+    bucketOf[i] = b;
+    starts[b + 1]++;
+  }
+  for (let b = 0; b < buckets; b++) starts[b + 1] += starts[b];
+  const order = new Uint32Array(refCount);
+  const fill = starts.slice(0, buckets);
+  for (let i = 0; i < refCount; i++) order[fill[bucketOf[i]]++] = i;
+
+  const maxSq = maxDistance * maxDistance;
+  for (let i = 0; i < cmpCount; i++) {
+    const x = cmp[i * 3];
+    const y = cmp[i * 3 + 1];
+    const z = cmp[i * 3 + 2];
+    const cx = Math.floor(x / cell);
+    const cy = Math.floor(y / cell);
+    const cz = Math.floor(z / cell);
+    let best = maxSq;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          // Colliding cells share a bucket; the distance test sorts them out
+          const b = hashCell(cx + dx, cy + dy, cz + dz, mask);
+          for (let k = starts[b]; k < starts[b + 1]; k++) {
+            const j = order[k] * 3;
+            const ex = ref[j] - x;
+            const ey = ref[j + 1] - y;
+            const ez = ref[j + 2] - z;
+            const d = ex * ex + ey * ey + ez * ez;
+            if (d < best) best = d;
+          }
+        }
+      }
+    }
+    distances[i] = Math.sqrt(best);
+  }
+  return distances;
+}
+
+/**
+ * Summarizes C2C distances. Unmatched points count towards the percentiles at the
+ * search radius, so a cloud that drifts away scores worse rather than better.
+ */
+export function summarizeDistances(distances: Float32Array, maxDistance: number): CloudDistanceStats {
+  if (distances.length === 0) return { mean: 0, median: 0, p95: 0, matched: 0 };
+  const sorted = Float32Array.from(distances).sort();
+  let sum = 0;
+  let matched = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    sum += sorted[i];
+    if (sorted[i] < maxDistance) matched++;
+  }
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return {
+    mean: sum / sorted.length,
+    median: at(0.5),
+    p95: at(0.95),
+    matched: matched / sorted.length,
+  };
+}
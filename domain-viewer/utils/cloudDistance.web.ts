@@ -0,0 +1,25 @@
+import { throwIfAborted } from "./abort"
+import { computeCloudDistances, CloudDistanceInput } from "./cloudDistance"
+import { WorkerPool } from "./workerPool"
+
+let pool: WorkerPool<CloudDistanceInput, Float32Array> | null = null
+
+function getPool(): WorkerPool<CloudDistanceInput, Float32Array> {
+  if (!pool) {
+    // One worker: a comparison holds two full clouds, so running several at once is rarely worth the memory
+    pool = new WorkerPool(() => new Worker(new URL("../workers/cloudDistance.worker.ts", import.meta.url), { type: "module" }), 1)
+  }
+  return pool
+}
+
+/**
+ * Computes cloud-to-cloud distances on a worker, falling back to the main thread where
+ * workers are unavailable. The point arrays are copied, so callers can keep using them.
+ * Aborting the signal terminates the worker and rejects with an AbortError.
+ */
+export async function computeCloudDistancesAsync(input: CloudDistanceInput, signal?: AbortSignal): Promise<Float32Array> {
+  throwIfAborted(signal)
+  if (typeof Worker === "undefined") return computeCloudDistances(input)
+
+  return getPool().run(input, [], signal)
+}
@@ -0,0 +1,180 @@
+/**
+ * Typed model of a domain's data listing (GET /api/v1/domains/:id/data).
+ * Items are named "<kind>_v<version>" (e.g. navmesh_v1) or, for refined point clouds,
+ * "refined_pointcloud_<refinementId>".
+ */
+
+export const KNOWN_DATA_TYPES = ["obj", "refined_pointcloud_ply"] as const;
+
+export type KnownDomainDataType = (typeof KNOWN_DATA_TYPES)[number];
+
+// Unknown data types are kept so new uploads do not fail validation
+export type DomainDataType = KnownDomainDataType | (string & {});
+
+export interface DomainDataItem {
+  id: string;
+  domain_id: string;
+  name: string;
+  data_type: DomainDataType;
+  created_at: string;
+  updated_at: string;
+  size?: number;
+}
+
+/**
+ * Asset kinds the viewer knows how to use, with the data types each may be stored as.
+ * An empty list accepts any data type.
+ */
+const ASSET_KINDS = {
+  navmesh: ["obj"],
+  occlusionmesh: ["obj"],
+  domain_metadata: [],
+  refined_pointcloud: ["refined_pointcloud_ply"],
+} satisfies Record<string, DomainDataType[]>;
+
+export type DomainAssetKind = keyof typeof ASSET_KINDS;
+
+export interface DomainMetadata {
+  canonicalRefinement?: string;
+  canonicalRefinementAlignmentMatrix?: number[]; // Column-major 4x4 matrix
+  [key: string]: unknown;
+}
+
+interface ParsedName {
+  kind: string;
+  version: number; // 0 when the name carries no version
+  refinement?: string;
+}
+
+const VERSIONED_NAME = /^(.+)_v(\d+)$/;
+const REFINED_POINTCLOUD_PREFIX = "refined_pointcloud_";
+
+function parseName(name: string): ParsedName {
+  if (name.startsWith(REFINED_POINTCLOUD_PREFIX)) {
+    return { kind: "refined_pointcloud", version: 0, refinement: name.slice(REFINED_POINTCLOUD_PREFIX.length) };
+  }
+  const match = VERSIONED_NAME.exec(name);
+  if (match) {
+    return { kind: match[1], version: Number.parseInt(match[2], 10) };
+  }
+  return { kind: name, version: 0 };
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+/**
+ * Runtime check for a single data item.
+ *
+ * @returns A list of problems, empty if the item is valid
+ */
+export function validateDomainDataItem(value: unknown): string[] {
+  if (!value || typeof value !== "object") return ["item is not an object"];
+  const item = value as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const field of ["id", "name", "data_type"]) {
+    if (!isString(item[field]) || !item[field]) errors.push(`${field} must be a non-empty string`);
+  }
+  for (const field of ["domain_id", "created_at", "updated_at"]) {
+    if (item[field] !== undefined && !isString(item[field])) errors.push(`${field} must be a string`);
+  }
+  if (item.size !== undefined && typeof item.size !== "number") errors.push("size must be a number");
+  return errors;
+}
+
+/**
+ * Validates and parses domain metadata JSON (the domain_metadata data item).
+ *
+ * @throws Error if the metadata does not match the expected schema
+ */
+export function parseDomainMetadata(value: unknown): DomainMetadata {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Invalid domain metadata: expected an object");
+  }
+  const metadata = value as DomainMetadata;
+  if (metadata.canonicalRefinement !== undefined && !isString(metadata.canonicalRefinement)) {
+    throw new Error("Invalid domain metadata: canonicalRefinement must be a string");
+  }
+  const matrix = metadata.canonicalRefinementAlignmentMatrix;
+  if (
+    matrix !== undefined &&
+    matrix !== null &&
+    (!Array.isArray(matrix) || matrix.length !== 16 || !matrix.every((n) => typeof n === "number"))
+  ) {
+    throw new Error("Invalid domain metadata: canonicalRefinementAlignmentMatrix must be 16 numbers");
+  }
+  return metadata;
+}
+
+/**
+ * Resolves domain assets by kind and version from a domain's data listing.
+ */
+export class DomainManifest {
+  public readonly items: DomainDataItem[];
+
+  constructor(items: DomainDataItem[]) {
+    this.items = items;
+  }
+
+  /**
+   * Builds a manifest from the raw listing. Invalid items are skipped with a warning
+   * so one malformed upload does not hide the rest of the domain.
+   *
+   * @throws Error if the listing is not an array
+   */
+  static parse(value: unknown): DomainManifest {
+    if (!Array.isArray(value)) {
+      throw new Error("Invalid domain data listing: expected an array");
+    }
+    const items: DomainDataItem[] = [];
+    value.forEach((item, index) => {
+      const errors = validateDomainDataItem(item);
+      if (errors.length > 0) {
+        console.warn(`Skipping invalid domain data item at index ${index}: ${errors.join(", ")}`);
+        return;
+      }
+      items.push(item as DomainDataItem);
+    });
+    return new DomainManifest(items);
+  }
+
+  get(id: string): DomainDataItem | null {
+    return this.items.find((item) => item.id === id) ?? null;
+  }
+
+  /**
+   * Returns every item of a kind, newest version first.
+   */
+  versions(kind: DomainAssetKind): DomainDataItem[] {
+    const dataTypes: DomainDataType[] = ASSET_KINDS[kind];
+    return this.items
+      .filter((item) => parseName(item.name).kind === kind)
+      .filter((item) => dataTypes.length === 0 || dataTypes.includes(item.data_type))
+      .sort((a, b) => {
+        const byVersion = parseName(b.name).version - parseName(a.name).version;
+        if (byVersion !== 0) return byVersion;
+        return Date.parse(b.updated_at || "") - Date.parse(a.updated_at || "") || 0;
+      });
+  }
+
+  /**
+   * Returns the highest version of an asset kind, e.g. latest("navmesh") picks navmesh_v2 over navmesh_v1.
+   */
+  latest(kind: DomainAssetKind): DomainDataItem | null {
+    return this.versions(kind)[0] ?? null;
+  }
+
+  /**
+   * Returns the refinement IDs that have a refined point cloud.
+   */
+  refinements(): string[] {
+    return this.versions("refined_pointcloud")
+      .map((item) => parseName(item.name).refinement)
+      .filter(isString);
+  }
+
+  refinedPointCloud(refinement: string): DomainDataItem | null {
+    return this.versions("refined_pointcloud").find((item) => parseName(item.name).refinement === refinement) ?? null;
+  }
+}
@@ -0,0 +1,157 @@
+import type { DomainLayer, LayerState } from "@/hooks/useDomainLoader";
+import type { Vec3 } from "@/store/clipping-store";
+import { DEFAULT_LAYER_VISIBILITY, LAYER_PARAM_NAMES, type LayerVisibility } from "./viewLink";
+
+/**
+ * Embed mode and the postMessage API for host pages.
+ *
+ * The viewer is embedded when it runs in an iframe, on /[id]/preview, or with ?embed=1.
+ * Query parameters configure it:
+ *   controls=all|none|<control>,...  UI to show; embeds show none by default
+ *   bg=transparent|<hex>             background behind the scene
+ *   autorotate=<speed>               idle orbit speed, 1 by default, 0 turns it off
+ *   layers=<layer>,...               layers visible at start: pointcloud, portals, navmesh, occlusion
+ *   theme=light|dark                 theme for this page view, not saved (applied by ThemeProvider)
+ *   origin=<origin>                  only talk to a host page at this origin
+ *
+ * Messages in both directions carry { api: "domain-viewer", version: 1, type, ... }.
+ * Commands may carry an id, which the viewer answers with an ack or error event.
+ */
+
+export const EMBED_API_NAME = "domain-viewer";
+export const EMBED_API_VERSION = 1;
+
+export const EMBED_CONTROLS = [
+  "navigation", // Site navigation bar
+  "loading", // Per-layer load progress
+  "inspector", // Selected portal card
+  "legend", // Portal color legend
+  "layers", // Layer visibility toggles
+  "style",
+  "clipping",
+  "measure",
+  "route",
+  "tour",
+  "selector", // Domain selector
+  "share",
+  "map",
+  "portals", // Portal list
+  "details",
+  "cache",
+  "walk", // F key for FPS mode
+] as const;
+
+export type EmbedControl = (typeof EMBED_CONTROLS)[number];
+
+export interface EmbedOptions {
+  embedded: boolean;
+  controls: ReadonlySet<EmbedControl>;
+  background: string | null; // CSS color, null for the theme's background
+  autoRotateSpeed: number; // Multiple of the default idle orbit speed
+  layers: LayerVisibility | null; // Null leaves every layer visible
+  origin: string | null; // Null accepts any host page
+}
+
+function parseControls(value: string | null, embedded: boolean): Set<EmbedControl> {
+  if (value === null) return new Set(embedded ? [] : EMBED_CONTROLS);
+  if (value === "all") return new Set(EMBED_CONTROLS);
+  const requested = value.split(",");
+  return new Set(EMBED_CONTROLS.filter((control) => requested.includes(control)));
+}
+
+function parseBackground(value: string | null): string | null {
+  if (value === "transparent") return value;
+  return value && /^[0-9a-f]{3,8}$/i.test(value) ? `#${value}` : null;
+}
+
+function parseLayers(value: string | null): LayerVisibility | null {
+  if (value === null) return null;
+  const visible = new Set(value.split(","));
+  const layers = { ...DEFAULT_LAYER_VISIBILITY };
+  (Object.keys(LAYER_PARAM_NAMES) as (keyof LayerVisibility)[]).forEach((layer) => {
+    layers[layer] = visible.has(LAYER_PARAM_NAMES[layer]);
+  });
+  return layers;
+}
+
+/**
+ * Reads the embed options from a page's query string.
+ *
+ * @param embedded - Whether the page is embedded whatever the query says, as in an iframe
+ */
+export function parseEmbedOptions(search: string, embedded: boolean): EmbedOptions {
+  const params = new URLSearchParams(search);
+  const isEmbedded = embedded || params.get("embed") === "1";
+  const autoRotate = Number(params.get("autorotate") ?? 1);
+  return {
+    embedded: isEmbedded,
+    controls: parseControls(params.get("controls"), isEmbedded),
+    background: parseBackground(params.get("bg")),
+    autoRotateSpeed: Number.isFinite(autoRotate) ? Math.min(Math.max(autoRotate, 0), 10) : 1,
+    layers: parseLayers(params.get("layers")),
+    origin: params.get("origin"),
+  };
+}
+
+// Commands from the host page
+export type EmbedCommand =
+  | { type: "setCamera"; position: Vec3; target: Vec3 }
+  | { type: "setLayers"; layers: Partial<LayerVisibility> };
+
+// Events sent to the host page
+export type EmbedEvent =
+  | { type: "ready"; domainId: string }
+  | {
+      type: "loadProgress";
+      domainId: string;
+      layers: Record<DomainLayer, Pick<LayerState, "status" | "loaded" | "total">>;
+      done: boolean; // No layer is still pending or loading
+    }
+  | { type: "portalClick"; portal: { id: string; shortId: string; position: Vec3 } }
+  | { type: "ack"; id: string }
+  | { type: "error"; id?: string; message: string };
+
+export type EmbedMessage<T> = T & { api: typeof EMBED_API_NAME; version: number; id?: string };
+
+const isVec3 = (value: unknown): value is Vec3 =>
+  Array.isArray(value) && value.length === 3 && value.every((v) => typeof v === "number" && Number.isFinite(v));
+
+/**
+ * Validates a message from the host page.
+ *
+ * @returns The command, an error to report back, or null for messages meant for someone else
+ */
+export function parseEmbedCommand(
+  data: unknown
+): { command: EmbedCommand; id?: string } | { error: string; id?: string } | null {
+  if (!data || typeof data !== "object") return null;
+  const message = data as Record<string, unknown>;
+  if (message.api !== EMBED_API_NAME) return null;
+  const id = typeof message.id === "string" ? message.id : undefined;
+
+  if (typeof message.version !== "number" || Math.floor(message.version) > EMBED_API_VERSION) {
+    return { error: `Unsupported API version ${String(message.version)}; this viewer speaks version ${EMBED_API_VERSION}`, id };
+  }
+
+  switch (message.type) {
+    case "setCamera":
+      if (!isVec3(message.position) || !isVec3(message.target)) {
+        return { error: "setCamera needs position and target as [x, y, z]", id };
+      }
+      return { command: { type: "setCamera", position: message.position, target: message.target }, id };
+    case "setLayers": {
+      if (!message.layers || typeof message.layers !== "object") {
+        return { error: "setLayers needs a layers object", id };
+      }
+      const requested = message.layers as Record<string, unknown>;
+      const layers: Partial<LayerVisibility> = {};
+      (Object.keys(DEFAULT_LAYER_VISIBILITY) as (keyof LayerVisibility)[]).forEach((layer) => {
+        const visible = requested[layer];
+        if (typeof visible === "boolean") layers[layer] = visible;
+      });
+      return { command: { type: "setLayers", layers }, id };
+    }
+    default:
+      return { error: `Unknown command ${String(message.type)}`, id };
+  }
+}
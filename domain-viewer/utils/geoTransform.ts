@@ -0,0 +1,161 @@
+import type { Portal } from "@/utils/posemeshClientApi";
+
+const EARTH_RADIUS = 6378137; // Meters, WGS 84 equatorial radius
+const DEG = Math.PI / 180;
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface GeoResidual {
+  portalId: string;
+  shortId: string;
+  // Where the portal's GPS fix and the fitted transform place it, in meters east and north
+  gps: [number, number];
+  fitted: [number, number];
+  error: number; // Horizontal distance between the two, in meters
+  accuracy: number; // Reported horizontal accuracy, in meters
+}
+
+/**
+ * Rigid transform from the domain's local frame to the ground, fitted to portal GPS
+ * fixes. Ground positions are meters east and north of `origin`; the local frame is
+ * Y-up with -Z pointing north before rotation.
+ */
+export interface GeoTransform {
+  origin: GeoPoint;
+  rotation: number; // Radians, counter-clockwise from local to east/north
+  translation: [number, number];
+  altitudeOffset: number; // GPS altitude minus local Y
+  rmse: number;
+  residuals: GeoResidual[];
+}
+
+/**
+ * Meters east and north of an origin. An equirectangular approximation, accurate
+ * to well under a GPS error across the extent of a domain.
+ */
+export function geoToEastNorth(point: GeoPoint, origin: GeoPoint): [number, number] {
+  return [
+    (point.lon - origin.lon) * DEG * EARTH_RADIUS * Math.cos(origin.lat * DEG),
+    (point.lat - origin.lat) * DEG * EARTH_RADIUS,
+  ];
+}
+
+export function eastNorthToGeo([east, north]: [number, number], origin: GeoPoint): GeoPoint {
+  return {
+    lat: origin.lat + north / EARTH_RADIUS / DEG,
+    lon: origin.lon + east / (EARTH_RADIUS * Math.cos(origin.lat * DEG)) / DEG,
+  };
+}
+
+/**
+ * Whether a portal carries a usable GPS fix. Devices without one report zeros.
+ */
+export function hasGpsFix(portal: Portal): boolean {
+  return (
+    Number.isFinite(portal.latitude) &&
+    Number.isFinite(portal.longitude) &&
+    !(portal.latitude === 0 && portal.longitude === 0) &&
+    portal.horizontal_accuracy > 0
+  );
+}
+
+function rotate([x, y]: [number, number], angle: number): [number, number] {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [x * cos - y * sin, x * sin + y * cos];
+}
+
+/**
+ * Fits the rotation and translation that best map portal poses onto their GPS
+ * fixes, weighting each portal by the inverse square of its horizontal accuracy.
+ * Scale is not fitted: both frames are in meters.
+ *
+ * @returns null when fewer than two portals have a GPS fix
+ */
+export function fitGeoTransform(portals: Portal[]): GeoTransform | null {
+  const fixed = portals.filter(hasGpsFix);
+  if (fixed.length < 2) return null;
+
+  const origin = {
+    lat: fixed.reduce((sum, p) => sum + p.latitude, 0) / fixed.length,
+    lon: fixed.reduce((sum, p) => sum + p.longitude, 0) / fixed.length,
+  };
+  const samples = fixed.map((portal) => ({
+    portal,
+    local: [portal.px, -portal.pz] as [number, number],
+    ground: geoToEastNorth({ lat: portal.latitude, lon: portal.longitude }, origin),
+    weight: 1 / (portal.horizontal_accuracy * portal.horizontal_accuracy),
+  }));
+
+  const totalWeight = samples.reduce((sum, s) => sum + s.weight, 0);
+  const mean = (pick: (s: (typeof samples)[number]) => [number, number]) =>
+    samples
+      .reduce(([x, y], s) => [x + pick(s)[0] * s.weight, y + pick(s)[1] * s.weight], [0, 0])
+      .map((v) => v / totalWeight) as [number, number];
+  const localMean = mean((s) => s.local);
+  const groundMean = mean((s) => s.ground);
+
+  // Weighted 2D Procrustes: the angle that best aligns the centered point sets
+  let dot = 0;
+  let cross = 0;
+  for (const s of samples) {
+    const lx = s.local[0] - localMean[0];
+    const ly = s.local[1] - localMean[1];
+    const gx = s.ground[0] - groundMean[0];
+    const gy = s.ground[1] - groundMean[1];
+    dot += s.weight * (lx * gx + ly * gy);
+    cross += s.weight * (lx * gy - ly * gx);
+  }
+  const rotation = Math.atan2(cross, dot);
+  const rotatedMean = rotate(localMean, rotation);
+  const translation: [number, number] = [groundMean[0] - rotatedMean[0], groundMean[1] - rotatedMean[1]];
+
+  const residuals = samples.map((s): GeoResidual => {
+    const r = rotate(s.local, rotation);
+    const fitted: [number, number] = [r[0] + translation[0], r[1] + translation[1]];
+    return {
+      portalId: s.portal.id,
+      shortId: s.portal.short_id,
+      gps: s.ground,
+      fitted,
+      error: Math.hypot(fitted[0] - s.ground[0], fitted[1] - s.ground[1]),
+      accuracy: s.portal.horizontal_accuracy,
+    };
+  });
+
+  const withAltitude = fixed.filter((p) => p.vertical_accuracy > 0 && Number.isFinite(p.altitude));
+  const altitudeOffset =
+    withAltitude.length > 0
+      ? withAltitude.reduce((sum, p) => sum + (p.altitude - p.py), 0) / withAltitude.length
+      : 0;
+
+  return {
+    origin,
+    rotation,
+    translation,
+    altitudeOffset,
+    rmse: Math.sqrt(residuals.reduce((sum, r) => sum + r.error * r.error, 0) / residuals.length),
+    residuals,
+  };
+}
+
+export function localToEastNorth(transform: GeoTransform, x: number, z: number): [number, number] {
+  const r = rotate([x, -z], transform.rotation);
+  return [r[0] + transform.translation[0], r[1] + transform.translation[1]];
+}
+
+export function localToGeo(transform: GeoTransform, x: number, z: number): GeoPoint {
+  return eastNorthToGeo(localToEastNorth(transform, x, z), transform.origin);
+}
+
+/**
+ * The local X and Z of a point on the ground.
+ */
+export function geoToLocal(transform: GeoTransform, point: GeoPoint): { x: number; z: number } {
+  const [east, north] = geoToEastNorth(point, transform.origin);
+  const [x, y] = rotate([east - transform.translation[0], north - transform.translation[1]], -transform.rotation);
+  return { x, z: -y };
+}
@@ -0,0 +1,113 @@
+import { getCachedAsset, putCachedAsset } from "@/utils/assetCache";
+import type { GeoPoint } from "@/utils/geoTransform";
+
+export const TILE_SIZE = 256;
+
+/**
+ * A slippy map tile server. `url` is a template with {z}, {x} and {y}; an empty
+ * template draws no tiles, which keeps the map usable fully offline.
+ */
+export interface TileSource {
+  id: string;
+  name: string;
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+const OSM_SOURCE: TileSource = {
+  id: "osm",
+  name: "OpenStreetMap",
+  url: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+  attribution: "© OpenStreetMap contributors",
+  maxZoom: 19,
+};
+
+const NO_TILES_SOURCE: TileSource = {
+  id: "none",
+  name: "No tiles",
+  url: "",
+  attribution: "",
+  maxZoom: 22,
+};
+
+/**
+ * Tile sources offered by the map. A local tile server for testing can be added with
+ * NEXT_PUBLIC_MAP_TILE_URL, and is then the default.
+ */
+export function getTileSources(): TileSource[] {
+  const localUrl = process.env.NEXT_PUBLIC_MAP_TILE_URL;
+  const local: TileSource[] = localUrl
+    ? [{ id: "local", name: "Local tiles", url: localUrl, attribution: "", maxZoom: 22 }]
+    : [];
+  return [...local, OSM_SOURCE, NO_TILES_SOURCE];
+}
+
+/**
+ * Position in Web Mercator pixels at a zoom level, with the world spanning
+ * TILE_SIZE * 2^zoom pixels.
+ */
+export function geoToWorldPixels(point: GeoPoint, zoom: number): [number, number] {
+  const size = TILE_SIZE * Math.pow(2, zoom);
+  const sin = Math.sin((point.lat * Math.PI) / 180);
+  return [
+    ((point.lon + 180) / 360) * size,
+    (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  ];
+}
+
+export function worldPixelsToGeo([x, y]: [number, number], zoom: number): GeoPoint {
+  const size = TILE_SIZE * Math.pow(2, zoom);
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lon: (x / size) * 360 - 180,
+  };
+}
+
+/**
+ * Meters covered by one pixel at a latitude and zoom level.
+ */
+export function metersPerPixel(lat: number, zoom: number): number {
+  return (40075016.686 * Math.cos((lat * Math.PI) / 180)) / (TILE_SIZE * Math.pow(2, zoom));
+}
+
+export function tileUrl(source: TileSource, z: number, x: number, y: number): string {
+  return source.url.replace("{z}", String(z)).replace("{x}", String(x)).replace("{y}", String(y));
+}
+
+/**
+ * Loads a tile image, from the asset cache when it has been seen before so tiles
+ * stay available offline.
+ *
+ * @returns null when the source has no tiles or the tile cannot be loaded
+ */
+export async function loadTile(
+  source: TileSource,
+  z: number,
+  x: number,
+  y: number,
+  signal?: AbortSignal
+): Promise<ImageBitmap | null> {
+  if (!source.url) return null;
+  const key = { domainId: "map-tiles", fileId: `${source.id}/${z}/${x}/${y}`, updatedAt: source.url };
+
+  let data = await getCachedAsset(key);
+  if (!data) {
+    try {
+      const response = await fetch(tileUrl(source, z, x, y), { signal });
+      if (!response.ok) return null;
+      data = await response.arrayBuffer();
+    } catch (error) {
+      if (!signal?.aborted) console.warn("Map tile load failed:", error);
+      return null;
+    }
+    await putCachedAsset(key, data);
+  }
+
+  try {
+    return await createImageBitmap(new Blob([data]));
+  } catch {
+    return null;
+  }
+}
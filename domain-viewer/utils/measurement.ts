@@ -0,0 +1,115 @@
+import * as THREE from "three";
+import type { Vec3 } from "@/store/clipping-store";
+import type { Measurement, MeasurementType } from "@/store/measurement-store";
+
+// Points needed before a measurement of each type is complete; open-ended tools finish on demand
+export const MIN_MEASUREMENT_POINTS: Record<MeasurementType, number> = {
+  distance: 2,
+  polyline: 2,
+  area: 3,
+  height: 1,
+};
+
+export const MEASUREMENT_LABELS: Record<MeasurementType, string> = {
+  distance: "Distance",
+  polyline: "Polyline",
+  area: "Area",
+  height: "Height",
+};
+
+export function polylineLength(points: Vec3[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += new THREE.Vector3(...points[i]).distanceTo(new THREE.Vector3(...points[i - 1]));
+  }
+  return length;
+}
+
+/**
+ * Area of a closed polygon using Newell's method, so the polygon can lie on any plane.
+ * Non-planar polygons give the area of their best-fit projection.
+ */
+export function polygonArea(points: Vec3[]): number {
+  const normal = new THREE.Vector3();
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1, z1] = points[i];
+    const [x2, y2, z2] = points[(i + 1) % points.length];
+    normal.x += (y1 - y2) * (z1 + z2);
+    normal.y += (z1 - z2) * (x1 + x2);
+    normal.z += (x1 - x2) * (y1 + y2);
+  }
+  return normal.length() / 2;
+}
+
+export function measurementValue(type: MeasurementType, points: Vec3[]): number {
+  switch (type) {
+    case "distance":
+    case "polyline":
+    case "height":
+      return polylineLength(points);
+    case "area":
+      return polygonArea(points);
+  }
+}
+
+export function measurementUnit(type: MeasurementType): string {
+  return type === "area" ? "m²" : "m";
+}
+
+export function formatMeasurement(measurement: Pick<Measurement, "type" | "value">): string {
+  return `${measurement.value.toFixed(2)} ${measurementUnit(measurement.type)}`;
+}
+
+export function createMeasurement(type: MeasurementType, points: Vec3[]): Measurement {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    points,
+    value: measurementValue(type, points),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function measurementsToJSON(measurements: Measurement[], domainId?: string): string {
+  return JSON.stringify(
+    {
+      domain_id: domainId ?? null,
+      exported_at: new Date().toISOString(),
+      measurements: measurements.map((measurement) => ({
+        ...measurement,
+        unit: measurementUnit(measurement.type),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * One row per measurement; points are written as "x y z" triples separated by semicolons.
+ */
+export function measurementsToCSV(measurements: Measurement[]): string {
+  const rows = measurements.map((measurement) =>
+    [
+      measurement.id,
+      measurement.type,
+      measurement.value.toFixed(4),
+      measurementUnit(measurement.type),
+      measurement.createdAt,
+      `"${measurement.points.map((point) => point.map((value) => value.toFixed(4)).join(" ")).join("; ")}"`,
+    ].join(",")
+  );
+  return ["id,type,value,unit,created_at,points", ...rows].join("\n");
+}
+
+/**
+ * Saves text as a file through a temporary download link.
+ */
+export function downloadText(filename: string, text: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
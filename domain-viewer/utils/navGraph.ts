@@ -0,0 +1,436 @@
+import * as THREE from "three";
+import type { Vec3 } from "@/store/clipping-store";
+
+// Vertices closer than this are treated as one when welding the nav mesh
+const WELD_TOLERANCE = 0.001;
+// Edge of the horizontal grid cells used to look up triangles by position
+const GRID_CELL_SIZE = 1;
+// How many rings of grid cells to search for the closest triangle before giving up
+const MAX_SEARCH_RINGS = 8;
+
+/**
+ * Walkable surface of a nav mesh as a graph of triangles. Triangles are nodes and
+ * two triangles are linked when they share an edge.
+ */
+export interface NavGraph {
+  // Welded vertex positions in world space, 3 floats per vertex
+  vertices: Float32Array;
+  // 3 vertex indices per triangle
+  triangles: Uint32Array;
+  // 3 floats per triangle
+  centroids: Float32Array;
+  // Per triangle, the triangle across edge k (vertex k to vertex k + 1), or -1 at a boundary
+  neighbours: Int32Array;
+  grid: NavGrid;
+}
+
+interface NavGrid {
+  minX: number;
+  minZ: number;
+  cols: number;
+  rows: number;
+  // Triangles overlapping each cell, keyed by row * cols + col
+  cells: Map<number, number[]>;
+}
+
+export interface NavPath {
+  points: Vec3[];
+  length: number;
+}
+
+export interface NavPoint {
+  point: THREE.Vector3;
+  triangle: number;
+}
+
+/**
+ * Builds the navigation graph of every mesh under an object. The OBJ loader emits
+ * unindexed geometry, so vertices are welded by position before triangles are linked.
+ */
+export function buildNavGraph(object: THREE.Object3D): NavGraph {
+  const vertexIndex = new Map<string, number>();
+  const vertices: number[] = [];
+  const triangles: number[] = [];
+  const point = new THREE.Vector3();
+
+  const weld = (p: THREE.Vector3) => {
+    const key = `${Math.round(p.x / WELD_TOLERANCE)},${Math.round(p.y / WELD_TOLERANCE)},${Math.round(p.z / WELD_TOLERANCE)}`;
+    let index = vertexIndex.get(key);
+    if (index === undefined) {
+      index = vertices.length / 3;
+      vertices.push(p.x, p.y, p.z);
+      vertexIndex.set(key, index);
+    }
+    return index;
+  };
+
+  object.updateMatrixWorld(true);
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const position = child.geometry.getAttribute("position");
+    const index = child.geometry.getIndex();
+    const count = index ? index.count : position.count;
+    for (let i = 0; i + 2 < count; i += 3) {
+      const corners = [0, 1, 2].map((k) =>
+        weld(point.fromBufferAttribute(position, index ? index.getX(i + k) : i + k).applyMatrix4(child.matrixWorld))
+      );
+      // Triangles collapsed by welding have no area to walk on
+      if (corners[0] === corners[1] || corners[1] === corners[2] || corners[2] === corners[0]) continue;
+      triangles.push(...corners);
+    }
+  });
+
+  const triangleCount = triangles.length / 3;
+  const centroids = new Float32Array(triangleCount * 3);
+  const neighbours = new Int32Array(triangleCount * 3).fill(-1);
+  const edges = new Map<string, { triangle: number; edge: number }>();
+
+  for (let t = 0; t < triangleCount; t++) {
+    for (let axis = 0; axis < 3; axis++) {
+      centroids[t * 3 + axis] =
+        (vertices[triangles[t * 3] * 3 + axis] +
+          vertices[triangles[t * 3 + 1] * 3 + axis] +
+          vertices[triangles[t * 3 + 2] * 3 + axis]) /
+        3;
+    }
+    for (let k = 0; k < 3; k++) {
+      const a = triangles[t * 3 + k];
+      const b = triangles[t * 3 + ((k + 1) % 3)];
+      const key = a < b ? `${a},${b}` : `${b},${a}`;
+      const other = edges.get(key);
+      if (!other) {
+        edges.set(key, { triangle: t, edge: k });
+      } else if (neighbours[other.triangle * 3 + other.edge] === -1) {
+        // Edges shared by more than two triangles keep their first link
+        neighbours[other.triangle * 3 + other.edge] = t;
+        neighbours[t * 3 + k] = other.triangle;
+      }
+    }
+  }
+
+  const vertexArray = new Float32Array(vertices);
+  return {
+    vertices: vertexArray,
+    triangles: new Uint32Array(triangles),
+    centroids,
+    neighbours,
+    grid: buildGrid(vertexArray, triangles),
+  };
+}
+
+function buildGrid(vertices: Float32Array, triangles: number[]): NavGrid {
+  let minX = Infinity;
+  let minZ = Infinity;
+  let maxX = -Infinity;
+  let maxZ = -Infinity;
+  for (let i = 0; i < vertices.length; i += 3) {
+    minX = Math.min(minX, vertices[i]);
+    maxX = Math.max(maxX, vertices[i]);
+    minZ = Math.min(minZ, vertices[i + 2]);
+    maxZ = Math.max(maxZ, vertices[i + 2]);
+  }
+  if (!Number.isFinite(minX)) {
+    return { minX: 0, minZ: 0, cols: 0, rows: 0, cells: new Map() };
+  }
+
+  const cols = Math.floor((maxX - minX) / GRID_CELL_SIZE) + 1;
+  const rows = Math.floor((maxZ - minZ) / GRID_CELL_SIZE) + 1;
+  const cells = new Map<number, number[]>();
+
+  for (let t = 0; t < triangles.length / 3; t++) {
+    const xs = [0, 1, 2].map((k) => vertices[triangles[t * 3 + k] * 3]);
+    const zs = [0, 1, 2].map((k) => vertices[triangles[t * 3 + k] * 3 + 2]);
+    const col0 = Math.floor((Math.min(...xs) - minX) / GRID_CELL_SIZE);
+    const col1 = Math.floor((Math.max(...xs) - minX) / GRID_CELL_SIZE);
+    const row0 = Math.floor((Math.min(...zs) - minZ) / GRID_CELL_SIZE);
+    const row1 = Math.floor((Math.max(...zs) - minZ) / GRID_CELL_SIZE);
+    for (let row = row0; row <= row1; row++) {
+      for (let col = col0; col <= col1; col++) {
+        const key = row * cols + col;
+        const cell = cells.get(key);
+        if (cell) cell.push(t);
+        else cells.set(key, [t]);
+      }
+    }
+  }
+
+  return { minX, minZ, cols, rows, cells };
+}
+
+export function navTriangle(graph: NavGraph, triangle: number, target = new THREE.Triangle()): THREE.Triangle {
+  const v = graph.vertices;
+  const [a, b, c] = [0, 1, 2].map((k) => graph.triangles[triangle * 3 + k] * 3);
+  target.a.set(v[a], v[a + 1], v[a + 2]);
+  target.b.set(v[b], v[b + 1], v[b + 2]);
+  target.c.set(v[c], v[c + 1], v[c + 2]);
+  return target;
+}
+
+/**
+ * The closest point on the nav mesh to a position, searching outward from its grid
+ * cell until a ring of cells past the first hit has been checked.
+ *
+ * @returns null when no walkable surface lies within the search radius
+ */
+export function closestNavPoint(graph: NavGraph, position: THREE.Vector3): NavPoint | null {
+  const { grid } = graph;
+  if (grid.cols === 0) return null;
+
+  const col = Math.floor((position.x - grid.minX) / GRID_CELL_SIZE);
+  const row = Math.floor((position.z - grid.minZ) / GRID_CELL_SIZE);
+  const triangle = new THREE.Triangle();
+  const candidate = new THREE.Vector3();
+  let best: NavPoint | null = null;
+  let bestDistance = Infinity;
+  let lastRing = MAX_SEARCH_RINGS;
+
+  for (let ring = 0; ring <= lastRing; ring++) {
+    for (let r = row - ring; r <= row + ring; r++) {
+      for (let c = col - ring; c <= col + ring; c++) {
+        // Only the outline of the ring; the inside was searched already
+        if (Math.max(Math.abs(r - row), Math.abs(c - col)) !== ring) continue;
+        if (r < 0 || c < 0 || r >= grid.rows || c >= grid.cols) continue;
+        for (const t of grid.cells.get(r * grid.cols + c) ?? []) {
+          navTriangle(graph, t, triangle).closestPointToPoint(position, candidate);
+          const distance = candidate.distanceToSquared(position);
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            best = { point: candidate.clone(), triangle: t };
+          }
+        }
+      }
+    }
+    // A closer triangle can still sit in the next ring out
+    if (best && lastRing === MAX_SEARCH_RINGS) lastRing = Math.min(MAX_SEARCH_RINGS, ring + 1);
+  }
+
+  return best;
+}
+
+/**
+ * The point on the nav mesh straight above or below a position. Where floors overlap,
+ * the one nearest in height wins.
+ *
+ * @returns null when the position is not over the nav mesh
+ */
+export function navPointBelow(graph: NavGraph, position: THREE.Vector3): NavPoint | null {
+  const { grid } = graph;
+  const col = Math.floor((position.x - grid.minX) / GRID_CELL_SIZE);
+  const row = Math.floor((position.z - grid.minZ) / GRID_CELL_SIZE);
+  if (row < 0 || col < 0 || row >= grid.rows || col >= grid.cols) return null;
+
+  const triangle = new THREE.Triangle();
+  let best: NavPoint | null = null;
+  for (const t of grid.cells.get(row * grid.cols + col) ?? []) {
+    const { a, b, c } = navTriangle(graph, t, triangle);
+    // Barycentric coordinates of the position in the triangle seen from above
+    const det = (b.z - c.z) * (a.x - c.x) + (c.x - b.x) * (a.z - c.z);
+    if (Math.abs(det) < 1e-12) continue;
+    const u = ((b.z - c.z) * (position.x - c.x) + (c.x - b.x) * (position.z - c.z)) / det;
+    const v = ((c.z - a.z) * (position.x - c.x) + (a.x - c.x) * (position.z - c.z)) / det;
+    const w = 1 - u - v;
+    if (u < 0 || v < 0 || w < 0) continue;
+
+    const y = u * a.y + v * b.y + w * c.y;
+    if (!best || Math.abs(y - position.y) < Math.abs(best.point.y - position.y)) {
+      best = { point: new THREE.Vector3(position.x, y, position.z), triangle: t };
+    }
+  }
+  return best;
+}
+
+class TriangleHeap {
+  private items: { triangle: number; priority: number }[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(triangle: number, priority: number) {
+    const items = this.items;
+    items.push({ triangle, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top.triangle;
+  }
+}
+
+function centroidDistance(graph: NavGraph, a: number, b: number): number {
+  const c = graph.centroids;
+  return Math.hypot(c[a * 3] - c[b * 3], c[a * 3 + 1] - c[b * 3 + 1], c[a * 3 + 2] - c[b * 3 + 2]);
+}
+
+/**
+ * A* over the triangle graph, with distances measured between triangle centroids.
+ *
+ * @returns The corridor of triangles from start to goal, or null when they are not connected
+ */
+function findCorridor(graph: NavGraph, start: number, goal: number): number[] | null {
+  const cost = new Map<number, number>([[start, 0]]);
+  const cameFrom = new Map<number, number>();
+  const closed = new Set<number>();
+  const open = new TriangleHeap();
+  open.push(start, centroidDistance(graph, start, goal));
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === goal) {
+      const corridor = [goal];
+      for (let t = goal; cameFrom.has(t); ) {
+        t = cameFrom.get(t)!;
+        corridor.push(t);
+      }
+      return corridor.reverse();
+    }
+    if (closed.has(current)) continue;
+    closed.add(current);
+
+    for (let k = 0; k < 3; k++) {
+      const next = graph.neighbours[current * 3 + k];
+      if (next < 0 || closed.has(next)) continue;
+      const nextCost = cost.get(current)! + centroidDistance(graph, current, next);
+      if (nextCost < (cost.get(next) ?? Infinity)) {
+        cost.set(next, nextCost);
+        cameFrom.set(next, current);
+        open.push(next, nextCost + centroidDistance(graph, next, goal));
+      }
+    }
+  }
+  return null;
+}
+
+// Twice the signed area of the triangle abc seen from above
+function triarea2(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): number {
+  return (c.x - a.x) * (b.z - a.z) - (b.x - a.x) * (c.z - a.z);
+}
+
+/**
+ * The edges crossed when walking the corridor, each with its endpoints ordered
+ * left and right of the walking direction.
+ */
+function corridorPortals(graph: NavGraph, corridor: number[], start: THREE.Vector3, goal: THREE.Vector3) {
+  const portals: { left: THREE.Vector3; right: THREE.Vector3 }[] = [{ left: start, right: start }];
+  const v = graph.vertices;
+  const vertex = (index: number) => new THREE.Vector3(v[index * 3], v[index * 3 + 1], v[index * 3 + 2]);
+
+  for (let i = 0; i + 1 < corridor.length; i++) {
+    const from = corridor[i];
+    const k = [0, 1, 2].find((edge) => graph.neighbours[from * 3 + edge] === corridor[i + 1])!;
+    const a = vertex(graph.triangles[from * 3 + k]);
+    const b = vertex(graph.triangles[from * 3 + ((k + 1) % 3)]);
+    const centroid = new THREE.Vector3(
+      graph.centroids[from * 3],
+      graph.centroids[from * 3 + 1],
+      graph.centroids[from * 3 + 2]
+    );
+    // Nav mesh winding is not guaranteed, so orient each edge from the triangle it leaves
+    portals.push(triarea2(centroid, a, b) > 0 ? { left: a, right: b } : { left: b, right: a });
+  }
+
+  portals.push({ left: goal, right: goal });
+  return portals;
+}
+
+/**
+ * Shortest path through the portals of a corridor using the simple stupid funnel
+ * algorithm, on the horizontal plane. Corners keep the height of the nav mesh
+ * vertex they turn around.
+ */
+function stringPull(portals: { left: THREE.Vector3; right: THREE.Vector3 }[]): THREE.Vector3[] {
+  const points = [portals[0].left];
+  let apex = portals[0].left;
+  let left = portals[0].left;
+  let right = portals[0].right;
+  let apexIndex = 0;
+  let leftIndex = 0;
+  let rightIndex = 0;
+  // The funnel can restart at the corner it just added
+  const addCorner = (point: THREE.Vector3) => {
+    if (!points[points.length - 1].equals(point)) points.push(point);
+  };
+
+  for (let i = 1; i < portals.length; i++) {
+    const portal = portals[i];
+
+    // Tighten the right side of the funnel
+    if (triarea2(apex, right, portal.right) <= 0) {
+      if (apex.equals(right) || triarea2(apex, left, portal.right) > 0) {
+        right = portal.right;
+        rightIndex = i;
+      } else {
+        // The right side crossed the left: the left point is a corner
+        addCorner(left);
+        apex = left;
+        apexIndex = leftIndex;
+        right = apex;
+        rightIndex = apexIndex;
+        i = apexIndex;
+        continue;
+      }
+    }
+
+    // Tighten the left side of the funnel
+    if (triarea2(apex, left, portal.left) >= 0) {
+      if (apex.equals(left) || triarea2(apex, right, portal.left) < 0) {
+        left = portal.left;
+        leftIndex = i;
+      } else {
+        addCorner(right);
+        apex = right;
+        apexIndex = rightIndex;
+        left = apex;
+        leftIndex = apexIndex;
+        i = apexIndex;
+        continue;
+      }
+    }
+  }
+
+  addCorner(portals[portals.length - 1].left);
+  return points;
+}
+
+/**
+ * The shortest walkable path between two positions. Both are first snapped to the
+ * closest point on the nav mesh.
+ *
+ * @returns null when either position is far from the nav mesh or the two are not connected
+ */
+export function findPath(graph: NavGraph, from: Vec3, to: Vec3): NavPath | null {
+  const start = closestNavPoint(graph, new THREE.Vector3(...from));
+  const goal = closestNavPoint(graph, new THREE.Vector3(...to));
+  if (!start || !goal) return null;
+
+  const corridor = findCorridor(graph, start.triangle, goal.triangle);
+  if (!corridor) return null;
+
+  const points = stringPull(corridorPortals(graph, corridor, start.point, goal.point));
+  let length = 0;
+  for (let i = 1; i < points.length; i++) length += points[i].distanceTo(points[i - 1]);
+  return { points: points.map((point) => point.toArray()), length };
+}
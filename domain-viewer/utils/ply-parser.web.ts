@@ -1,123 +1,77 @@
-import { PLYLoader } from "three/examples/jsm/loaders/PLYLoader.js"
 import * as THREE from "three"
-
-interface PLYBuffer {
-  indices: number[];
-  vertices: number[];
-  normals: number[];
-  uvs: number[];
-  colors: number[];
-  faceVertexUvs: number[];
-  faceVertexColors: number[];
+import { throwIfAborted } from "./abort"
+import { parsePly, ParsedPly } from "./plyParser"
+import { buildOctree, OctreeOptions, PointCloudOctree } from "./pointCloudOctree"
+import { WorkerPool } from "./workerPool"
+import type { PlyWorkerRequest } from "@/workers/ply.worker"
+import type { OctreeWorkerRequest } from "@/workers/octree.worker"
+
+let pool: WorkerPool<PlyWorkerRequest, ParsedPly> | null = null
+let octreePool: WorkerPool<OctreeWorkerRequest, PointCloudOctree> | null = null
+
+function getPool(): WorkerPool<PlyWorkerRequest, ParsedPly> {
+  if (!pool) {
+    pool = new WorkerPool(() => new Worker(new URL("../workers/ply.worker.ts", import.meta.url), { type: "module" }))
+  }
+  return pool
 }
 
-const plyLoader = new PLYLoader()
-const _color = new THREE.Color()
-
-function postProcess(buffer: PLYBuffer): THREE.BufferGeometry {
-  let geometry = new THREE.BufferGeometry()
-
-  // mandatory buffer data
-
-  if (buffer.indices.length > 0) {
-    geometry.setIndex(buffer.indices)
+function getOctreePool(): WorkerPool<OctreeWorkerRequest, PointCloudOctree> {
+  if (!octreePool) {
+    octreePool = new WorkerPool(() => new Worker(new URL("../workers/octree.worker.ts", import.meta.url), { type: "module" }))
   }
+  return octreePool
+}
 
-  geometry.setAttribute("position", new THREE.Float32BufferAttribute(buffer.vertices, 3))
-
-  // optional buffer data
-
-  if (buffer.normals.length > 0) {
-    geometry.setAttribute("normal", new THREE.Float32BufferAttribute(buffer.normals, 3))
-  }
+function toGeometry(parsed: ParsedPly): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry()
 
-  if (buffer.uvs.length > 0) {
-    geometry.setAttribute("uv", new THREE.Float32BufferAttribute(buffer.uvs, 2))
+  if (parsed.indices) {
+    geometry.setIndex(new THREE.BufferAttribute(parsed.indices, 1))
   }
 
-  if (buffer.colors.length > 0) {
-  console.log("***************** COLORS")
-    for (var i = 0; i < buffer.colors.length; i += 3) {
-      _color.setRGB(buffer.colors[i], buffer.colors[i + 1], buffer.colors[i + 2], THREE.SRGBColorSpace)
-
-      buffer.colors[i] = _color.r
-      buffer.colors[i + 1] = _color.g
-      buffer.colors[i + 2] = _color.b
-    }
+  geometry.setAttribute("position", new THREE.BufferAttribute(parsed.positions, 3))
 
-    geometry.setAttribute("color", new THREE.Float32BufferAttribute(buffer.colors, 3))
+  if (parsed.normals) {
+    geometry.setAttribute("normal", new THREE.BufferAttribute(parsed.normals, 3))
   }
 
-  if (buffer.faceVertexUvs.length > 0 || buffer.faceVertexColors.length > 0) {
-    geometry = geometry.toNonIndexed()
-
-    if (buffer.faceVertexUvs.length > 0)
-      geometry.setAttribute("uv", new THREE.Float32BufferAttribute(buffer.faceVertexUvs, 2))
-    if (buffer.faceVertexColors.length > 0)
-      geometry.setAttribute("color", new THREE.Float32BufferAttribute(buffer.faceVertexColors, 3))
+  if (parsed.uvs) {
+    geometry.setAttribute("uv", new THREE.BufferAttribute(parsed.uvs, 2))
   }
 
-  // custom buffer data
-
-  // for ( const customProperty of Object.keys( scope.customPropertyMapping ) ) {
-
-  // 	if ( buffer[ customProperty ].length > 0 ) {
-
-  // 	  	geometry.setAttribute(
-  // 			customProperty,
-  // 			new Float32BufferAttribute(
-  // 		  		buffer[ customProperty ],
-  // 		  		scope.customPropertyMapping[ customProperty ].length
-  // 			)
-  // 	  	);
-
-  // 	}
-
-  // }
+  // Already converted to linear space by the parser
+  if (parsed.colors) {
+    geometry.setAttribute("color", new THREE.BufferAttribute(parsed.colors, 3))
+  }
 
   geometry.computeBoundingSphere()
 
   return geometry
 }
 
-export async function plyAsyncParse(data: ArrayBuffer | string, threaded?: boolean): Promise<THREE.BufferGeometry> {
-  if (!window.Worker || !threaded) return plyLoader.parse(data)
-
-  let promiseResolve: (value: THREE.BufferGeometry) => void
-  let promiseReject: (reason?: any) => void
-
-  console.log("hello worker")
-
-  const w = new Worker("/workers/parse-ply-worker.js", {
-    type: "module",
-  })
-  w.onmessage = (ev) => {
-    console.log("message received", ev)
-    const geometry = postProcess(ev.data.parsed)
-    console.log(geometry)
-    promiseResolve(geometry)
-    console.log("resolved")
-    w.terminate()
-  }
-  w.onerror = (ev) => {
-    console.log("worker error", ev)
-    promiseReject()
-    w.terminate()
-  }
+/**
+ * Parses PLY data, on a pooled worker when threaded is set and workers are available.
+ * The input buffer is copied to the worker, not transferred, so callers can keep using it.
+ * Aborting the signal terminates the worker and rejects with an AbortError.
+ */
+export async function plyAsyncParse(data: ArrayBuffer | string, threaded?: boolean, signal?: AbortSignal): Promise<THREE.BufferGeometry> {
+  throwIfAborted(signal)
+  if (typeof Worker === "undefined" || !threaded) return toGeometry(parsePly(data))
+
+  const parsed = await getPool().run({ data }, [], signal)
+  return toGeometry(parsed)
+}
 
-  w.onmessageerror = (ev) => {
-    console.log("message error", ev)
-    promiseReject()
-    w.terminate()
+/**
+ * Parses PLY data and builds a level-of-detail octree from its points, in one pass on a
+ * pooled worker. Falls back to the main thread where workers are unavailable.
+ */
+export async function plyAsyncParseOctree(data: ArrayBuffer | string, options?: OctreeOptions, signal?: AbortSignal): Promise<PointCloudOctree> {
+  throwIfAborted(signal)
+  if (typeof Worker === "undefined") {
+    return buildOctree(parsePly(data), options)
   }
 
-  w.postMessage({ data })
-
-  var promise = new Promise<THREE.BufferGeometry>((resolve, reject) => {
-    promiseResolve = resolve
-    promiseReject = reject
-  })
-
-  return promise
+  return getOctreePool().run({ data, options }, [], signal)
 }
-
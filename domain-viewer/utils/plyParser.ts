@@ -0,0 +1,361 @@
+/**
+ * PLY parser that writes straight into typed arrays.
+ * Has no DOM or Three.js dependencies so it runs in web workers and on the server.
+ */
+
+export interface ParsedPly {
+  positions: Float32Array;
+  normals: Float32Array | null;
+  colors: Float32Array | null; // Linear RGB in [0, 1]
+  intensities: Float32Array | null; // Normalized to [0, 1]
+  uvs: Float32Array | null;
+  indices: Uint32Array | null;
+}
+
+interface PlyProperty {
+  name: string;
+  type: string;
+  countType?: string; // List properties only
+  itemType?: string; // List properties only
+}
+
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+}
+
+interface PlyHeader {
+  format: string;
+  elements: PlyElement[];
+  headerLength: number; // Bytes up to and including the newline after end_header
+}
+
+const TYPE_SIZES: Record<string, number> = {
+  char: 1, int8: 1, uchar: 1, uint8: 1,
+  short: 2, int16: 2, ushort: 2, uint16: 2,
+  int: 4, int32: 4, uint: 4, uint32: 4,
+  float: 4, float32: 4, double: 8, float64: 8,
+};
+
+const FLOAT_TYPES = new Set(["float", "float32", "double", "float64"]);
+
+// Property names accepted for each vertex attribute, matching three's PLYLoader
+const ATTRIBUTE_NAMES = {
+  x: ["x", "px", "posx"],
+  y: ["y", "py", "posy"],
+  z: ["z", "pz", "posz"],
+  nx: ["nx", "normalx"],
+  ny: ["ny", "normaly"],
+  nz: ["nz", "normalz"],
+  s: ["s", "u", "texture_u", "tx"],
+  t: ["t", "v", "texture_v", "ty"],
+  r: ["red", "diffuse_red", "r", "diffuse_r"],
+  g: ["green", "diffuse_green", "g", "diffuse_g"],
+  b: ["blue", "diffuse_blue", "b", "diffuse_b"],
+  i: ["intensity", "scalar_intensity", "scalar_Intensity"],
+};
+
+type VertexAttribute = keyof typeof ATTRIBUTE_NAMES;
+
+function srgbToLinear(c: number): number {
+  return c < 0.04045 ? c * 0.0773993808 : Math.pow(c * 0.9478672986 + 0.0521327014, 2.4);
+}
+
+// sRGB to linear lookup for 8-bit color channels
+const SRGB_TO_LINEAR_8BIT = new Float32Array(256).map((_, i) => srgbToLinear(i / 255));
+
+function findHeaderEnd(bytes: Uint8Array): number {
+  const marker = "end_header";
+  const limit = Math.min(bytes.length, 64 * 1024);
+  outer: for (let i = 0; i < limit - marker.length; i++) {
+    for (let j = 0; j < marker.length; j++) {
+      if (bytes[i + j] !== marker.charCodeAt(j)) continue outer;
+    }
+    let end = i + marker.length;
+    if (bytes[end] === 13) end++; // \r
+    if (bytes[end] === 10) end++; // \n
+    return end;
+  }
+  throw new Error("Invalid PLY: end_header not found");
+}
+
+function parseHeader(bytes: Uint8Array): PlyHeader {
+  const headerLength = findHeaderEnd(bytes);
+  const text = new TextDecoder().decode(bytes.subarray(0, headerLength));
+  const lines = text.split(/\r\n|\r|\n/);
+  if (lines[0].trim() !== "ply") {
+    throw new Error("Invalid PLY: missing magic number");
+  }
+
+  const header: PlyHeader = { format: "", elements: [], headerLength };
+  let current: PlyElement | null = null;
+
+  for (const rawLine of lines) {
+    const values = rawLine.trim().split(/\s+/);
+    switch (values[0]) {
+      case "format":
+        header.format = values[1];
+        break;
+      case "element":
+        current = { name: values[1], count: Number.parseInt(values[2], 10), properties: [] };
+        header.elements.push(current);
+        break;
+      case "property":
+        if (!current) throw new Error("Invalid PLY: property before element");
+        current.properties.push(
+          values[1] === "list"
+            ? { type: "list", countType: values[2], itemType: values[3], name: values[4] }
+            : { type: values[1], name: values[2] }
+        );
+        break;
+    }
+  }
+
+  if (!["ascii", "binary_little_endian", "binary_big_endian"].includes(header.format)) {
+    throw new Error(`Unsupported PLY format: ${header.format}`);
+  }
+  return header;
+}
+
+function readScalar(view: DataView, offset: number, type: string, littleEndian: boolean): number {
+  switch (type) {
+    case "char":
+    case "int8":
+      return view.getInt8(offset);
+    case "uchar":
+    case "uint8":
+      return view.getUint8(offset);
+    case "short":
+    case "int16":
+      return view.getInt16(offset, littleEndian);
+    case "ushort":
+    case "uint16":
+      return view.getUint16(offset, littleEndian);
+    case "int":
+    case "int32":
+      return view.getInt32(offset, littleEndian);
+    case "uint":
+    case "uint32":
+      return view.getUint32(offset, littleEndian);
+    case "float":
+    case "float32":
+      return view.getFloat32(offset, littleEndian);
+    case "double":
+    case "float64":
+      return view.getFloat64(offset, littleEndian);
+    default:
+      throw new Error(`Unsupported PLY property type: ${type}`);
+  }
+}
+
+/**
+ * Maps each vertex attribute to the index of the property that holds it, or -1.
+ */
+function mapVertexAttributes(element: PlyElement): Record<VertexAttribute, number> {
+  const names = element.properties.map((property) => property.name);
+  const map = {} as Record<VertexAttribute, number>;
+  for (const attribute of Object.keys(ATTRIBUTE_NAMES) as VertexAttribute[]) {
+    map[attribute] = names.findIndex((name) => ATTRIBUTE_NAMES[attribute].includes(name));
+  }
+  return map;
+}
+
+/**
+ * Typed-array output for a vertex element, plus a writer used by the binary and ASCII readers.
+ */
+function createVertexSink(element: PlyElement) {
+  const count = element.count;
+  const map = mapVertexAttributes(element);
+  const hasNormals = map.nx >= 0 && map.ny >= 0 && map.nz >= 0;
+  const hasUvs = map.s >= 0 && map.t >= 0;
+  const hasColors = map.r >= 0 && map.g >= 0 && map.b >= 0;
+  const hasIntensities = map.i >= 0;
+  const integerColors = hasColors && !FLOAT_TYPES.has(element.properties[map.r].type);
+
+  const positions = new Float32Array(count * 3);
+  const normals = hasNormals ? new Float32Array(count * 3) : null;
+  const uvs = hasUvs ? new Float32Array(count * 2) : null;
+  const colors = hasColors ? new Float32Array(count * 3) : null;
+  const intensities = hasIntensities ? new Float32Array(count) : null;
+
+  const color = (value: number) =>
+    integerColors ? SRGB_TO_LINEAR_8BIT[value & 255] : srgbToLinear(Math.min(1, Math.max(0, value)));
+
+  const write = (i: number, values: ArrayLike<number>) => {
+    positions[i * 3] = values[map.x];
+    positions[i * 3 + 1] = values[map.y];
+    positions[i * 3 + 2] = values[map.z];
+    if (normals) {
+      normals[i * 3] = values[map.nx];
+      normals[i * 3 + 1] = values[map.ny];
+      normals[i * 3 + 2] = values[map.nz];
+    }
+    if (uvs) {
+      uvs[i * 2] = values[map.s];
+      uvs[i * 2 + 1] = values[map.t];
+    }
+    if (colors) {
+      colors[i * 3] = color(values[map.r]);
+      colors[i * 3 + 1] = color(values[map.g]);
+      colors[i * 3 + 2] = color(values[map.b]);
+    }
+    if (intensities) {
+      intensities[i] = values[map.i];
+    }
+  };
+
+  // Intensity scales differ between scanners, so map whatever range is present onto [0, 1]
+  const finish = (): Pick<ParsedPly, "positions" | "normals" | "uvs" | "colors" | "intensities"> => {
+    if (intensities && intensities.length > 0) {
+      let min = Infinity;
+      let max = -Infinity;
+      for (const value of intensities) {
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+      const range = max - min || 1;
+      for (let i = 0; i < intensities.length; i++) intensities[i] = (intensities[i] - min) / range;
+    }
+    return { positions, normals, uvs, colors, intensities };
+  };
+
+  return { write, finish };
+}
+
+function pushFace(indices: number[], face: ArrayLike<number>) {
+  if (face.length === 3) {
+    indices.push(face[0], face[1], face[2]);
+  } else if (face.length === 4) {
+    indices.push(face[0], face[1], face[3], face[1], face[2], face[3]);
+  }
+}
+
+function parseBinary(bytes: Uint8Array, header: PlyHeader, result: ParsedPly): void {
+  const littleEndian = header.format === "binary_little_endian";
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = header.headerLength;
+  const indices: number[] = [];
+
+  for (const element of header.elements) {
+    const hasLists = element.properties.some((property) => property.type === "list");
+    const sink = element.name === "vertex" ? createVertexSink(element) : null;
+
+    if (!hasLists) {
+      // Fixed stride: read each property at a precomputed offset
+      const offsets: number[] = [];
+      let stride = 0;
+      for (const property of element.properties) {
+        offsets.push(stride);
+        stride += TYPE_SIZES[property.type] ?? 0;
+      }
+      if (sink) {
+        const values = new Float64Array(element.properties.length);
+        for (let i = 0; i < element.count; i++) {
+          const base = offset + i * stride;
+          for (let p = 0; p < element.properties.length; p++) {
+            values[p] = readScalar(view, base + offsets[p], element.properties[p].type, littleEndian);
+          }
+          sink.write(i, values);
+        }
+        Object.assign(result, sink.finish());
+      }
+      offset += element.count * stride;
+      continue;
+    }
+
+    const faceProperty = element.properties.findIndex(
+      (property) => property.name === "vertex_indices" || property.name === "vertex_index"
+    );
+    for (let i = 0; i < element.count; i++) {
+      for (let p = 0; p < element.properties.length; p++) {
+        const property = element.properties[p];
+        if (property.type !== "list") {
+          offset += TYPE_SIZES[property.type] ?? 0;
+          continue;
+        }
+        const n = readScalar(view, offset, property.countType!, littleEndian);
+        offset += TYPE_SIZES[property.countType!];
+        const itemSize = TYPE_SIZES[property.itemType!];
+        if (element.name === "face" && p === faceProperty) {
+          const face: number[] = [];
+          for (let j = 0; j < n; j++) face.push(readScalar(view, offset + j * itemSize, property.itemType!, littleEndian));
+          pushFace(indices, face);
+        }
+        offset += n * itemSize;
+      }
+    }
+  }
+
+  if (indices.length > 0) result.indices = new Uint32Array(indices);
+}
+
+function parseASCII(bytes: Uint8Array, header: PlyHeader, result: ParsedPly): void {
+  const body = new TextDecoder().decode(bytes.subarray(header.headerLength)).trim();
+  const tokens = body.length > 0 ? body.split(/\s+/) : [];
+  let cursor = 0;
+  const next = () => Number(tokens[cursor++]);
+  const indices: number[] = [];
+
+  for (const element of header.elements) {
+    const sink = element.name === "vertex" ? createVertexSink(element) : null;
+    const values = new Float64Array(element.properties.length);
+
+    for (let i = 0; i < element.count && cursor < tokens.length; i++) {
+      for (let p = 0; p < element.properties.length; p++) {
+        const property = element.properties[p];
+        if (property.type !== "list") {
+          values[p] = next();
+          continue;
+        }
+        const n = next();
+        const list: number[] = [];
+        for (let j = 0; j < n; j++) list.push(next());
+        if (element.name === "face" && (property.name === "vertex_indices" || property.name === "vertex_index")) {
+          pushFace(indices, list);
+        }
+      }
+      sink?.write(i, values);
+    }
+
+    if (sink) {
+      Object.assign(result, sink.finish());
+    }
+  }
+
+  if (indices.length > 0) result.indices = new Uint32Array(indices);
+}
+
+/**
+ * Parses an ASCII or binary PLY file. Vertex colors are converted from sRGB to linear.
+ *
+ * @throws Error if the data is not a supported PLY file
+ */
+export function parsePly(data: ArrayBuffer | string): ParsedPly {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : new Uint8Array(data);
+  const header = parseHeader(bytes);
+  const result: ParsedPly = {
+    positions: new Float32Array(0),
+    normals: null,
+    colors: null,
+    intensities: null,
+    uvs: null,
+    indices: null,
+  };
+
+  if (header.format === "ascii") {
+    parseASCII(bytes, header, result);
+  } else {
+    parseBinary(bytes, header, result);
+  }
+  return result;
+}
+
+/**
+ * Buffers to transfer (rather than copy) when posting a parse result between threads.
+ */
+export function plyTransferables(parsed: ParsedPly): ArrayBuffer[] {
+  return [parsed.positions, parsed.normals, parsed.colors, parsed.intensities, parsed.uvs, parsed.indices]
+    .filter((array): array is NonNullable<typeof array> => array !== null)
+    .map((array) => array.buffer as ArrayBuffer);
+}
@@ -0,0 +1,196 @@
+import * as THREE from "three";
+import type { PointCloudStyle, PointColorMode } from "@/store/point-cloud-store";
+
+// Base point size in world units, as drawn by the original PointsMaterial
+const BASE_POINT_SIZE = 0.09;
+
+// Point size limits in pixels
+const MIN_POINT_SIZE_PX = 1;
+const MAX_POINT_SIZE_PX = 64;
+
+const COLOR_MODES: Record<PointColorMode, number> = {
+  rgb: 0,
+  elevation: 1,
+  distance: 2,
+  intensity: 3,
+  normals: 4,
+};
+
+const vertexShader = /* glsl */ `
+  attribute vec3 color;
+  attribute float intensity;
+  attribute float scalar;
+
+  uniform int colorMode;
+  uniform bool hasColors;
+  uniform float pointSize;
+  uniform float nodeSpacing;
+  uniform bool adaptiveSize;
+  uniform float sizeScale;
+  uniform float projectionFactor;
+  uniform vec2 elevationRange;
+  uniform vec2 distanceRange;
+  uniform bool useTint;
+  uniform vec3 tintColor;
+  uniform bool useScalar;
+  uniform float scalarMax;
+
+  varying vec3 vColor;
+
+  #include <clipping_planes_pars_vertex>
+
+  // Blue, cyan, green, yellow, red; stops are sRGB and converted to linear
+  vec3 ramp(float t) {
+    t = clamp(t, 0.0, 1.0);
+    vec3 c = t < 0.25 ? mix(vec3(0.19, 0.21, 0.58), vec3(0.16, 0.64, 0.86), t * 4.0)
+      : t < 0.5 ? mix(vec3(0.16, 0.64, 0.86), vec3(0.36, 0.80, 0.42), (t - 0.25) * 4.0)
+      : t < 0.75 ? mix(vec3(0.36, 0.80, 0.42), vec3(0.99, 0.85, 0.24), (t - 0.5) * 4.0)
+      : mix(vec3(0.99, 0.85, 0.24), vec3(0.86, 0.20, 0.18), (t - 0.75) * 4.0);
+    return pow(c, vec3(2.2));
+  }
+
+  void main() {
+    vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+    vec4 mvPosition = viewMatrix * worldPosition;
+    gl_Position = projectionMatrix * mvPosition;
+
+    #include <clipping_planes_vertex>
+
+    float depth = -mvPosition.z;
+    // Adaptive points span the spacing of their level of detail, fixed points a constant world size
+    gl_PointSize = adaptiveSize
+      ? nodeSpacing * pointSize * projectionFactor / depth
+      : ${BASE_POINT_SIZE.toFixed(2)} * pointSize * sizeScale / depth;
+    gl_PointSize = clamp(gl_PointSize, ${MIN_POINT_SIZE_PX.toFixed(1)}, ${MAX_POINT_SIZE_PX.toFixed(1)});
+
+    if (colorMode == 1) {
+      vColor = ramp((worldPosition.y - elevationRange.x) / max(elevationRange.y - elevationRange.x, 0.0001));
+    } else if (colorMode == 2) {
+      vColor = ramp((depth - distanceRange.x) / max(distanceRange.y - distanceRange.x, 0.0001));
+    } else if (colorMode == 3) {
+      vColor = vec3(pow(intensity, 2.2));
+    } else if (colorMode == 4) {
+      vColor = pow(normalize(mat3(modelMatrix) * normal) * 0.5 + 0.5, vec3(2.2));
+    } else {
+      vColor = hasColors ? color : vec3(1.0);
+    }
+
+    // Overrides used when comparing clouds
+    if (useScalar) {
+      vColor = ramp(scalar / max(scalarMax, 0.0001));
+    } else if (useTint) {
+      float luminance = dot(vColor, vec3(0.2126, 0.7152, 0.0722));
+      vColor = tintColor * (0.35 + 0.65 * sqrt(luminance));
+    }
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform bool roundShape;
+
+  varying vec3 vColor;
+
+  #include <clipping_planes_pars_fragment>
+
+  void main() {
+    #include <clipping_planes_fragment>
+
+    if (roundShape) {
+      vec2 offset = gl_PointCoord * 2.0 - 1.0;
+      if (dot(offset, offset) > 1.0) discard;
+    }
+    gl_FragColor = vec4(vColor, 1.0);
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
+
+/**
+ * Point cloud shader with selectable color modes, round or square splats and
+ * fixed or adaptive point size. One instance is shared by all nodes of an octree;
+ * the per-node spacing used by adaptive size is set right before each node draws.
+ * Honors clippingPlanes like the built-in materials.
+ */
+export class PointCloudMaterial extends THREE.ShaderMaterial {
+  constructor() {
+    super({
+      vertexShader,
+      fragmentShader,
+      uniforms: {
+        colorMode: { value: COLOR_MODES.rgb },
+        hasColors: { value: true },
+        pointSize: { value: 1 },
+        nodeSpacing: { value: BASE_POINT_SIZE },
+        adaptiveSize: { value: false },
+        sizeScale: { value: 1 },
+        projectionFactor: { value: 1 },
+        elevationRange: { value: new THREE.Vector2(0, 1) },
+        distanceRange: { value: new THREE.Vector2(0, 50) },
+        roundShape: { value: false },
+        useTint: { value: false },
+        tintColor: { value: new THREE.Color() },
+        useScalar: { value: false },
+        scalarMax: { value: 1 },
+      },
+      clipping: true,
+    });
+  }
+
+  setStyle(style: PointCloudStyle) {
+    this.uniforms.colorMode.value = COLOR_MODES[style.colorMode];
+    this.uniforms.pointSize.value = style.pointSize;
+    this.uniforms.adaptiveSize.value = style.adaptiveSize;
+    this.uniforms.roundShape.value = style.shape === "round";
+  }
+
+  setHasColors(hasColors: boolean) {
+    this.uniforms.hasColors.value = hasColors;
+  }
+
+  /**
+   * Sets the world-space ranges the elevation and distance ramps span.
+   */
+  setRanges(elevation: [number, number], distance: [number, number]) {
+    this.uniforms.elevationRange.value.set(...elevation);
+    this.uniforms.distanceRange.value.set(...distance);
+  }
+
+  /**
+   * Draws every point in one color, shaded by its own brightness, so overlaid clouds
+   * can be told apart. null restores the style's color mode.
+   */
+  setTint(color: THREE.ColorRepresentation | null) {
+    this.uniforms.useTint.value = color !== null;
+    if (color !== null) this.uniforms.tintColor.value.set(color);
+  }
+
+  /**
+   * Colors points by their "scalar" attribute on the elevation ramp, from 0 to max.
+   * null restores the style's color mode.
+   */
+  setScalarRange(max: number | null) {
+    this.uniforms.useScalar.value = max !== null;
+    if (max !== null) this.uniforms.scalarMax.value = max;
+  }
+
+  /**
+   * Updates the world-to-pixel factors; call when the camera or viewport changes.
+   *
+   * @param drawingBufferHeight - Height of the canvas in device pixels
+   * @param fov - Vertical field of view in degrees
+   */
+  setViewport(drawingBufferHeight: number, fov: number) {
+    // Matches PointsMaterial's size attenuation, so fixed sizes look as before
+    this.uniforms.sizeScale.value = drawingBufferHeight / 2;
+    this.uniforms.projectionFactor.value = drawingBufferHeight / (2 * Math.tan(THREE.MathUtils.degToRad(fov) / 2));
+  }
+
+  /**
+   * Sets the spacing used by adaptive size for the next draw call.
+   */
+  setNodeSpacing(spacing: number) {
+    this.uniforms.nodeSpacing.value = spacing;
+    this.uniformsNeedUpdate = true;
+  }
+}
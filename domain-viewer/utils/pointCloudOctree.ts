@@ -0,0 +1,193 @@
+import type { ParsedPly } from "./plyParser";
+
+/**
+ * Potree-style octree for level-of-detail point cloud rendering.
+ *
+ * Each node keeps an evenly spaced subsample of the points inside its bounds (at most
+ * one per grid cell) and passes the rest down to its children, so drawing a node and
+ * its ancestors gives a density that doubles with every level. Nodes are additive:
+ * a child never repeats points already held by its ancestors.
+ */
+
+export interface OctreeNode {
+  level: number;
+  min: [number, number, number];
+  size: number; // Edge length of the node's cube
+  spacing: number; // Minimum distance between points held by this node
+  start: number; // First point of this node in the octree's point arrays
+  count: number;
+  children: number[]; // Indices into PointCloudOctree.nodes
+}
+
+export interface PointCloudOctree {
+  // Points reordered so every node's points are contiguous
+  positions: Float32Array;
+  colors: Float32Array | null;
+  normals: Float32Array | null;
+  intensities: Float32Array | null;
+  nodes: OctreeNode[]; // nodes[0] is the root
+  // Tight bounds of all points; the root cube can be larger
+  bounds: { min: [number, number, number]; max: [number, number, number] };
+}
+
+export type OctreeInput = Pick<ParsedPly, "positions" | "colors" | "normals" | "intensities">;
+
+export interface OctreeOptions {
+  maxLeafPoints?: number; // Nodes with fewer points are not split further
+  gridSize?: number; // Sampling cells per node edge
+  maxDepth?: number;
+}
+
+const DEFAULT_OPTIONS: Required<OctreeOptions> = {
+  maxLeafPoints: 20000,
+  gridSize: 64,
+  maxDepth: 16,
+};
+
+// Marks a point as kept by the current node rather than passed to a child octant
+const KEEP = 8;
+
+/**
+ * Builds an octree over the given points. The input arrays are left untouched.
+ */
+export function buildOctree(input: OctreeInput, options: OctreeOptions = {}): PointCloudOctree {
+  const { positions, colors, normals, intensities } = input;
+  const { maxLeafPoints, gridSize, maxDepth } = { ...DEFAULT_OPTIONS, ...options };
+  const pointCount = positions.length / 3;
+
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < pointCount; i++) {
+    for (let axis = 0; axis < 3; axis++) {
+      const value = positions[i * 3 + axis];
+      if (value < min[axis]) min[axis] = value;
+      if (value > max[axis]) max[axis] = value;
+    }
+  }
+  if (pointCount === 0) {
+    min.fill(0);
+    max.fill(0);
+  }
+  // Cubic bounds keep the sampling grid isotropic
+  const rootSize = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]) || 1;
+
+  const outPositions = new Float32Array(pointCount * 3);
+  const outColors = colors ? new Float32Array(pointCount * 3) : null;
+  const outNormals = normals ? new Float32Array(pointCount * 3) : null;
+  const outIntensities = intensities ? new Float32Array(pointCount) : null;
+  let cursor = 0;
+
+  const copyVec3 = (from: Float32Array, to: Float32Array, i: number) => {
+    to[cursor * 3] = from[i * 3];
+    to[cursor * 3 + 1] = from[i * 3 + 1];
+    to[cursor * 3 + 2] = from[i * 3 + 2];
+  };
+  const copyPoint = (i: number) => {
+    copyVec3(positions, outPositions, i);
+    if (outColors && colors) copyVec3(colors, outColors, i);
+    if (outNormals && normals) copyVec3(normals, outNormals, i);
+    if (outIntensities && intensities) outIntensities[cursor] = intensities[i];
+    cursor++;
+  };
+
+  const bounds = { min: [...min] as [number, number, number], max };
+  const nodes: OctreeNode[] = [
+    { level: 0, min, size: rootSize, spacing: rootSize / gridSize, start: 0, count: 0, children: [] },
+  ];
+  const rootIndices = new Uint32Array(pointCount);
+  for (let i = 0; i < pointCount; i++) rootIndices[i] = i;
+
+  // Occupancy grid shared by all nodes; only touched cells are reset between nodes
+  const occupied = new Uint8Array(gridSize * gridSize * gridSize);
+  const touched: number[] = [];
+
+  // Breadth-first, so coarse levels come first in the output arrays
+  const queue: { node: number; indices: Uint32Array }[] = [{ node: 0, indices: rootIndices }];
+  for (let head = 0; head < queue.length; head++) {
+    const { node: nodeIndex, indices } = queue[head];
+    queue[head] = null as never; // Let the index array be collected
+    const node = nodes[nodeIndex];
+    node.start = cursor;
+
+    if (indices.length <= maxLeafPoints || node.level >= maxDepth) {
+      for (let k = 0; k < indices.length; k++) copyPoint(indices[k]);
+      node.count = indices.length;
+      continue;
+    }
+
+    const cellSize = node.size / gridSize;
+    const half = node.size / 2;
+    const category = new Uint8Array(indices.length);
+    const octantCounts = new Array<number>(8).fill(0);
+
+    for (let k = 0; k < indices.length; k++) {
+      const i = indices[k];
+      const x = positions[i * 3] - node.min[0];
+      const y = positions[i * 3 + 1] - node.min[1];
+      const z = positions[i * 3 + 2] - node.min[2];
+      const cx = Math.min(gridSize - 1, Math.floor(x / cellSize));
+      const cy = Math.min(gridSize - 1, Math.floor(y / cellSize));
+      const cz = Math.min(gridSize - 1, Math.floor(z / cellSize));
+      const cell = cx + gridSize * (cy + gridSize * cz);
+
+      if (!occupied[cell]) {
+        occupied[cell] = 1;
+        touched.push(cell);
+        category[k] = KEEP;
+        copyPoint(i);
+      } else {
+        const octant = (x >= half ? 1 : 0) | (y >= half ? 2 : 0) | (z >= half ? 4 : 0);
+        category[k] = octant;
+        octantCounts[octant]++;
+      }
+    }
+    touched.forEach((cell) => (occupied[cell] = 0));
+    touched.length = 0;
+    node.count = cursor - node.start;
+
+    const childIndices = octantCounts.map((count) => (count > 0 ? new Uint32Array(count) : null));
+    const fill = new Array<number>(8).fill(0);
+    for (let k = 0; k < indices.length; k++) {
+      const octant = category[k];
+      if (octant !== KEEP) childIndices[octant]![fill[octant]++] = indices[k];
+    }
+
+    childIndices.forEach((childPoints, octant) => {
+      if (!childPoints) return;
+      const childMin: [number, number, number] = [
+        node.min[0] + (octant & 1 ? half : 0),
+        node.min[1] + (octant & 2 ? half : 0),
+        node.min[2] + (octant & 4 ? half : 0),
+      ];
+      node.children.push(nodes.length);
+      nodes.push({
+        level: node.level + 1,
+        min: childMin,
+        size: half,
+        spacing: half / gridSize,
+        start: 0,
+        count: 0,
+        children: [],
+      });
+      queue.push({ node: nodes.length - 1, indices: childPoints });
+    });
+  }
+
+  return {
+    positions: outPositions,
+    colors: outColors,
+    normals: outNormals,
+    intensities: outIntensities,
+    nodes,
+    bounds,
+  };
+}
+
+/**
+ * Buffers to transfer (rather than copy) when posting an octree between threads.
+ */
+export function octreeTransferables(octree: PointCloudOctree): ArrayBuffer[] {
+  return [octree.positions, octree.colors, octree.normals, octree.intensities]
+    .filter((array): array is Float32Array => array !== null)
+    .map((array) => array.buffer as ArrayBuffer);
+}
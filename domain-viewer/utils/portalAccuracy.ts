@@ -0,0 +1,59 @@
+import type { PortalColorMode } from "@/store/portal-store";
+import type { Portal } from "@/utils/posemeshClientApi";
+
+export interface ColorBin {
+  max: number; // Upper bound of the bin, exclusive
+  color: string;
+  label: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Color for portals missing the field being colored by
+export const UNKNOWN_COLOR = "#9ca3af";
+
+// Bins of the larger of the horizontal and vertical GPS accuracy, in meters
+export const ACCURACY_BINS: ColorBin[] = [
+  { max: 2, color: "#22c55e", label: "< 2 m" },
+  { max: 5, color: "#eab308", label: "2–5 m" },
+  { max: 10, color: "#f97316", label: "5–10 m" },
+  { max: Infinity, color: "#ef4444", label: "≥ 10 m" },
+];
+
+// Bins of the time since placement, in days
+export const AGE_BINS: ColorBin[] = [
+  { max: 30, color: "#38bdf8", label: "< 30 days" },
+  { max: 182, color: "#6366f1", label: "1–6 months" },
+  { max: 365, color: "#a855f7", label: "6–12 months" },
+  { max: Infinity, color: "#78716c", label: "≥ 1 year" },
+];
+
+export function colorBins(mode: PortalColorMode): ColorBin[] {
+  return mode === "accuracy" ? ACCURACY_BINS : mode === "age" ? AGE_BINS : [];
+}
+
+/**
+ * The worse of a portal's horizontal and vertical GPS accuracy, or null when it
+ * reported neither. Devices report 0 when they have no fix.
+ */
+export function portalAccuracy(portal: Portal): number | null {
+  const values = [portal.horizontal_accuracy, portal.vertical_accuracy].filter(
+    (value) => typeof value === "number" && value > 0
+  );
+  return values.length > 0 ? Math.max(...values) : null;
+}
+
+export function portalAgeDays(portal: Portal, now = Date.now()): number | null {
+  const placed = portal.placed_at ? new Date(portal.placed_at).getTime() : NaN;
+  return Number.isNaN(placed) ? null : Math.max(0, (now - placed) / DAY_MS);
+}
+
+/**
+ * Color of a portal under the given color mode; null when coloring is off.
+ */
+export function portalColor(portal: Portal, mode: PortalColorMode, now = Date.now()): string | null {
+  if (mode === "none") return null;
+  const value = mode === "accuracy" ? portalAccuracy(portal) : portalAgeDays(portal, now);
+  if (value === null) return UNKNOWN_COLOR;
+  return colorBins(mode).find((bin) => value < bin.max)?.color ?? UNKNOWN_COLOR;
+}
@@ -1,3 +1,6 @@
+import { isAbortError } from "./abort";
+import { DomainManifest } from "./domainManifest";
+
 export interface Portal {
   altitude: number;
   domain_id: string;
@@ -22,6 +25,47 @@ export interface Portal {
   vertical_accuracy: number,
 }
 
+export type DownloadProgressCallback = (loaded: number, total: number | null) => void;
+
+export interface DownloadOptions {
+  onProgress?: DownloadProgressCallback;
+  signal?: AbortSignal;
+}
+
+/**
+ * Reads a response body chunk by chunk, reporting progress as it goes.
+ * When the size is known up front the chunks are written straight into one buffer.
+ */
+async function readWithProgress(response: Response, onProgress?: DownloadProgressCallback): Promise<ArrayBuffer> {
+  const total = Number(response.headers.get("content-length")) || null
+  if (!response.body) {
+    const data = await response.arrayBuffer()
+    onProgress?.(data.byteLength, data.byteLength)
+    return data
+  }
+
+  const reader = response.body.getReader()
+  let buffer = new Uint8Array(total ?? 1024 * 1024)
+  let loaded = 0
+  onProgress?.(0, total)
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    if (loaded + value.byteLength > buffer.byteLength) {
+      // Unknown or wrong content-length: grow geometrically
+      const grown = new Uint8Array(Math.max(buffer.byteLength * 2, loaded + value.byteLength))
+      grown.set(buffer.subarray(0, loaded))
+      buffer = grown
+    }
+    buffer.set(value, loaded)
+    loaded += value.byteLength
+    onProgress?.(loaded, total)
+  }
+
+  return loaded === buffer.byteLength ? buffer.buffer : buffer.slice(0, loaded).buffer
+}
+
 /**
  * Client-side API wrapper for interacting with the Posemesh domain services.
  * Handles authentication and data fetching for domain-related operations.
@@ -36,26 +80,29 @@ class PosemeshClientApi {
   /**
    * Fetches portal (lighthouse) data for a specific domain.
    * Portals represent QR code markers in the physical space.
+   * Requests go through the app's same-origin proxy, which authenticates on the server.
    * 
-   * @param domainServerUrl - Base URL of the domain server
    * @param domainId - Unique identifier of the domain
-   * @param accessToken - Authentication token for the domain
+   * @param signal - Aborts the request
    * @returns Array of Portal objects containing position and orientation data
    */
-  async fetchDomainPortals(domainServerUrl: string, domainId: string, accessToken: string): Promise<Portal[]> {
+  async fetchDomainPortals(domainId: string, signal?: AbortSignal): Promise<Portal[]> {
     console.log(`[${new Date().toISOString()}] Fetching domain poses`)
     try {
-      const response = await fetch(`${domainServerUrl}/api/v1/domains/${domainId}/lighthouses`, {
+      const response = await fetch(`/api/domains/${domainId}/portals`, {
+        signal,
         headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "User-Agent": "domain-viewer", 
           "posemesh-client-id": this.posemeshClientId,
         },
       })
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
       const data = await response.json()
       console.log(`[${new Date().toISOString()}] Domain portals fetched successfully`)
       return data.poses
     } catch (error) {
+      if (isAbortError(error)) throw error
       console.error("Failed to fetch domain portals:", error)
       throw new Error("Failed to fetch domain portals") 
     }
@@ -63,26 +110,29 @@ class PosemeshClientApi {
 
   /**
    * Fetches all available data for a domain including point clouds, meshes, and metadata.
+   * Requests go through the app's same-origin proxy, which authenticates on the server.
    * 
-   * @param domainServerUrl - Base URL of the domain server
    * @param domainId - Unique identifier of the domain
-   * @param accessToken - Authentication token for the domain
-   * @returns Array of domain data objects
+   * @param signal - Aborts the request
+   * @returns Manifest of the domain's data items
    */
-  async fetchDomainData(domainServerUrl: string, domainId: string, accessToken: string) {
+  async fetchDomainData(domainId: string, signal?: AbortSignal): Promise<DomainManifest> {
     console.log(`[${new Date().toISOString()}] Fetching domain data`)
     try {
-      const response = await fetch(`${domainServerUrl}/api/v1/domains/${domainId}/data`, {
+      const response = await fetch(`/api/domains/${domainId}/data`, {
+        signal,
         headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "User-Agent": "domain-viewer",
           "posemesh-client-id": this.posemeshClientId,
         },
       })
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
       const data = await response.json()
       console.log(`[${new Date().toISOString()}] Domain data fetched successfully`)
-      return data.data
+      return DomainManifest.parse(data.data)
     } catch (error) {
+      if (isAbortError(error)) throw error
       console.error("Failed to fetch domain data:", error)
       throw new Error("Failed to fetch domain data")
     }
@@ -91,28 +141,33 @@ class PosemeshClientApi {
   /**
    * Downloads a specific file from the domain server.
    * Used for retrieving point clouds, navigation meshes, and other binary data.
+   * Files are streamed through the app's same-origin proxy, which authenticates
+   * on the server, so no domain access token is needed here.
    * 
-   * @param domainServerUrl - Base URL of the domain server
    * @param domainId - Unique identifier of the domain
    * @param fileId - Unique identifier of the file to download
-   * @param accessToken - Authentication token for the domain
-   * @param raw - Whether to return raw binary data (default: 1)
+   * @param options.onProgress - Called as chunks arrive with bytes received and total size (null if unknown)
+   * @param options.signal - Aborts the download
    * @returns ArrayBuffer containing the file data
    */
-  async downloadFile(domainServerUrl: string, domainId: string, fileId: string, accessToken: string, raw: number = 1) {
+  async downloadFile(domainId: string, fileId: string, options: DownloadOptions = {}) {
+    const { onProgress, signal } = options
     console.log(`[${new Date().toISOString()}] Downloading domain data`)
     try {
-      const response = await fetch(`${domainServerUrl}/api/v1/domains/${domainId}/data/${fileId}?raw=${raw}`, {
+      const response = await fetch(`/api/domains/${domainId}/data/${fileId}`, {
+        signal,
         headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "User-Agent": "domain-viewer",
           "posemesh-client-id": this.posemeshClientId,
         },
       })
-      const data = await response.arrayBuffer()
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+      const data = await readWithProgress(response, onProgress)
       console.log(`[${new Date().toISOString()}] Domain data downloaded successfully`)
       return data
     } catch (error) {
+      if (isAbortError(error)) throw error
       console.error("Failed to download file:", error)
       throw new Error("Failed to download file")
     }
@@ -10,10 +10,117 @@ if (!API_SERVER || !DDS_SERVER) {
 
 const AXIOS_TIMEOUT = 240000 // 4 minutes
 
+// Tokens are refreshed this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000
+// Lifetime assumed for tokens that carry no expiry information
+const DEFAULT_TOKEN_TTL_MS = 5 * 60 * 1000
+
+export interface DomainServer {
+  url: string
+  ip?: string
+}
+
+// Token response of the API server, or of the discovery service for a domain
+export interface TokenResponse {
+  access_token: string
+  expires_in?: number // Seconds
+  domain_server?: DomainServer
+  // Details of the domain, on domain tokens
+  name?: string
+  created_at?: string
+  updated_at?: string
+}
+
+export interface DomainTokenResponse extends TokenResponse {
+  domain_server: DomainServer
+}
+
+interface CachedToken {
+  response: TokenResponse
+  expiresAt: number
+}
+
+/**
+ * Error thrown when an Auki service rejects a request, carrying the HTTP status
+ * so callers can react to 401s by invalidating cached tokens.
+ */
+export class PosemeshApiError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "PosemeshApiError"
+    this.status = status
+  }
+}
+
+// Process-wide token cache shared by every PosemeshServerApi instance.
+// Keys are "api:<appKey>" for API access tokens and "domain:<appKey>:<domainId>" for domain tokens.
+const tokenCache = new Map<string, CachedToken>()
+// In-flight token requests, so concurrent callers for the same key share one request
+const pendingTokens = new Map<string, Promise<CachedToken>>()
+
+/**
+ * Works out when a token response expires: from expires_in when present,
+ * otherwise from the exp claim of the JWT access token.
+ */
+function expiryOf(response: TokenResponse): number {
+  if (typeof response.expires_in === "number") {
+    return Date.now() + response.expires_in * 1000
+  }
+  try {
+    const payload = JSON.parse(Buffer.from(response.access_token.split(".")[1], "base64url").toString("utf8"))
+    if (typeof payload.exp === "number") {
+      return payload.exp * 1000
+    }
+  } catch {}
+  return Date.now() + DEFAULT_TOKEN_TTL_MS
+}
+
+function requestToken(key: string, fetcher: () => Promise<TokenResponse>): Promise<CachedToken> {
+  let pending = pendingTokens.get(key)
+  if (!pending) {
+    pending = fetcher()
+      .then((response) => {
+        const entry = { response, expiresAt: expiryOf(response) }
+        tokenCache.set(key, entry)
+        return entry
+      })
+      .finally(() => {
+        pendingTokens.delete(key)
+      })
+    pendingTokens.set(key, pending)
+  }
+  return pending
+}
+
+/**
+ * Returns a cached token response, fetching one when there is none or it has expired.
+ * Tokens inside the refresh margin are still returned while a refresh runs in the background.
+ */
+async function getToken(key: string, fetcher: () => Promise<TokenResponse>): Promise<TokenResponse> {
+  const cached = tokenCache.get(key)
+  const now = Date.now()
+
+  if (cached && cached.expiresAt > now) {
+    if (cached.expiresAt - now < TOKEN_REFRESH_MARGIN_MS) {
+      requestToken(key, fetcher).catch((error) => {
+        console.warn(`Background token refresh failed for ${key}:`, error)
+      })
+    }
+    return cached.response
+  }
+
+  tokenCache.delete(key)
+  return (await requestToken(key, fetcher)).response
+}
+
 class PosemeshServerApi {
   private accessToken: string | null = null
   private domainAccessToken: string | null = null
   private domainServerUrl: string | null = null
+  private appKey: string | null = null
+  private appSecret: string | null = null
 
   private posemeshClientId: string
 
@@ -21,7 +128,65 @@ class PosemeshServerApi {
     this.posemeshClientId = posemeshClientId
   }
 
+  /**
+   * Drops cached tokens after a service answers 401. Without a domain ID the API
+   * access token and every domain token issued for the app key are dropped.
+   */
+  static invalidateTokens(appKey: string, domainId?: string): void {
+    if (domainId) {
+      tokenCache.delete(`domain:${appKey}:${domainId}`)
+      return
+    }
+    tokenCache.delete(`api:${appKey}`)
+    tokenCache.forEach((_, key) => {
+      if (key.startsWith(`domain:${appKey}:`)) {
+        tokenCache.delete(key)
+      }
+    })
+  }
+
+  /**
+   * Drops the cached token for a domain, e.g. after the domain server answers 401.
+   * The next authenticateDomain() call fetches a fresh one.
+   */
+  invalidateDomainToken(domainId: string): void {
+    if (this.appKey) {
+      PosemeshServerApi.invalidateTokens(this.appKey, domainId)
+    }
+  }
+
+  /**
+   * Returns the API access token obtained by authenticate().
+   */
+  getAccessToken(): string {
+    if (!this.accessToken) {
+      throw new Error("Not authenticated. Call authenticate() first.")
+    }
+    return this.accessToken
+  }
+
   async authenticate(appKey: string, appSecret: string): Promise<void> {
+    this.appKey = appKey
+    this.appSecret = appSecret
+    const response = await getToken(`api:${appKey}`, () => this.requestAccessToken(appKey, appSecret))
+    this.accessToken = response.access_token
+  }
+
+  async authenticateDomain(domainId: string): Promise<DomainTokenResponse> {
+    if (!this.accessToken || !this.appKey) {
+      throw new Error("Not authenticated. Call authenticate() first.")
+    }
+    const response = await getToken(`domain:${this.appKey}:${domainId}`, () => this.requestDomainToken(domainId))
+    const { domain_server: domainServer } = response
+    if (!domainServer) {
+      throw new Error("Domain auth response has no domain server")
+    }
+    this.domainAccessToken = response.access_token
+    this.domainServerUrl = domainServer.url
+    return { ...response, domain_server: domainServer }
+  }
+
+  private async requestAccessToken(appKey: string, appSecret: string): Promise<TokenResponse> {
     if (!API_SERVER) {
       throw new Error("AUKI_API_SERVER environment variable is not set")
     }
@@ -44,22 +209,20 @@ class PosemeshServerApi {
           const json = JSON.parse(raw);
           message = json.message || raw;
         } catch {}
-        throw new Error(`Auth failed (${request.status}): ${message || request.statusText}`)
+        throw new PosemeshApiError(`Auth failed (${request.status}): ${message || request.statusText}`, request.status)
       }
 
-      const response = await request.json();
-      this.accessToken = response.access_token;
-      console.log("Authentication response:", JSON.stringify(response, null, 2))
+      const response: TokenResponse = await request.json();
+      console.log("Authentication successful, token expires at", new Date(expiryOf(response)).toISOString())
+      return response;
     } catch (error) {
       console.error("Authentication failed:", error)
+      if (error instanceof PosemeshApiError) throw error
       throw new Error(error instanceof Error ? error.message : "Authentication failed")
     }
   }
 
-  async authenticateDomain(domainId: string): Promise<any> {
-    if (!this.accessToken) {
-      throw new Error("Not authenticated. Call authenticate() first.")
-    }
+  private async requestDomainToken(domainId: string, retried = false): Promise<TokenResponse> {
     if (!DDS_SERVER) {
       throw new Error("AUKI_DDS_SERVER environment variable is not set")
     }
@@ -82,16 +245,22 @@ class PosemeshServerApi {
           const json = JSON.parse(raw);
           message = json.message || raw;
         } catch {}
-        throw new Error(`Domain auth failed (${request.status}): ${message || request.statusText}`)
+        throw new PosemeshApiError(`Domain auth failed (${request.status}): ${message || request.statusText}`, request.status)
       }
 
-      const response = await request.json();
-      this.domainAccessToken = response.access_token;
-      this.domainServerUrl = response.domain_server.url;
-      console.log("Domain authentication response:", JSON.stringify(response, null, 2))
+      const response: TokenResponse = await request.json();
+      console.log("Domain authentication successful, token expires at", new Date(expiryOf(response)).toISOString())
       return response;
     } catch (error) {
+      // A 401 here means the cached API access token was revoked or expired early:
+      // drop it, re-authenticate once and retry
+      if (error instanceof PosemeshApiError && error.status === 401 && !retried && this.appKey && this.appSecret) {
+        tokenCache.delete(`api:${this.appKey}`)
+        await this.authenticate(this.appKey, this.appSecret)
+        return this.requestDomainToken(domainId, true)
+      }
       console.error("Domain authentication failed:", error)
+      if (error instanceof PosemeshApiError) throw error
       throw new Error(error instanceof Error ? error.message : "Domain authentication failed")
     }
   }
@@ -0,0 +1,209 @@
+/**
+ * Top-down silhouettes of a domain: the floor area its nav mesh or point cloud covers,
+ * rasterized onto a coarse grid as seen from above with x to the right and z down.
+ * Has no DOM or Three.js dependencies so it runs on the server.
+ */
+
+export interface Silhouette {
+  columns: number;
+  rows: number;
+  filled: Uint8Array; // Row-major, 1 where the domain covers the cell
+}
+
+// Cells along the longer side of the grid
+const GRID_RESOLUTION = 160;
+// Share of points ignored on each side when framing a point cloud, so stray points do not shrink it
+const POINT_BOUNDS_QUANTILE = 0.005;
+// A cell is covered when it holds at least this share of the mean points per occupied cell
+const POINT_DENSITY_THRESHOLD = 0.05;
+
+interface Grid {
+  minX: number;
+  minZ: number;
+  cellSize: number;
+  columns: number;
+  rows: number;
+}
+
+function gridFor(minX: number, minZ: number, maxX: number, maxZ: number): Grid | null {
+  const width = maxX - minX;
+  const depth = maxZ - minZ;
+  if (!(width > 0) || !(depth > 0)) return null;
+  const cellSize = Math.max(width, depth) / GRID_RESOLUTION;
+  return {
+    minX,
+    minZ,
+    cellSize,
+    columns: Math.max(1, Math.ceil(width / cellSize)),
+    rows: Math.max(1, Math.ceil(depth / cellSize)),
+  };
+}
+
+function cellIndex(grid: Grid, x: number, z: number): number {
+  const column = Math.min(grid.columns - 1, Math.max(0, Math.floor((x - grid.minX) / grid.cellSize)));
+  const row = Math.min(grid.rows - 1, Math.max(0, Math.floor((z - grid.minZ) / grid.cellSize)));
+  return row * grid.columns + column;
+}
+
+/**
+ * Reads vertex positions and triangulated faces from OBJ text. Polygons are split
+ * into fans; texture and normal indices are ignored.
+ */
+function parseObjTriangles(text: string): { vertices: number[]; triangles: number[] } {
+  const vertices: number[] = [];
+  const triangles: number[] = [];
+  for (const line of text.split("\n")) {
+    const parts = line.trim().split(/\s+/);
+    if (parts[0] === "v" && parts.length >= 4) {
+      vertices.push(Number(parts[1]), Number(parts[2]), Number(parts[3]));
+    } else if (parts[0] === "f" && parts.length >= 4) {
+      const count = vertices.length / 3;
+      const indices = parts.slice(1).map((token) => {
+        const index = parseInt(token.split("/")[0], 10);
+        return index < 0 ? count + index : index - 1;
+      });
+      for (let i = 1; i < indices.length - 1; i++) {
+        triangles.push(indices[0], indices[i], indices[i + 1]);
+      }
+    }
+  }
+  return { vertices, triangles };
+}
+
+/**
+ * Silhouette of a nav mesh in OBJ format.
+ *
+ * @returns null when the mesh has no area seen from above
+ */
+export function navMeshSilhouette(objText: string): Silhouette | null {
+  const { vertices, triangles } = parseObjTriangles(objText);
+  let minX = Infinity;
+  let minZ = Infinity;
+  let maxX = -Infinity;
+  let maxZ = -Infinity;
+  for (let i = 0; i < vertices.length; i += 3) {
+    minX = Math.min(minX, vertices[i]);
+    maxX = Math.max(maxX, vertices[i]);
+    minZ = Math.min(minZ, vertices[i + 2]);
+    maxZ = Math.max(maxZ, vertices[i + 2]);
+  }
+  const grid = gridFor(minX, minZ, maxX, maxZ);
+  if (!grid) return null;
+
+  const filled = new Uint8Array(grid.columns * grid.rows);
+  for (let t = 0; t < triangles.length; t += 3) {
+    const [a, b, c] = [triangles[t], triangles[t + 1], triangles[t + 2]].map((index) => index * 3);
+    if (c === undefined || [a, b, c].some((i) => i < 0 || i >= vertices.length)) continue;
+    const ax = vertices[a], az = vertices[a + 2];
+    const bx = vertices[b], bz = vertices[b + 2];
+    const cx = vertices[c], cz = vertices[c + 2];
+    const area = (bx - ax) * (cz - az) - (bz - az) * (cx - ax);
+
+    // Triangles smaller than a cell still mark the cell they sit in
+    filled[cellIndex(grid, (ax + bx + cx) / 3, (az + bz + cz) / 3)] = 1;
+    if (area === 0) continue;
+
+    const first = (value: number, min: number) => Math.max(0, Math.floor((value - min) / grid.cellSize));
+    const last = (value: number, min: number, count: number) =>
+      Math.min(count - 1, Math.floor((value - min) / grid.cellSize));
+    for (let row = first(Math.min(az, bz, cz), grid.minZ); row <= last(Math.max(az, bz, cz), grid.minZ, grid.rows); row++) {
+      const z = grid.minZ + (row + 0.5) * grid.cellSize;
+      for (
+        let column = first(Math.min(ax, bx, cx), grid.minX);
+        column <= last(Math.max(ax, bx, cx), grid.minX, grid.columns);
+        column++
+      ) {
+        const x = grid.minX + (column + 0.5) * grid.cellSize;
+        // Barycentric signs, normalized by the winding of the triangle
+        const w0 = ((bx - x) * (cz - z) - (bz - z) * (cx - x)) / area;
+        const w1 = ((cx - x) * (az - z) - (cz - z) * (ax - x)) / area;
+        const w2 = 1 - w0 - w1;
+        if (w0 >= 0 && w1 >= 0 && w2 >= 0) filled[row * grid.columns + column] = 1;
+      }
+    }
+  }
+  return { columns: grid.columns, rows: grid.rows, filled };
+}
+
+function quantile(sorted: Float64Array, q: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(q * (sorted.length - 1))))];
+}
+
+/**
+ * Silhouette of a point cloud, framed on the bulk of its points.
+ *
+ * @param matrix - Column-major 4x4 applied to the points first, such as a refinement's alignment
+ * @returns null when the points have no extent seen from above
+ */
+export function pointCloudSilhouette(positions: Float32Array, matrix: number[] | null = null): Silhouette | null {
+  const count = positions.length / 3;
+  if (count === 0) return null;
+  const m = matrix ?? [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+  const xs = new Float64Array(count);
+  const zs = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    const x = positions[i * 3];
+    const y = positions[i * 3 + 1];
+    const z = positions[i * 3 + 2];
+    xs[i] = m[0] * x + m[4] * y + m[8] * z + m[12];
+    zs[i] = m[2] * x + m[6] * y + m[10] * z + m[14];
+  }
+
+  const sortedX = Float64Array.from(xs).sort();
+  const sortedZ = Float64Array.from(zs).sort();
+  const grid = gridFor(
+    quantile(sortedX, POINT_BOUNDS_QUANTILE),
+    quantile(sortedZ, POINT_BOUNDS_QUANTILE),
+    quantile(sortedX, 1 - POINT_BOUNDS_QUANTILE),
+    quantile(sortedZ, 1 - POINT_BOUNDS_QUANTILE)
+  );
+  if (!grid) return null;
+
+  const counts = new Uint32Array(grid.columns * grid.rows);
+  for (let i = 0; i < count; i++) {
+    const column = Math.floor((xs[i] - grid.minX) / grid.cellSize);
+    const row = Math.floor((zs[i] - grid.minZ) / grid.cellSize);
+    if (column >= 0 && column < grid.columns && row >= 0 && row < grid.rows) {
+      counts[row * grid.columns + column]++;
+    }
+  }
+
+  let occupied = 0;
+  let total = 0;
+  counts.forEach((n) => {
+    if (n > 0) {
+      occupied++;
+      total += n;
+    }
+  });
+  const threshold = Math.max(2, (total / Math.max(1, occupied)) * POINT_DENSITY_THRESHOLD);
+  const filled = new Uint8Array(counts.length);
+  counts.forEach((n, i) => {
+    if (n >= threshold) filled[i] = 1;
+  });
+  return { columns: grid.columns, rows: grid.rows, filled };
+}
+
+/**
+ * SVG path covering the filled cells, one rectangle per horizontal run.
+ *
+ * @param cellSize - Size of a cell in the path's units
+ */
+export function silhouettePath({ columns, rows, filled }: Silhouette, cellSize: number): string {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const parts: string[] = [];
+  for (let row = 0; row < rows; row++) {
+    let column = 0;
+    while (column < columns) {
+      if (!filled[row * columns + column]) {
+        column++;
+        continue;
+      }
+      const start = column;
+      while (column < columns && filled[row * columns + column]) column++;
+      const width = round((column - start) * cellSize);
+      parts.push(`M${round(start * cellSize)} ${round(row * cellSize)}h${width}v${round(cellSize)}h${-width}z`);
+    }
+  }
+  return parts.join("");
+}
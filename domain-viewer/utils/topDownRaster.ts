@@ -0,0 +1,132 @@
+/**
+ * Orthographic top-down rendering of a point cloud on the CPU, for thumbnails made
+ * without a GPU. Points above ceiling height are cut away so indoor scans show their
+ * floor plan, then each pixel shows the highest remaining point that falls in it, as
+ * seen from above with x to the right and z down.
+ * Has no DOM or Three.js dependencies so it runs on the server.
+ */
+
+export interface RasterImage {
+  width: number;
+  height: number;
+  rgba: Uint8Array; // Row-major, 4 bytes per pixel
+}
+
+// Share of points ignored on each side when framing, so stray points do not shrink the image
+const BOUNDS_QUANTILE = 0.005;
+// Share of points below the floor, which the slice is measured from
+const FLOOR_QUANTILE = 0.02;
+// Height of the slice kept above the floor, in meters; below a typical ceiling
+const SLICE_HEIGHT = 2;
+// Empty margin around the framed points, as a share of the image size
+const PADDING = 0.04;
+// Lowest brightness of a point at the bottom of the slice
+const MIN_SHADE = 0.55;
+// Color of points without vertex colors, in sRGB
+const DEFAULT_COLOR: [number, number, number] = [0.8, 0.8, 0.8];
+const BACKGROUND: [number, number, number] = [5, 5, 5];
+
+function quantile(sorted: Float64Array, q: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(q * (sorted.length - 1))))];
+}
+
+function linearToSrgb(c: number): number {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+}
+
+/**
+ * Renders a point cloud from above. The longer side of the framed points runs along
+ * the longer side of the image.
+ *
+ * @param colors - Linear RGB per point, as returned by parsePly
+ * @param matrix - Column-major 4x4 applied to the points first, such as a refinement's alignment
+ * @returns null when the points have no extent seen from above
+ */
+export function rasterizeTopDown(
+  positions: Float32Array,
+  colors: Float32Array | null,
+  matrix: number[] | null,
+  width: number,
+  height: number
+): RasterImage | null {
+  const count = positions.length / 3;
+  if (count === 0) return null;
+  const m = matrix ?? [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+  const xs = new Float64Array(count);
+  const ys = new Float64Array(count);
+  const zs = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    const x = positions[i * 3];
+    const y = positions[i * 3 + 1];
+    const z = positions[i * 3 + 2];
+    xs[i] = m[0] * x + m[4] * y + m[8] * z + m[12];
+    ys[i] = m[1] * x + m[5] * y + m[9] * z + m[13];
+    zs[i] = m[2] * x + m[6] * y + m[10] * z + m[14];
+  }
+
+  const sortedX = Float64Array.from(xs).sort();
+  const sortedY = Float64Array.from(ys).sort();
+  const sortedZ = Float64Array.from(zs).sort();
+  const minX = quantile(sortedX, BOUNDS_QUANTILE);
+  const maxX = quantile(sortedX, 1 - BOUNDS_QUANTILE);
+  const minZ = quantile(sortedZ, BOUNDS_QUANTILE);
+  const maxZ = quantile(sortedZ, 1 - BOUNDS_QUANTILE);
+  if (!(maxX > minX) || !(maxZ > minZ)) return null;
+
+  // Keep a slice above the floor so ceilings and roofs do not hide the floor plan
+  const floorY = quantile(sortedY, FLOOR_QUANTILE);
+  const ceilingY = Math.min(quantile(sortedY, 1 - BOUNDS_QUANTILE), floorY + SLICE_HEIGHT);
+  const sliceHeight = ceilingY > floorY ? ceilingY - floorY : 1;
+
+  // Turn the points a quarter when their long side does not match the image's
+  const transpose = maxZ - minZ > maxX - minX !== height > width;
+  const spanU = transpose ? maxZ - minZ : maxX - minX;
+  const spanV = transpose ? maxX - minX : maxZ - minZ;
+  const scale = Math.min((width * (1 - 2 * PADDING)) / spanU, (height * (1 - 2 * PADDING)) / spanV);
+  const offsetU = (width - spanU * scale) / 2;
+  const offsetV = (height - spanV * scale) / 2;
+
+  const depth = new Float64Array(width * height).fill(-Infinity);
+  const pixelColors = new Float32Array(width * height * 3);
+  for (let i = 0; i < count; i++) {
+    const u = transpose ? zs[i] - minZ : xs[i] - minX;
+    const v = transpose ? maxX - xs[i] : zs[i] - minZ;
+    const column = Math.floor(offsetU + u * scale);
+    const row = Math.floor(offsetV + v * scale);
+    if (column < 0 || column >= width || row < 0 || row >= height) continue;
+    const pixel = row * width + column;
+    if (ys[i] > ceilingY || ys[i] <= depth[pixel]) continue;
+
+    depth[pixel] = ys[i];
+    const shade = MIN_SHADE + (1 - MIN_SHADE) * Math.min(1, Math.max(0, (ys[i] - floorY) / sliceHeight));
+    for (let c = 0; c < 3; c++) {
+      const color = colors ? linearToSrgb(Math.min(1, Math.max(0, colors[i * 3 + c]))) : DEFAULT_COLOR[c];
+      pixelColors[pixel * 3 + c] = color * shade;
+    }
+  }
+
+  const rgba = new Uint8Array(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      const pixel = row * width + column;
+      // Sparse areas leave holes between points; fill them from the highest neighbor
+      let source = Number.isFinite(depth[pixel]) ? pixel : -1;
+      if (source < 0) {
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const r = row + dy;
+            const c = column + dx;
+            if (r < 0 || r >= height || c < 0 || c >= width) continue;
+            const neighbor = r * width + c;
+            if (Number.isFinite(depth[neighbor]) && (source < 0 || depth[neighbor] > depth[source])) source = neighbor;
+          }
+        }
+      }
+      for (let c = 0; c < 3; c++) {
+        rgba[pixel * 4 + c] = source < 0 ? BACKGROUND[c] : Math.round(pixelColors[source * 3 + c] * 255);
+      }
+      rgba[pixel * 4 + 3] = 255;
+    }
+  }
+  return { width, height, rgba };
+}
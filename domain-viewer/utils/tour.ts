@@ -0,0 +1,100 @@
+import type { Vec3 } from "@/store/clipping-store";
+import type { Viewpoint } from "@/store/tour-store";
+
+const STORAGE_KEY_PREFIX = "tour_";
+
+// Version of the exported JSON, raised when the format changes incompatibly
+const TOUR_FORMAT_VERSION = 1;
+
+export function createViewpoint(name: string, position: Vec3, target: Vec3): Viewpoint {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    position,
+    target,
+    caption: "",
+  };
+}
+
+export function tourToJSON(viewpoints: Viewpoint[], domainId?: string): string {
+  return JSON.stringify(
+    {
+      version: TOUR_FORMAT_VERSION,
+      domain_id: domainId ?? null,
+      exported_at: new Date().toISOString(),
+      viewpoints: viewpoints.map(({ name, position, target, caption }) => ({ name, position, target, caption })),
+    },
+    null,
+    2
+  );
+}
+
+const isVec3 = (value: unknown): value is Vec3 =>
+  Array.isArray(value) && value.length === 3 && value.every((v) => typeof v === "number" && Number.isFinite(v));
+
+/**
+ * Reads viewpoints from exported tour JSON, or from a bare array of viewpoints. New ids
+ * are assigned so an imported tour never clashes with the one it joins.
+ *
+ * @throws Error if the JSON is not a tour
+ */
+export function tourFromJSON(text: string): Viewpoint[] {
+  const data = JSON.parse(text);
+  const items: unknown = Array.isArray(data) ? data : data?.viewpoints;
+  if (!Array.isArray(items)) {
+    throw new Error("Not a tour: expected a viewpoints array");
+  }
+  if (!Array.isArray(data) && typeof data.version === "number" && data.version > TOUR_FORMAT_VERSION) {
+    throw new Error(`Unsupported tour version ${data.version}`);
+  }
+  return items.map((item, index) => {
+    if (!item || !isVec3(item.position) || !isVec3(item.target)) {
+      throw new Error(`Viewpoint ${index + 1} has no valid position and target`);
+    }
+    return {
+      ...createViewpoint(
+        typeof item.name === "string" && item.name ? item.name : `Viewpoint ${index + 1}`,
+        item.position,
+        item.target
+      ),
+      caption: typeof item.caption === "string" ? item.caption : "",
+    };
+  });
+}
+
+/**
+ * Viewpoints saved in this browser for a domain; none when storage is unavailable or
+ * holds something unreadable.
+ */
+export function loadStoredTour(domainId: string): Viewpoint[] {
+  if (typeof localStorage === "undefined") return [];
+  const stored = localStorage.getItem(STORAGE_KEY_PREFIX + domainId);
+  if (!stored) return [];
+  try {
+    return tourFromJSON(stored);
+  } catch (error) {
+    console.warn(`Ignoring unreadable saved tour for ${domainId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Saves a domain's viewpoints in this browser, or clears them when there are none.
+ *
+ * @returns false when storage is unavailable or refused the write
+ */
+export function storeTour(domainId: string, viewpoints: Viewpoint[]): boolean {
+  if (typeof localStorage === "undefined") return false;
+  try {
+    if (viewpoints.length === 0) {
+      localStorage.removeItem(STORAGE_KEY_PREFIX + domainId);
+    } else {
+      localStorage.setItem(STORAGE_KEY_PREFIX + domainId, tourToJSON(viewpoints, domainId));
+    }
+    return true;
+  } catch (error) {
+    // Storage is full or blocked, as in some private windows
+    console.warn(`Failed to save tour for ${domainId}:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,126 @@
+import type { CameraView, ControlMode } from "@/store/camera-store";
+import type { Vec3 } from "@/store/clipping-store";
+import type { Measurement, MeasurementType } from "@/store/measurement-store";
+import { MIN_MEASUREMENT_POINTS } from "./measurement";
+
+/**
+ * Shareable view links. The view is kept in the URL hash so it never reaches the server
+ * and changing it does not reload the page, e.g.
+ * /<domainId>#cam=1,2,3,0,0,0&mode=fps&hide=navmesh,occlusion&portal=<id>&measure=distance:0,0,0;1,0,0
+ */
+
+export interface LayerVisibility {
+  pointCloud: boolean;
+  portals: boolean;
+  navMesh: boolean;
+  occlusion: boolean;
+}
+
+export const DEFAULT_LAYER_VISIBILITY: LayerVisibility = {
+  pointCloud: true,
+  portals: true,
+  navMesh: true,
+  occlusion: true,
+};
+
+export interface ViewLinkState {
+  camera: CameraView | null;
+  controlMode: ControlMode;
+  layers: LayerVisibility;
+  portalId: string | null;
+  measurement: Pick<Measurement, "type" | "points"> | null;
+}
+
+// Names of the layers in URL parameters
+export const LAYER_PARAM_NAMES: Record<keyof LayerVisibility, string> = {
+  pointCloud: "pointcloud",
+  portals: "portals",
+  navMesh: "navmesh",
+  occlusion: "occlusion",
+};
+
+// Millimeters are plenty, and keep links short
+const formatNumber = (value: number) => String(Number(value.toFixed(3)));
+
+function parseNumbers(text: string, count: number): number[] | null {
+  const values = text.split(",").map(Number);
+  return values.length === count && values.every(Number.isFinite) ? values : null;
+}
+
+/**
+ * Encodes a view as a URL hash, without the leading '#'. Defaults are left out.
+ */
+export function encodeViewLink(state: ViewLinkState): string {
+  const parts: string[] = [];
+  if (state.camera) {
+    parts.push(`cam=${[...state.camera.position, ...state.camera.target].map(formatNumber).join(",")}`);
+  }
+  if (state.controlMode !== "map") {
+    parts.push(`mode=${state.controlMode}`);
+  }
+  const hidden = (Object.keys(LAYER_PARAM_NAMES) as (keyof LayerVisibility)[]).filter((layer) => !state.layers[layer]);
+  if (hidden.length > 0) {
+    parts.push(`hide=${hidden.map((layer) => LAYER_PARAM_NAMES[layer]).join(",")}`);
+  }
+  if (state.portalId) {
+    parts.push(`portal=${encodeURIComponent(state.portalId)}`);
+  }
+  if (state.measurement) {
+    const points = state.measurement.points.map((point) => point.map(formatNumber).join(",")).join(";");
+    parts.push(`measure=${state.measurement.type}:${points}`);
+  }
+  return parts.join("&");
+}
+
+/**
+ * Decodes a URL hash written by encodeViewLink. Only the parts the hash holds, and that
+ * are valid, are returned; layers missing from hide are visible.
+ */
+export function parseViewLink(hash: string): Partial<ViewLinkState> {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const state: Partial<ViewLinkState> = {};
+
+  const cam = params.get("cam");
+  const camValues = cam ? parseNumbers(cam, 6) : null;
+  if (camValues) {
+    state.camera = {
+      position: camValues.slice(0, 3) as Vec3,
+      target: camValues.slice(3, 6) as Vec3,
+    };
+  }
+
+  const mode = params.get("mode");
+  if (mode === "map" || mode === "fps") {
+    state.controlMode = mode;
+  }
+
+  const hide = params.get("hide");
+  if (hide !== null) {
+    const hidden = new Set(hide.split(","));
+    state.layers = { ...DEFAULT_LAYER_VISIBILITY };
+    (Object.keys(LAYER_PARAM_NAMES) as (keyof LayerVisibility)[]).forEach((layer) => {
+      state.layers![layer] = !hidden.has(LAYER_PARAM_NAMES[layer]);
+    });
+  }
+
+  const portal = params.get("portal");
+  if (portal) {
+    state.portalId = portal;
+  }
+
+  const measure = params.get("measure");
+  if (measure) {
+    const [type, pointsText = ""] = measure.split(":");
+    if (Object.hasOwn(MIN_MEASUREMENT_POINTS, type)) {
+      const points = pointsText.split(";").map((text) => parseNumbers(text, 3));
+      if (
+        points.length >= MIN_MEASUREMENT_POINTS[type as MeasurementType] &&
+        points.every((point): point is number[] => point !== null)
+      ) {
+        state.measurement = { type: type as MeasurementType, points: points as Vec3[] };
+      }
+    }
+  }
+
+  return state;
+}
@@ -0,0 +1,125 @@
+import { createAbortError } from "./abort";
+
+/**
+ * Message a pooled worker posts back for each task it runs.
+ */
+export type WorkerResponse<T> = { status: "success"; result: T } | { status: "error"; error: string };
+
+interface WorkerTask<TRequest, TResult> {
+  message: TRequest;
+  transfer: Transferable[];
+  signal?: AbortSignal;
+  onAbort?: () => void;
+  worker?: Worker;
+  resolve: (result: TResult) => void;
+  reject: (reason: Error) => void;
+}
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+}
+
+/**
+ * Runs tasks on a fixed number of reusable workers, one task per worker at a time.
+ * Workers are created on demand and kept alive between tasks. Aborting a running
+ * task terminates its worker; a fresh one is created for the next task.
+ */
+export class WorkerPool<TRequest, TResult> {
+  private idle: Worker[] = [];
+  private busy = new Set<Worker>();
+  private queue: WorkerTask<TRequest, TResult>[] = [];
+
+  constructor(
+    private createWorker: () => Worker,
+    private size: number = defaultPoolSize()
+  ) {}
+
+  /**
+   * Posts a message to the next free worker and resolves with its result.
+   *
+   * @param transfer - Buffers to move to the worker instead of copying; they are unusable afterwards
+   */
+  run(message: TRequest, transfer: Transferable[] = [], signal?: AbortSignal): Promise<TResult> {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    return new Promise<TResult>((resolve, reject) => {
+      const task: WorkerTask<TRequest, TResult> = { message, transfer, signal, resolve, reject };
+
+      if (signal) {
+        task.onAbort = () => {
+          if (task.worker) {
+            this.release(task.worker, task, false);
+          } else {
+            this.queue = this.queue.filter((queued) => queued !== task);
+          }
+          reject(createAbortError());
+        };
+        signal.addEventListener("abort", task.onAbort, { once: true });
+      }
+
+      this.queue.push(task);
+      this.drain();
+    });
+  }
+
+  /**
+   * Terminates every worker and rejects queued tasks.
+   */
+  terminate(): void {
+    this.queue.forEach((task) => task.reject(new Error("Worker pool terminated")));
+    this.queue = [];
+    [...this.idle, ...this.busy].forEach((worker) => worker.terminate());
+    this.idle = [];
+    this.busy.clear();
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0 && (this.idle.length > 0 || this.busy.size < this.size)) {
+      const worker = this.idle.pop() ?? this.createWorker();
+      this.execute(worker, this.queue.shift()!);
+    }
+  }
+
+  private execute(worker: Worker, task: WorkerTask<TRequest, TResult>): void {
+    task.worker = worker;
+    this.busy.add(worker);
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse<TResult>>) => {
+      this.release(worker, task, true);
+      if (event.data.status === "success") {
+        task.resolve(event.data.result);
+      } else {
+        task.reject(new Error(event.data.error));
+      }
+    };
+    // A worker that threw outside its message handler may be in a bad state, so replace it
+    worker.onerror = (event) => {
+      event.preventDefault();
+      this.release(worker, task, false);
+      task.reject(new Error(event.message || "Worker error"));
+    };
+    worker.onmessageerror = () => {
+      this.release(worker, task, false);
+      task.reject(new Error("Worker message could not be deserialized"));
+    };
+
+    worker.postMessage(task.message, task.transfer);
+  }
+
+  private release(worker: Worker, task: WorkerTask<TRequest, TResult>, reuse: boolean): void {
+    if (task.signal && task.onAbort) task.signal.removeEventListener("abort", task.onAbort);
+    task.worker = undefined;
+    worker.onmessage = null;
+    worker.onerror = null;
+    worker.onmessageerror = null;
+    this.busy.delete(worker);
+
+    if (reuse) {
+      this.idle.push(worker);
+    } else {
+      worker.terminate();
+    }
+    this.drain();
+  }
+}
@@ -0,0 +1,21 @@
+import { computeCloudDistances, CloudDistanceInput } from "@/utils/cloudDistance";
+import type { WorkerResponse } from "@/utils/workerPool";
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<CloudDistanceInput>) => {
+  let distances: Float32Array;
+  try {
+    distances = computeCloudDistances(event.data);
+  } catch (error) {
+    const response: WorkerResponse<Float32Array> = {
+      status: "error",
+      error: error instanceof Error ? error.message : String(error),
+    };
+    ctx.postMessage(response);
+    return;
+  }
+
+  const response: WorkerResponse<Float32Array> = { status: "success", result: distances };
+  ctx.postMessage(response, [distances.buffer]);
+};
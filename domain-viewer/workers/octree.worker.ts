@@ -0,0 +1,28 @@
+import { parsePly } from "@/utils/plyParser";
+import { buildOctree, octreeTransferables, OctreeOptions, PointCloudOctree } from "@/utils/pointCloudOctree";
+import type { WorkerResponse } from "@/utils/workerPool";
+
+export interface OctreeWorkerRequest {
+  data: ArrayBuffer | string;
+  options?: OctreeOptions;
+}
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<OctreeWorkerRequest>) => {
+  let octree: PointCloudOctree;
+  try {
+    const parsed = parsePly(event.data.data);
+    octree = buildOctree(parsed, event.data.options);
+  } catch (error) {
+    const response: WorkerResponse<PointCloudOctree> = {
+      status: "error",
+      error: error instanceof Error ? error.message : String(error),
+    };
+    ctx.postMessage(response);
+    return;
+  }
+
+  const response: WorkerResponse<PointCloudOctree> = { status: "success", result: octree };
+  ctx.postMessage(response, octreeTransferables(octree));
+};
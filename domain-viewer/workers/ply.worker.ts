@@ -0,0 +1,26 @@
+import { parsePly, plyTransferables, ParsedPly } from "@/utils/plyParser";
+import type { WorkerResponse } from "@/utils/workerPool";
+
+export interface PlyWorkerRequest {
+  data: ArrayBuffer | string;
+}
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<PlyWorkerRequest>) => {
+  let parsed: ParsedPly;
+  try {
+    parsed = parsePly(event.data.data);
+  } catch (error) {
+    const response: WorkerResponse<ParsedPly> = {
+      status: "error",
+      error: error instanceof Error ? error.message : String(error),
+    };
+    ctx.postMessage(response);
+    return;
+  }
+
+  // Hand the typed arrays to the main thread without copying them
+  const response: WorkerResponse<ParsedPly> = { status: "success", result: parsed };
+  ctx.postMessage(response, plyTransferables(parsed));
+};